@@ -3,6 +3,7 @@ import "dotenv/config";
 import { PrismaClient, Prisma } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
+import { hashPassword } from "../src/lib/password";
 
 if (!process.env.DATABASE_URL) {
   throw new Error("Falta DATABASE_URL. Revisa tu .env en la raíz del proyecto.");
@@ -182,6 +183,18 @@ async function main() {
   });
 
   console.log(`Seed OK. Insertados: ${res.count}`);
+
+  // ✅ Primer ADMIN del backoffice (sin él nadie puede crear usuarios)
+  const adminEmail = process.env.SEED_ADMIN_EMAIL?.trim().toLowerCase();
+  const adminPassword = process.env.SEED_ADMIN_PASSWORD;
+  if (adminEmail && adminPassword) {
+    await prisma.usuario.upsert({
+      where: { email: adminEmail },
+      create: { nombre: "Administrador", email: adminEmail, passwordHash: await hashPassword(adminPassword), rol: "ADMIN" },
+      update: {},
+    });
+    console.log(`Usuario ADMIN listo: ${adminEmail}`);
+  }
 }
 
 main()
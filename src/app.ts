@@ -1,20 +1,45 @@
 import express from "express";
 import cors from "cors";
 import { notFound, errorHandler } from "./middlewares/errorHandler";
+import { authenticate } from "./middlewares/auth";
+import authRoutes from "./routes/auth.routes";
+import usuariosRoutes from "./routes/usuarios.routes";
 import clientesRoutes from "./routes/clientes.routes";
 import catalogoRoutes from "./routes/catalogo.routes";
 import inventarioRoutes from "./routes/inventario.routes";
 import stockAlertsRoutes from "./routes/stockAlerts.routes";
+import ordenesCompraRoutes from "./routes/ordenesCompra.routes";
+import tiposCambioRoutes from "./routes/tiposCambio.routes";
+import notificacionesRoutes from "./routes/notificaciones.routes";
+import eventsRoutes from "./routes/events.routes";
 import cotizacionesRoutes from "./routes/cotizaciones.routes";
 import crmCotizacionesRoutes from "./routes/crmCotizaciones.routes";
+import crmSeguimientoRoutes from "./routes/crmSeguimiento.routes";
+import pedidosRoutes from "./routes/pedidos.routes";
+import pagosRoutes from "./routes/pagos.routes";
+import carritosRoutes from "./routes/carritos.routes";
+import reportesRoutes from "./routes/reportes.routes";
 
 const app = express();
 
 app.use(cors());
 app.use(express.json());
 
+/**
+ * ✅ Si viene Bearer token (cliente ecommerce o staff) deja req.auth.
+ * Cada router aplica requirePermiso por ruta; quedan públicos: health, auth,
+ * catálogo (GET productos), POST cotizaciones, carritos y retorno/simulador de pagos.
+ */
+app.use(authenticate);
+
 app.get("/api/health", (_req, res) => res.json({ ok: true }));
 
+/** ✅ Auth clientes ecommerce */
+app.use("/api/auth", authRoutes);
+
+/** ✅ Usuarios backoffice (roles) */
+app.use("/api/usuarios", usuariosRoutes);
+
 /** ✅ Clientes */
 app.use("/api/clientes", clientesRoutes);
 
@@ -25,10 +50,33 @@ app.use("/api", inventarioRoutes);
 /** ✅ Stock alerts */
 app.use("/api/stock-alerts", stockAlertsRoutes);
 
+/** ✅ Compras: sugerencias de reposición y órdenes de compra a proveedor */
+app.use("/api/ordenes-compra", ordenesCompraRoutes);
+
+/** ✅ Tipos de cambio (USD / EUR / UF → CLP) para precios de proveedor */
+app.use("/api/tipos-cambio", tiposCambioRoutes);
+
+/** ✅ Bandeja de notificaciones del panel */
+app.use("/api/notificaciones", notificacionesRoutes);
+
+/** ✅ Eventos en tiempo real (SSE): alertas, cotizaciones, pedidos y pagos */
+app.use("/api/events", eventsRoutes);
+
 /** ✅ Cotizaciones: ESTE ERA EL ERROR */
 app.use("/api/cotizaciones", cotizacionesRoutes);
 app.use("/api/crm/cotizaciones", crmCotizacionesRoutes);
 
+/** ✅ CRM: actividades y tareas de seguimiento (/api/crm/actividades, /api/crm/tareas) */
+app.use("/api/crm", crmSeguimientoRoutes);
+
+/** ✅ Carritos / Pedidos ecommerce */
+app.use("/api/carritos", carritosRoutes);
+app.use("/api/pedidos", pedidosRoutes);
+app.use("/api/pagos", pagosRoutes);
+
+/** ✅ Reportes (ventas: embudo, vendedores, mensual, origen, productos) */
+app.use("/api/reportes", reportesRoutes);
+
 app.use(notFound);
 app.use(errorHandler);
 
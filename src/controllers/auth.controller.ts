@@ -0,0 +1,431 @@
+// src/controllers/auth.controller.ts
+import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { hashPassword, verifyPassword } from "../lib/password";
+import { signStaffToken } from "../lib/authTokens";
+import { PERMISOS_POR_ROL } from "../lib/permisos";
+import type { AuthCliente, AuthStaff } from "../middlewares/auth";
+import { handleError, httpError } from "../utils/http";
+import {
+  consumirTokenCuentaTx,
+  crearSesionTx,
+  crearTokenCuentaTx,
+  enviarEmailResetPassword,
+  enviarEmailVerificacion,
+  normalizarEmail,
+  refrescarSesionTx,
+  revocarSesionTx,
+  revocarSesionesUsuarioTx,
+  usuarioPublicSelect,
+  type SesionMeta,
+} from "../services/auth.service";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/auth/register -H "Content-Type: application/json" -d '{"nombre":"Juan","email":"j@x.cl","password":"secreto123"}'
+// -> con MAIL_TRANSPORT=console el link de verificación sale en el log
+// curl -X POST http://localhost:3000/api/auth/verify-email -H "Content-Type: application/json" -d '{"token":"<token>"}'
+// curl -X POST http://localhost:3000/api/auth/login -H "Content-Type: application/json" -d '{"email":"j@x.cl","password":"secreto123"}'
+// curl http://localhost:3000/api/auth/me -H "Authorization: Bearer <accessToken>"
+// curl -X POST http://localhost:3000/api/auth/refresh -H "Content-Type: application/json" -d '{"refreshToken":"<refreshToken>"}'
+// curl -X POST http://localhost:3000/api/auth/forgot-password -H "Content-Type: application/json" -d '{"email":"j@x.cl"}'
+// curl -X POST http://localhost:3000/api/auth/reset-password -H "Content-Type: application/json" -d '{"token":"<token>","password":"nueva12345"}'
+// curl -X POST http://localhost:3000/api/auth/staff/login -H "Content-Type: application/json" -d '{"email":"admin@covasa.cl","password":"..."}'
+
+/* =========================
+   Schemas
+========================= */
+
+const optionalTrimmed = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((v) => (v ? v : null));
+
+const passwordSchema = z.string().min(8, "password debe tener al menos 8 caracteres").max(200);
+
+const registerSchema = z.object({
+  nombre: z.string().trim().min(1, "nombre es obligatorio"),
+  apellidos: optionalTrimmed,
+  email: z.string().trim().email("email inválido").transform(normalizarEmail),
+  telefono: optionalTrimmed,
+  rut: optionalTrimmed,
+  tipo: z.enum(["NATURAL", "EMPRESA"]).optional(),
+  password: passwordSchema,
+});
+
+const loginSchema = z.object({
+  email: z.string().trim().min(1, "email es obligatorio").transform(normalizarEmail),
+  password: z.string().min(1, "password es obligatorio"),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, "refreshToken es obligatorio"),
+});
+
+const emailSchema = z.object({
+  email: z.string().trim().min(1, "email es obligatorio").transform(normalizarEmail),
+});
+
+const tokenSchema = z.object({
+  token: z.string().trim().min(1, "token es obligatorio"),
+});
+
+const resetPasswordSchema = tokenSchema.extend({
+  password: passwordSchema,
+});
+
+/* =========================
+   Helpers
+========================= */
+
+function sesionMeta(req: Request): SesionMeta {
+  return { userAgent: req.get("user-agent") ?? null, ip: req.ip ?? null };
+}
+
+/** El correo sale después del commit; si el mailer falla la operación ya quedó hecha (se puede reenviar). */
+async function enviarSinFallar(fn: () => Promise<void>) {
+  try {
+    await fn();
+  } catch (e) {
+    console.error("Error enviando email:", e);
+  }
+}
+
+// respuesta única para forgot/resend: no revela si el email tiene cuenta
+const MSG_EMAIL_ENVIADO = "Si el email tiene una cuenta, te enviamos un correo con las instrucciones";
+
+const clienteSelect = {
+  id: true,
+  tipo: true,
+  rut: true,
+  nombre: true,
+  apellidos: true,
+  email: true,
+  telefono: true,
+};
+
+/* =========================
+   POST /auth/register
+   - si ya existe un ecommerce_cliente con ese email (ej: compró como invitado) se vincula
+   - la cuenta queda PENDIENTE hasta verificar el email (no entrega sesión)
+========================= */
+export async function register(req: Request, res: Response) {
+  try {
+    const body = registerSchema.parse(req.body ?? {});
+    const passwordHash = await hashPassword(body.password);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.ecommerce_usuario.findUnique({ where: { email: body.email }, select: { id: true } });
+      if (existing) throw httpError(409, "Ya existe una cuenta con ese email", "EMAIL_EN_USO");
+
+      const clientePrevio = await tx.ecommerce_cliente.findUnique({ where: { email: body.email } });
+      if (clientePrevio?.usuarioId) throw httpError(409, "Ya existe una cuenta con ese email", "EMAIL_EN_USO");
+
+      const now = new Date();
+      const usuario = await tx.ecommerce_usuario.create({
+        data: {
+          id: randomUUID(),
+          nombre: [body.nombre, body.apellidos].filter(Boolean).join(" "),
+          email: body.email,
+          telefono: body.telefono,
+          passwordHash,
+          estado: "PENDIENTE",
+          createdAt: now,
+          updatedAt: now,
+        },
+        select: usuarioPublicSelect,
+      });
+
+      const cliente = clientePrevio
+        ? await tx.ecommerce_cliente.update({
+            where: { id: clientePrevio.id },
+            data: { usuarioId: usuario.id, updatedAt: now },
+            select: clienteSelect,
+          })
+        : await tx.ecommerce_cliente.create({
+            data: {
+              id: randomUUID(),
+              usuarioId: usuario.id,
+              tipo: body.tipo ?? "NATURAL",
+              rut: body.rut,
+              nombre: body.nombre,
+              apellidos: body.apellidos,
+              email: body.email,
+              telefono: body.telefono,
+              createdAt: now,
+              updatedAt: now,
+            },
+            select: clienteSelect,
+          });
+
+      const token = await crearTokenCuentaTx(tx, usuario.id, "VERIFICAR_EMAIL");
+      return { usuario, cliente, token };
+    });
+
+    await enviarSinFallar(() => enviarEmailVerificacion(result.usuario, result.token));
+
+    return res.status(201).json({
+      message: "Cuenta creada. Revisa tu email para activarla",
+      usuario: result.usuario,
+      cliente: result.cliente,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error registrando usuario");
+  }
+}
+
+/* =========================
+   POST /auth/login
+========================= */
+export async function login(req: Request, res: Response) {
+  try {
+    const body = loginSchema.parse(req.body ?? {});
+
+    const usuario = await prisma.ecommerce_usuario.findUnique({
+      where: { email: body.email },
+      include: { ecommerce_cliente: { select: clienteSelect } },
+    });
+
+    // mismo mensaje para email inexistente y password incorrecta
+    if (!usuario || !(await verifyPassword(body.password, usuario.passwordHash))) {
+      return res.status(401).json({ message: "Email o password incorrectos" });
+    }
+    if (usuario.estado === "PENDIENTE") {
+      return res.status(403).json({ message: "Debes verificar tu email antes de ingresar", code: "EMAIL_NO_VERIFICADO" });
+    }
+    if (usuario.estado !== "ACTIVO") {
+      return res.status(403).json({ message: `La cuenta está ${usuario.estado}` });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // cuentas antiguas sin ficha de cliente: se crea al vuelo para poder asociar carritos/pedidos
+      const now = new Date();
+      const cliente =
+        usuario.ecommerce_cliente ??
+        (await tx.ecommerce_cliente.create({
+          data: {
+            id: randomUUID(),
+            usuarioId: usuario.id,
+            tipo: "NATURAL",
+            nombre: usuario.nombre,
+            email: usuario.email,
+            telefono: usuario.telefono,
+            createdAt: now,
+            updatedAt: now,
+          },
+          select: clienteSelect,
+        }));
+
+      const sesion = await crearSesionTx(tx, usuario.id, cliente.id, sesionMeta(req));
+      const { passwordHash: _omit, ecommerce_cliente: _c, ...publico } = usuario;
+      return { usuario: publico, cliente, ...sesion };
+    });
+
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error iniciando sesión");
+  }
+}
+
+/* =========================
+   POST /auth/refresh
+========================= */
+export async function refresh(req: Request, res: Response) {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body ?? {});
+    const { reutilizado, ...result } = await prisma.$transaction((tx) => refrescarSesionTx(tx, refreshToken));
+    // fuera de la transacción: la revocación de la sesión ya quedó confirmada
+    if (reutilizado) throw httpError(401, "Refresh token reutilizado; la sesión fue cerrada", "REFRESH_REUTILIZADO");
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error refrescando sesión");
+  }
+}
+
+/* =========================
+   POST /auth/verify-email
+   - PENDIENTE → ACTIVO y deja la sesión iniciada
+========================= */
+export async function verifyEmail(req: Request, res: Response) {
+  try {
+    const { token } = tokenSchema.parse(req.body ?? {});
+
+    const result = await prisma.$transaction(async (tx) => {
+      const row = await consumirTokenCuentaTx(tx, token, "VERIFICAR_EMAIL");
+
+      const usuario = await tx.ecommerce_usuario.findUniqueOrThrow({
+        where: { id: row.usuarioId },
+        include: { ecommerce_cliente: { select: clienteSelect } },
+      });
+      if (usuario.estado !== "PENDIENTE" && usuario.estado !== "ACTIVO") {
+        throw httpError(403, `La cuenta está ${usuario.estado}`, "CUENTA_NO_ACTIVA");
+      }
+      if (!usuario.ecommerce_cliente) throw httpError(409, "La cuenta no tiene ficha de cliente", "CLIENTE_NOT_FOUND");
+
+      const activado = await tx.ecommerce_usuario.update({
+        where: { id: usuario.id },
+        data: { estado: "ACTIVO", updatedAt: new Date() },
+        select: usuarioPublicSelect,
+      });
+
+      const sesion = await crearSesionTx(tx, usuario.id, usuario.ecommerce_cliente.id, sesionMeta(req));
+      return { usuario: activado, cliente: usuario.ecommerce_cliente, ...sesion };
+    });
+
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error verificando email");
+  }
+}
+
+/* =========================
+   POST /auth/resend-verification
+========================= */
+export async function resendVerification(req: Request, res: Response) {
+  try {
+    const { email } = emailSchema.parse(req.body ?? {});
+
+    const usuario = await prisma.ecommerce_usuario.findUnique({ where: { email } });
+    if (usuario?.estado === "PENDIENTE") {
+      const token = await prisma.$transaction((tx) => crearTokenCuentaTx(tx, usuario.id, "VERIFICAR_EMAIL"));
+      await enviarSinFallar(() => enviarEmailVerificacion(usuario, token));
+    }
+
+    return res.json({ message: MSG_EMAIL_ENVIADO });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error reenviando verificación");
+  }
+}
+
+/* =========================
+   POST /auth/forgot-password
+========================= */
+export async function forgotPassword(req: Request, res: Response) {
+  try {
+    const { email } = emailSchema.parse(req.body ?? {});
+
+    const usuario = await prisma.ecommerce_usuario.findUnique({ where: { email } });
+    if (usuario && (usuario.estado === "ACTIVO" || usuario.estado === "PENDIENTE")) {
+      const token = await prisma.$transaction((tx) => crearTokenCuentaTx(tx, usuario.id, "RESET_PASSWORD"));
+      await enviarSinFallar(() => enviarEmailResetPassword(usuario, token));
+    }
+
+    return res.json({ message: MSG_EMAIL_ENVIADO });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error solicitando cambio de contraseña");
+  }
+}
+
+/* =========================
+   POST /auth/reset-password
+   - cierra todas las sesiones abiertas; como el link llegó al email, también lo da por verificado
+========================= */
+export async function resetPassword(req: Request, res: Response) {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body ?? {});
+    const passwordHash = await hashPassword(password);
+
+    await prisma.$transaction(async (tx) => {
+      const row = await consumirTokenCuentaTx(tx, token, "RESET_PASSWORD");
+
+      const usuario = await tx.ecommerce_usuario.findUniqueOrThrow({ where: { id: row.usuarioId } });
+      if (usuario.estado !== "PENDIENTE" && usuario.estado !== "ACTIVO") {
+        throw httpError(403, `La cuenta está ${usuario.estado}`, "CUENTA_NO_ACTIVA");
+      }
+
+      await tx.ecommerce_usuario.update({
+        where: { id: usuario.id },
+        data: { passwordHash, estado: "ACTIVO", updatedAt: new Date() },
+      });
+      await revocarSesionesUsuarioTx(tx, usuario.id);
+    });
+
+    return res.json({ message: "Contraseña actualizada. Inicia sesión con tu nueva contraseña" });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error restableciendo contraseña");
+  }
+}
+
+/* =========================
+   POST /auth/logout
+========================= */
+export async function logout(req: Request, res: Response) {
+  try {
+    const auth = req.auth as AuthCliente;
+    await prisma.$transaction((tx) => revocarSesionTx(tx, auth.sesionId));
+    return res.json({ message: "Sesión cerrada" });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cerrando sesión");
+  }
+}
+
+/* =========================
+   GET /auth/me
+========================= */
+export async function me(req: Request, res: Response) {
+  try {
+    const usuario = await prisma.ecommerce_usuario.findUnique({
+      where: { id: (req.auth as AuthCliente).usuarioId },
+      select: { ...usuarioPublicSelect, ecommerce_cliente: { select: clienteSelect } },
+    });
+    if (!usuario) return res.status(404).json({ message: "Usuario no encontrado" });
+
+    const { ecommerce_cliente: cliente, ...publico } = usuario;
+    return res.json({ usuario: publico, cliente });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo usuario");
+  }
+}
+
+/* =========================
+   POST /auth/staff/login
+   - usuarios internos (backoffice); token sin refresh, dura AUTH_STAFF_TTL
+========================= */
+
+const staffSelect = { id: true, nombre: true, email: true, rol: true, activo: true, ultimoLoginAt: true };
+
+export async function staffLogin(req: Request, res: Response) {
+  try {
+    const body = loginSchema.parse(req.body ?? {});
+
+    const usuario = await prisma.usuario.findUnique({ where: { email: body.email } });
+    if (!usuario || !(await verifyPassword(body.password, usuario.passwordHash))) {
+      return res.status(401).json({ message: "Email o password incorrectos" });
+    }
+    if (!usuario.activo) return res.status(403).json({ message: "Usuario desactivado" });
+
+    const updated = await prisma.usuario.update({
+      where: { id: usuario.id },
+      data: { ultimoLoginAt: new Date() },
+      select: staffSelect,
+    });
+
+    return res.json({
+      usuario: updated,
+      permisos: PERMISOS_POR_ROL[updated.rol],
+      accessToken: signStaffToken(updated.id),
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error iniciando sesión");
+  }
+}
+
+/* =========================
+   GET /auth/staff/me
+========================= */
+export async function staffMe(req: Request, res: Response) {
+  try {
+    const usuario = await prisma.usuario.findUnique({
+      where: { id: (req.auth as AuthStaff).usuarioId },
+      select: staffSelect,
+    });
+    if (!usuario) return res.status(404).json({ message: "Usuario no encontrado" });
+
+    return res.json({ usuario, permisos: PERMISOS_POR_ROL[usuario.rol] });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo usuario");
+  }
+}
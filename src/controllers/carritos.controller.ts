@@ -0,0 +1,506 @@
+// src/controllers/carritos.controller.ts
+import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { handleError, httpError } from "../utils/http";
+import { makeCodigoCotizacion, publicarCotizacionNueva } from "../services/cotizaciones.service";
+import { crearPedidoTx, despachoSchema } from "../services/pedidos.service";
+import {
+  getCarritoActivoTx,
+  itemsDesdeCarritoTx,
+  marcarCarritoConvertidoTx,
+  snapshotLineaCarrito,
+  totalesCarrito,
+} from "../services/carritos.service";
+import { detectarCarritosAbandonados } from "../jobs/carritosAbandonados.job";
+import { assertPropietario, clienteScopeId } from "../middlewares/auth";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/carritos -H "Content-Type: application/json" -d '{}'
+// curl -X POST http://localhost:3000/api/carritos/<id>/items -H "Content-Type: application/json" -d '{"productoId":"<uuid>","cantidad":3}'
+// curl -X POST http://localhost:3000/api/carritos/<id>/convertir/pedido -H "Content-Type: application/json" -d '{"despacho":{...}}'
+
+/* =========================
+   Schemas
+========================= */
+
+const optionalTrimmed = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((v) => (v ? v : null));
+
+const itemSchema = z.object({
+  productoId: z.string().uuid("productoId inválido"),
+  cantidad: z.coerce.number().int().min(1, "cantidad debe ser ≥ 1"),
+});
+
+const createCarritoSchema = z.object({
+  ecommerceClienteId: optionalTrimmed,
+  clienteId: optionalTrimmed,
+  items: z.array(itemSchema).optional(),
+});
+
+const updateItemSchema = z.object({
+  // 0 = quitar la línea
+  cantidad: z.coerce.number().int().min(0, "cantidad debe ser ≥ 0"),
+});
+
+const convertirCotizacionSchema = z.object({
+  nombreContacto: optionalTrimmed,
+  email: optionalTrimmed,
+  telefono: optionalTrimmed,
+  empresa: optionalTrimmed,
+  rut: optionalTrimmed,
+  observaciones: optionalTrimmed,
+  ocCliente: optionalTrimmed,
+});
+
+const abandonadosQuerySchema = z.object({
+  orden: z.enum(["valor", "reciente"]).default("valor"),
+  minTotal: z.coerce.number().int().min(0).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const convertirPedidoSchema = z.object({
+  despacho: despachoSchema.optional().nullable(),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+const carritoInclude = {
+  ecommerce_carrito_item: {
+    orderBy: { createdAt: "asc" as const },
+    include: {
+      Producto: { select: { id: true, nombre: true, sku: true, unidadMedida: true, fotoUrl: true } },
+    },
+  },
+  ecommerce_cliente: { select: { id: true, nombre: true, apellidos: true, email: true, telefono: true } },
+};
+
+async function getCarritoConTotales(tx: Prisma.TransactionClient | typeof prisma, id: string) {
+  const carrito = await tx.ecommerce_carrito.findUnique({ where: { id }, include: carritoInclude });
+  if (!carrito) return null;
+  return { ...carrito, totales: totalesCarrito(carrito.ecommerce_carrito_item) };
+}
+
+async function getProductoPrecio(tx: Prisma.TransactionClient, productoId: string) {
+  const producto = await tx.producto.findUnique({
+    where: { id: productoId },
+    select: { id: true, precioGeneral: true, precioConDescto: true },
+  });
+  if (!producto) throw httpError(400, "productoId no existe", "PRODUCTO_NOT_FOUND");
+  return producto;
+}
+
+/** Crea o actualiza la línea (cantidad final) recalculando snapshots con el precio vigente. */
+async function setLineaTx(tx: Prisma.TransactionClient, carritoId: string, productoId: string, cantidad: number) {
+  const producto = await getProductoPrecio(tx, productoId);
+  const snap = snapshotLineaCarrito(producto, cantidad);
+
+  await tx.ecommerce_carrito_item.upsert({
+    where: { carritoId_productoId: { carritoId, productoId } },
+    create: { id: randomUUID(), carritoId, productoId, ...snap },
+    update: snap,
+  });
+}
+
+/**
+ * 404 si el carrito no existe o es de otro cliente.
+ * Un carrito de invitado que abre un cliente logueado queda asociado a él.
+ */
+async function assertAccesoCarrito(tx: Prisma.TransactionClient | typeof prisma, req: Request, id: string) {
+  const carrito = await tx.ecommerce_carrito.findUnique({
+    where: { id },
+    select: { ecommerceClienteId: true, clienteId: true },
+  });
+  if (!carrito) throw httpError(404, "Carrito no encontrado", "CARRITO_NOT_FOUND");
+
+  const notFound = { message: "Carrito no encontrado", code: "CARRITO_NOT_FOUND" };
+  // un carrito armado por staff para un cliente legacy tampoco es "de invitado"
+  if (!req.auth && carrito.clienteId) throw httpError(404, notFound.message, notFound.code);
+  assertPropietario(req, carrito.ecommerceClienteId, notFound, { permitirAnonimo: true });
+
+  const scope = clienteScopeId(req);
+  if (scope && !carrito.ecommerceClienteId) {
+    await tx.ecommerce_carrito.update({ where: { id }, data: { ecommerceClienteId: scope } });
+  }
+}
+
+async function touchCarritoTx(tx: Prisma.TransactionClient, carritoId: string) {
+  await tx.ecommerce_carrito.update({ where: { id: carritoId }, data: { updatedAt: new Date() } });
+}
+
+/* =========================
+   POST /carritos
+========================= */
+export async function createCarrito(req: Request, res: Response) {
+  try {
+    const body = createCarritoSchema.parse(req.body ?? {});
+
+    // solo staff elige dueño desde el body; un cliente logueado es el dueño y un anónimo arma un carrito de invitado
+    const scope = clienteScopeId(req);
+    const esStaff = req.auth?.typ === "staff";
+
+    const carrito = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const created = await tx.ecommerce_carrito.create({
+        data: {
+          id: randomUUID(),
+          ecommerceClienteId: scope ?? (esStaff ? body.ecommerceClienteId : null),
+          clienteId: esStaff ? body.clienteId : null,
+          estado: "ACTIVO",
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      // mismas líneas repetidas se suman
+      const cantidades = new Map<string, number>();
+      for (const it of body.items ?? []) cantidades.set(it.productoId, (cantidades.get(it.productoId) ?? 0) + it.cantidad);
+      for (const [productoId, cantidad] of cantidades) await setLineaTx(tx, created.id, productoId, cantidad);
+
+      return getCarritoConTotales(tx, created.id);
+    });
+
+    return res.status(201).json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error creando carrito");
+  }
+}
+
+/* =========================
+   GET /carritos/:id
+========================= */
+export async function getCarritoById(req: Request, res: Response) {
+  try {
+    await assertAccesoCarrito(prisma, req, req.params.id);
+    const carrito = await getCarritoConTotales(prisma, req.params.id);
+    if (!carrito) return res.status(404).json({ message: "Carrito no encontrado" });
+    return res.json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo carrito");
+  }
+}
+
+/* =========================
+   GET /carritos/:id/totales
+========================= */
+export async function getCarritoTotales(req: Request, res: Response) {
+  try {
+    await assertAccesoCarrito(prisma, req, req.params.id);
+    const carrito = await prisma.ecommerce_carrito.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        estado: true,
+        ecommerce_carrito_item: { select: { cantidad: true, subtotalNetoSnapshot: true, ivaMontoSnapshot: true } },
+      },
+    });
+    if (!carrito) return res.status(404).json({ message: "Carrito no encontrado" });
+
+    return res.json({ id: carrito.id, estado: carrito.estado, ...totalesCarrito(carrito.ecommerce_carrito_item) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error calculando totales");
+  }
+}
+
+/* =========================
+   POST /carritos/:id/items
+   - si el producto ya está, suma la cantidad
+========================= */
+export async function addCarritoItem(req: Request, res: Response) {
+  try {
+    const body = itemSchema.parse(req.body ?? {});
+
+    const carrito = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, req.params.id);
+      await getCarritoActivoTx(tx, req.params.id);
+
+      const existing = await tx.ecommerce_carrito_item.findUnique({
+        where: { carritoId_productoId: { carritoId: req.params.id, productoId: body.productoId } },
+        select: { cantidad: true },
+      });
+
+      await setLineaTx(tx, req.params.id, body.productoId, (existing?.cantidad ?? 0) + body.cantidad);
+      await touchCarritoTx(tx, req.params.id);
+
+      return getCarritoConTotales(tx, req.params.id);
+    });
+
+    return res.status(201).json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error agregando item al carrito");
+  }
+}
+
+/* =========================
+   PATCH /carritos/:id/items/:productoId
+========================= */
+export async function updateCarritoItem(req: Request, res: Response) {
+  try {
+    const { cantidad } = updateItemSchema.parse(req.body ?? {});
+    const { id, productoId } = req.params;
+
+    const carrito = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, id);
+      await getCarritoActivoTx(tx, id);
+
+      const existing = await tx.ecommerce_carrito_item.findUnique({
+        where: { carritoId_productoId: { carritoId: id, productoId } },
+        select: { id: true },
+      });
+      if (!existing) throw httpError(404, "El producto no está en el carrito", "ITEM_NOT_FOUND");
+
+      if (cantidad === 0) await tx.ecommerce_carrito_item.delete({ where: { id: existing.id } });
+      else await setLineaTx(tx, id, productoId, cantidad);
+
+      await touchCarritoTx(tx, id);
+      return getCarritoConTotales(tx, id);
+    });
+
+    return res.json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error actualizando item del carrito");
+  }
+}
+
+/* =========================
+   DELETE /carritos/:id/items/:productoId
+========================= */
+export async function removeCarritoItem(req: Request, res: Response) {
+  try {
+    const { id, productoId } = req.params;
+
+    const carrito = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, id);
+      await getCarritoActivoTx(tx, id);
+
+      const deleted = await tx.ecommerce_carrito_item.deleteMany({ where: { carritoId: id, productoId } });
+      if (deleted.count === 0) throw httpError(404, "El producto no está en el carrito", "ITEM_NOT_FOUND");
+
+      await touchCarritoTx(tx, id);
+      return getCarritoConTotales(tx, id);
+    });
+
+    return res.json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error quitando item del carrito");
+  }
+}
+
+/* =========================
+   POST /carritos/:id/recalcular
+   - refresca snapshots de todas las líneas con el precio actual del producto
+========================= */
+export async function recalcularCarrito(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const carrito = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, id);
+      await getCarritoActivoTx(tx, id);
+
+      const items = await tx.ecommerce_carrito_item.findMany({ where: { carritoId: id } });
+      for (const it of items) await setLineaTx(tx, id, it.productoId, it.cantidad);
+
+      await touchCarritoTx(tx, id);
+      return getCarritoConTotales(tx, id);
+    });
+
+    return res.json(carrito);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error recalculando carrito");
+  }
+}
+
+/* =========================
+   POST /carritos/:id/convertir/cotizacion
+   - datos de contacto: body o, si no vienen, el ecommerce_cliente del carrito
+========================= */
+export async function convertirCarritoACotizacion(req: Request, res: Response) {
+  try {
+    const body = convertirCotizacionSchema.parse(req.body ?? {});
+
+    const cotizacion = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, req.params.id);
+      const { carrito, items } = await itemsDesdeCarritoTx(tx, req.params.id);
+
+      const cliente = carrito.ecommerceClienteId
+        ? await tx.ecommerce_cliente.findUnique({ where: { id: carrito.ecommerceClienteId } })
+        : null;
+
+      const nombreContacto =
+        body.nombreContacto ?? (cliente ? [cliente.nombre, cliente.apellidos].filter(Boolean).join(" ") : null);
+      const email = body.email ?? cliente?.email ?? null;
+      const telefono = body.telefono ?? cliente?.telefono ?? null;
+
+      if (!nombreContacto) throw httpError(400, "nombreContacto es obligatorio", "VALIDATION");
+      if (!email) throw httpError(400, "email es obligatorio", "VALIDATION");
+      if (!telefono) throw httpError(400, "telefono es obligatorio", "VALIDATION");
+
+      const subtotalNeto = items.reduce((acc, it) => acc + it.subtotalNetoSnapshot, 0);
+      const iva = items.reduce((acc, it) => acc + it.ivaMontoSnapshot, 0);
+      const now = new Date();
+
+      const created = await tx.ecommerce_cotizacion.create({
+        data: {
+          id: randomUUID(),
+          codigo: makeCodigoCotizacion(),
+          origen: "CARRITO",
+          ecommerceClienteId: carrito.ecommerceClienteId,
+          clienteId: carrito.clienteId,
+          nombreContacto,
+          email,
+          telefono,
+          empresa: body.empresa,
+          rut: body.rut ?? cliente?.rut ?? null,
+          observaciones: body.observaciones,
+          ocCliente: body.ocCliente,
+          subtotalNeto,
+          iva,
+          total: subtotalNeto + iva,
+          estado: "NUEVA",
+          createdAt: now,
+          updatedAt: now,
+          ecommerce_cotizacion_item: {
+            create: items.map((it) => ({ id: randomUUID(), ...it, createdAt: now })),
+          },
+        },
+        include: { ecommerce_cotizacion_item: true },
+      });
+
+      await marcarCarritoConvertidoTx(tx, carrito.id);
+      return created;
+    });
+
+    publicarCotizacionNueva(cotizacion);
+    return res.status(201).json(cotizacion);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error convirtiendo carrito a cotización");
+  }
+}
+
+/* =========================
+   POST /carritos/:id/convertir/pedido
+========================= */
+export async function convertirCarritoAPedido(req: Request, res: Response) {
+  try {
+    const body = convertirPedidoSchema.parse(req.body ?? {});
+
+    const pedido = await prisma.$transaction(async (tx) => {
+      await assertAccesoCarrito(tx, req, req.params.id);
+      const { carrito, items } = await itemsDesdeCarritoTx(tx, req.params.id);
+
+      const created = await crearPedidoTx(tx, {
+        ecommerceClienteId: carrito.ecommerceClienteId,
+        clienteId: carrito.clienteId,
+        despacho: body.despacho ?? null,
+        items,
+      });
+
+      await marcarCarritoConvertidoTx(tx, carrito.id);
+      return created;
+    });
+
+    return res.status(201).json(pedido);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error convirtiendo carrito a pedido");
+  }
+}
+
+/* =========================
+   GET /carritos/abandonados?orden=valor|reciente&minTotal=&page=&pageSize=
+   - para que ventas llame: valor del carrito + contacto del cliente
+========================= */
+export async function listCarritosAbandonados(req: Request, res: Response) {
+  try {
+    const parsed = abandonadosQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
+    }
+    const { orden, minTotal, page, pageSize } = parsed.data;
+
+    // totales agregados en SQL: solo se cargan los carritos de la página pedida
+    const totales = Prisma.sql`
+      SELECT c.id, c."updatedAt", SUM(i."subtotalNetoSnapshot" + i."ivaMontoSnapshot") AS total
+      FROM "ecommerce_carrito" c
+      JOIN "ecommerce_carrito_item" i ON i."carritoId" = c.id
+      WHERE c.estado = 'ABANDONADO'
+      GROUP BY c.id
+    `;
+    const filtroTotal = minTotal === undefined ? Prisma.empty : Prisma.sql`WHERE t.total >= ${minTotal}`;
+    const ordenSql =
+      orden === "valor" ? Prisma.sql`t.total DESC, t."updatedAt" DESC` : Prisma.sql`t."updatedAt" DESC`;
+    const skip = (page - 1) * pageSize;
+
+    const [filas, [agg]] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string }>>`
+        SELECT t.id FROM (${totales}) t ${filtroTotal} ORDER BY ${ordenSql} LIMIT ${pageSize} OFFSET ${skip}
+      `,
+      prisma.$queryRaw<Array<{ cantidad: bigint; valorTotal: bigint | null }>>`
+        SELECT COUNT(*) AS cantidad, SUM(t.total) AS "valorTotal" FROM (${totales}) t ${filtroTotal}
+      `,
+    ]);
+
+    const rows = await prisma.ecommerce_carrito.findMany({
+      where: { id: { in: filas.map((f) => f.id) } },
+      include: {
+        ecommerce_carrito_item: {
+          select: { productoId: true, cantidad: true, subtotalNetoSnapshot: true, ivaMontoSnapshot: true, totalSnapshot: true },
+        },
+        ecommerce_cliente: { select: { id: true, nombre: true, apellidos: true, email: true, telefono: true } },
+      },
+    });
+    const porId = new Map(rows.map((c) => [c.id, c]));
+
+    const data = filas.flatMap((f) => {
+      const c = porId.get(f.id);
+      if (!c) return [];
+      return [
+        {
+          id: c.id,
+          ecommerceClienteId: c.ecommerceClienteId,
+          clienteId: c.clienteId,
+          ultimaActividad: c.updatedAt,
+          createdAt: c.createdAt,
+          cliente: c.ecommerce_cliente,
+          items: c.ecommerce_carrito_item,
+          totales: totalesCarrito(c.ecommerce_carrito_item),
+        },
+      ];
+    });
+
+    const total = Number(agg?.cantidad ?? 0);
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      valorTotal: Number(agg?.valorTotal ?? 0),
+      data,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando carritos abandonados");
+  }
+}
+
+/* =========================
+   POST /carritos/abandonados/detectar
+   - corre la detección ahora (la misma del job programado)
+========================= */
+export async function detectarAbandonados(_req: Request, res: Response) {
+  try {
+    const result = await detectarCarritosAbandonados();
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error detectando carritos abandonados");
+  }
+}
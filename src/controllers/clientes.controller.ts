@@ -34,7 +34,7 @@ const clienteSchema = z.object({
 
   // ✅ Negocio
   lineaCredito: z.coerce.number().int().min(0, "Línea de crédito debe ser ≥ 0").default(0),
-  vendedorId: optionalNullableString, // UUID/string (si luego tienes tabla Usuario)
+  vendedorId: optionalNullableString, // Usuario.id (staff)
   metodoPagoUnico: metodoPagoSchema,  // obligatorio en create (no editable después)
 });
 
@@ -123,15 +123,20 @@ export async function createCliente(req: Request, res: Response) {
     if (err?.code === "P2002") {
       return res.status(409).json({ error: "RUT ya existe" });
     }
+    // FK vendedorId -> Usuario
+    if (err?.code === "P2003") {
+      return res.status(400).json({ error: "Validación", issues: [{ path: ["vendedorId"], message: "Vendedor no existe" }] });
+    }
     console.error("Error al crear cliente:", err);
     return res.status(500).json({ error: "Error al crear cliente" });
   }
 }
 
-// READ ALL (?q=)
+// READ ALL (?q=&vendedorId=)
 export async function getClientes(req: Request, res: Response) {
   try {
     const q = String(req.query.q ?? "").trim();
+    const vendedorId = String(req.query.vendedorId ?? "").trim();
 
     const where =
       q.length > 0
@@ -146,8 +151,9 @@ export async function getClientes(req: Request, res: Response) {
         : undefined;
 
     const clientes = await prisma.cliente.findMany({
-      where,
+      where: { ...where, vendedorId: vendedorId || undefined },
       orderBy: { nombre: "asc" },
+      include: { vendedor: { select: { id: true, nombre: true } } },
     });
 
     return res.status(200).json(clientes);
@@ -168,6 +174,7 @@ export async function getClienteById(req: Request, res: Response) {
 
     const cliente = await prisma.cliente.findUnique({
       where: { id },
+      include: { vendedor: { select: { id: true, nombre: true, email: true } } },
     });
 
     if (!cliente) return res.status(404).json({ error: "Cliente no encontrado" });
@@ -216,6 +223,9 @@ export async function updateCliente(req: Request, res: Response) {
     }
     if (err?.code === "P2025") return res.status(404).json({ error: "Cliente no encontrado" });
     if (err?.code === "P2002") return res.status(409).json({ error: "RUT ya existe" });
+    if (err?.code === "P2003") {
+      return res.status(400).json({ error: "Validación", issues: [{ path: ["vendedorId"], message: "Vendedor no existe" }] });
+    }
 
     console.error("Error al actualizar cliente:", err);
     return res.status(500).json({ error: "Error al actualizar cliente" });
@@ -3,6 +3,10 @@ import type { Request, Response } from "express";
 import { randomUUID } from "crypto";
 import { EcommerceEstadoCotizacion, CrmEstadoCotizacion } from "@prisma/client";
 import { prisma } from "../lib/prisma";
+import { makeCodigoCotizacion, publicarCotizacionNueva } from "../services/cotizaciones.service";
+import { clienteScopeId } from "../middlewares/auth";
+import { uploadBufferToCloudinary } from "../lib/cloudinaryUpload";
+import { getCotizacionPdfData, renderCotizacionPdf } from "../services/cotizacionPdf.service";
 
 /* =========================
    Helpers
@@ -56,10 +60,8 @@ function safeMoney(v: unknown, def = 0) {
   return Number.isFinite(n) ? roundInt(n) : def;
 }
 
-function makeCodigoCotizacion() {
-  const t = Date.now().toString(36).toUpperCase();
-  const r = Math.random().toString(16).slice(2, 8).toUpperCase();
-  return `COT-${t}-${r}`;
+function getPdfFolder() {
+  return process.env.CLOUDINARY_COTIZACIONES_FOLDER || "covasa/cotizaciones";
 }
 
 /* =========================
@@ -147,7 +149,9 @@ export async function createCotizacion(req: Request, res: Response) {
         codigo: makeCodigoCotizacion(),
         origen: asString(body.origen).trim() || "ECOMMERCE",
 
-        clienteId: body.clienteId ? asString(body.clienteId).trim() : null,
+        // cliente logueado: la cotización queda a su nombre
+        ecommerceClienteId: clienteScopeId(req),
+        clienteId: !clienteScopeId(req) && body.clienteId ? asString(body.clienteId).trim() : null,
 
         nombreContacto,
         email,
@@ -191,6 +195,7 @@ export async function createCotizacion(req: Request, res: Response) {
       },
     });
 
+    publicarCotizacionNueva(created);
     res.status(201).json(created);
   } catch (e: any) {
     res.status(500).json({ message: e?.message ?? "Error creando cotización" });
@@ -211,6 +216,7 @@ export async function listCotizaciones(req: Request, res: Response) {
 
     const where = {
       estado: estado ?? undefined,
+      ecommerceClienteId: clienteScopeId(req) ?? undefined,
       OR: q
         ? [
             { codigo: { contains: q, mode: "insensitive" as const } },
@@ -279,7 +285,9 @@ export async function getCotizacionById(req: Request, res: Response) {
       },
     });
 
-    if (!row) return res.status(404).json({ message: "Cotización no encontrada" });
+    if (!row || (clienteScopeId(req) && row.ecommerceClienteId !== clienteScopeId(req))) {
+      return res.status(404).json({ message: "Cotización no encontrada" });
+    }
     res.json(row);
   } catch (e: any) {
     res.status(500).json({ message: e?.message ?? "Error obteniendo cotización" });
@@ -409,3 +417,55 @@ export async function unlinkCrm(req: Request, res: Response) {
     res.status(500).json({ message: e?.message ?? "Error desvinculando CRM" });
   }
 }
+
+/* =========================
+   GET /cotizaciones/:id/pdf
+   - inline por defecto; ?descargar=1 para attachment
+========================= */
+export async function getCotizacionPdf(req: Request, res: Response) {
+  try {
+    const cot = await getCotizacionPdfData(req.params.id);
+    if (!cot || (clienteScopeId(req) && cot.ecommerceClienteId !== clienteScopeId(req))) {
+      return res.status(404).json({ message: "Cotización no encontrada" });
+    }
+
+    const pdf = await renderCotizacionPdf(cot);
+    const disposition = asString(req.query.descargar) === "1" ? "attachment" : "inline";
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `${disposition}; filename="${cot.codigo}.pdf"`);
+    res.setHeader("Content-Length", String(pdf.length));
+    res.send(pdf);
+  } catch (e: any) {
+    res.status(500).json({ message: e?.message ?? "Error generando PDF de cotización" });
+  }
+}
+
+/* =========================
+   POST /cotizaciones/:id/pdf
+   - genera el PDF y lo guarda en Cloudinary (pdfUrl); se sobrescribe en cada generación
+========================= */
+export async function guardarCotizacionPdf(req: Request, res: Response) {
+  try {
+    const cot = await getCotizacionPdfData(req.params.id);
+    if (!cot) return res.status(404).json({ message: "Cotización no encontrada" });
+
+    const pdf = await renderCotizacionPdf(cot);
+    const up = await uploadBufferToCloudinary(pdf, {
+      folder: getPdfFolder(),
+      public_id: `${cot.codigo}.pdf`,
+      resource_type: "raw",
+    });
+
+    const now = new Date();
+    const updated = await prisma.ecommerce_cotizacion.update({
+      where: { id: cot.id },
+      data: { pdfUrl: up.secure_url, pdfGeneradoAt: now, updatedAt: now },
+      select: { id: true, codigo: true, pdfUrl: true, pdfGeneradoAt: true },
+    });
+
+    res.status(201).json(updated);
+  } catch (e: any) {
+    res.status(500).json({ message: e?.message ?? "Error guardando PDF de cotización" });
+  }
+}
@@ -1,14 +1,37 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
+import { CrmEstadoCotizacion, CrmTipoCierre, OrigenCliente, Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma";
+import { handleError } from "../utils/http";
+import {
+  TRANSICIONES_CRM,
+  actualizarCrmCotizacionTx,
+  cerrarCrmCotizacionTx,
+  generarPedidoDesdeCrmTx,
+  pendientesCrmCotizacionTx,
+} from "../services/crmCotizaciones.service";
+import { despachoSchema } from "../services/pedidos.service";
 
 // Manual test (curl):
-// curl "http://localhost:3000/api/crm/cotizaciones?page=1&pageSize=10"
-// curl "http://localhost:3000/api/crm/cotizaciones?estado=NUEVA&q=asd"
-// curl "http://localhost:3000/api/crm/cotizaciones/d5365a69-912d-4e41-bf58-324a63b88580"
+// curl "http://localhost:3000/api/crm/cotizaciones?page=1&pageSize=10" -H "Authorization: Bearer <token>"
+// curl "http://localhost:3000/api/crm/cotizaciones?estado=EN_SEGUIMIENTO&vendedorId=<uuid>&from=2026-01-01" -H "Authorization: Bearer <token>"
+// curl -X PATCH http://localhost:3000/api/crm/cotizaciones/<id> -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"nombreObra":"Edificio Los Robles","numeroOC":"OC-4411","estado":"EN_SEGUIMIENTO"}'
+// curl -X POST http://localhost:3000/api/crm/cotizaciones/<id>/cerrar -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"resultado":"PERDIDA","tipoCierre":"PROYECTO","motivoPerdida":"Precio"}'
+// curl http://localhost:3000/api/crm/cotizaciones/<id>/pendientes -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/crm/cotizaciones/<id>/generar-pedido -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"items":[{"productoId":"<uuid>","cantidad":10}]}'
+
+/* =========================
+   Schemas
+========================= */
 
 const listQuerySchema = z.object({
-  estado: z.enum(["NUEVA", "EN_REVISION", "RESPONDIDA", "CERRADA"]).optional(),
+  estado: z.enum(CrmEstadoCotizacion).optional(),
+  vendedorId: z.string().uuid("vendedorId inválido").optional(),
+  origenCliente: z.enum(OrigenCliente).optional(),
+  tipoCierre: z.enum(CrmTipoCierre).optional(),
   q: z.string().optional(),
   from: z.string().optional(),
   to: z.string().optional(),
@@ -16,6 +39,42 @@ const listQuerySchema = z.object({
   pageSize: z.coerce.number().int().min(1).max(200).default(10),
 });
 
+const nullableText = z.string().trim().optional().nullable();
+
+const patchSchema = z.object({
+  nombreObra: nullableText,
+  numeroOC: nullableText,
+  clienteDireccionSnapshot: nullableText,
+  observaciones: nullableText,
+  vendedorId: z.string().uuid("vendedorId inválido").optional().nullable(),
+  origenCliente: z.enum(OrigenCliente).optional().nullable(),
+  estado: z.literal("EN_SEGUIMIENTO").optional(),
+});
+
+const cerrarSchema = z.object({
+  resultado: z.enum(["GANADA", "PERDIDA"]),
+  tipoCierre: z.enum(CrmTipoCierre, { message: "tipoCierre es obligatorio (PROYECTO | COMPRA)" }),
+  motivoPerdida: nullableText,
+});
+
+const generarPedidoSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productoId: z.string().uuid("productoId inválido"),
+        cantidad: z.coerce.number().int().min(1, "cantidad debe ser >= 1"),
+        precioUnitarioNeto: z.coerce.number().int().min(0).optional(),
+      }),
+    )
+    .min(1, "items no puede venir vacío")
+    .optional(),
+  despacho: despachoSchema.optional().nullable(),
+});
+
+/* =========================
+   Helpers
+========================= */
+
 function parseDate(value?: string) {
   if (!value) return undefined;
   const date = new Date(value);
@@ -33,7 +92,7 @@ function buildRange(from?: string, to?: string) {
     return { error: { path: ["to"], message: "to invalido" } as const };
   }
 
-  if (!fromDate && !toDate) return { range: undefined as const };
+  if (!fromDate && !toDate) return { range: undefined };
   return {
     range: {
       ...(fromDate ? { gte: fromDate } : {}),
@@ -42,13 +101,41 @@ function buildRange(from?: string, to?: string) {
   };
 }
 
+const crmDetalleInclude = {
+  vendedor: { select: { id: true, nombre: true, email: true } },
+  ecommerce_cotizacion: {
+    select: {
+      id: true,
+      codigo: true,
+      estado: true,
+      nombreContacto: true,
+      email: true,
+      telefono: true,
+      ecommerce_cotizacion_item: true,
+    },
+  },
+  ecommerce_pedido: {
+    select: { id: true, codigo: true, estado: true, total: true, createdAt: true },
+    orderBy: { createdAt: "desc" },
+  },
+} satisfies Prisma.CrmCotizacionInclude;
+
+async function detalle(id: string) {
+  const crm = await prisma.crmCotizacion.findUniqueOrThrow({ where: { id }, include: crmDetalleInclude });
+  return { ...crm, transicionesPermitidas: TRANSICIONES_CRM[crm.estado] };
+}
+
+/* =========================
+   GET /crm/cotizaciones
+   - filtros: estado, vendedorId, origenCliente, tipoCierre, from/to (createdAt), q
+========================= */
 export async function listCrmCotizaciones(req: Request, res: Response) {
   const parsed = listQuerySchema.safeParse(req.query);
   if (!parsed.success) {
     return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
   }
 
-  const { estado, q, from, to, page, pageSize } = parsed.data;
+  const { estado, vendedorId, origenCliente, tipoCierre, q, from, to, page, pageSize } = parsed.data;
   const range = buildRange(from, to);
   if ("error" in range) {
     return res.status(400).json({ message: "Validation error", issues: [range.error] });
@@ -57,29 +144,36 @@ export async function listCrmCotizaciones(req: Request, res: Response) {
   const trimmedQ = q?.trim();
   const skip = (page - 1) * pageSize;
 
-  const where = {
-    estado: estado ?? undefined,
+  const where: Prisma.CrmCotizacionWhereInput = {
+    estado,
+    vendedorId,
+    origenCliente,
+    tipoCierre,
     createdAt: range.range,
     OR: trimmedQ
       ? [
-          { codigo: { contains: trimmedQ, mode: "insensitive" as const } },
-          { rut: { contains: trimmedQ, mode: "insensitive" as const } },
-          { email: { contains: trimmedQ, mode: "insensitive" as const } },
-          { nombreContacto: { contains: trimmedQ, mode: "insensitive" as const } },
-          { telefono: { contains: trimmedQ, mode: "insensitive" as const } },
-          { ocCliente: { contains: trimmedQ, mode: "insensitive" as const } },
+          { clienteNombreSnapshot: { contains: trimmedQ, mode: "insensitive" as const } },
+          { clienteRutSnapshot: { contains: trimmedQ, mode: "insensitive" as const } },
+          { clienteEmailSnapshot: { contains: trimmedQ, mode: "insensitive" as const } },
+          { nombreObra: { contains: trimmedQ, mode: "insensitive" as const } },
+          { numeroOC: { contains: trimmedQ, mode: "insensitive" as const } },
+          { ecommerce_cotizacion: { codigo: { contains: trimmedQ, mode: "insensitive" as const } } },
         ]
       : undefined,
   };
 
   try {
     const [total, data] = await Promise.all([
-      prisma.ecommerce_cotizacion.count({ where }),
-      prisma.ecommerce_cotizacion.findMany({
+      prisma.crmCotizacion.count({ where }),
+      prisma.crmCotizacion.findMany({
         where,
         orderBy: { createdAt: "desc" },
         take: pageSize,
         skip,
+        include: {
+          vendedor: { select: { id: true, nombre: true } },
+          ecommerce_cotizacion: { select: { id: true, codigo: true } },
+        },
       }),
     ]);
 
@@ -92,33 +186,91 @@ export async function listCrmCotizaciones(req: Request, res: Response) {
         totalPages: Math.max(1, Math.ceil(total / pageSize)),
       },
     });
-  } catch (err: any) {
-    return res.status(500).json({
-      message: err?.message || "Error listando cotizaciones",
-    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando cotizaciones CRM");
   }
 }
 
+/* =========================
+   GET /crm/cotizaciones/:id
+========================= */
 export async function getCrmCotizacionById(req: Request, res: Response) {
-  const { id } = req.params;
+  try {
+    const exists = await prisma.crmCotizacion.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!exists) return res.status(404).json({ message: "Cotización CRM no encontrada" });
 
-  if (!id) {
-    return res.status(400).json({ message: "id es obligatorio" });
+    return res.json({ data: await detalle(exists.id) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo cotización CRM");
   }
+}
 
+/* =========================
+   PATCH /crm/cotizaciones/:id
+   - seguimiento: obra, OC, dirección, observaciones, vendedor, origen
+   - estado solo NUEVA → EN_SEGUIMIENTO (para cerrar: POST /:id/cerrar)
+========================= */
+export async function updateCrmCotizacion(req: Request, res: Response) {
   try {
-    const cotizacion = await prisma.ecommerce_cotizacion.findUnique({
-      where: { id },
-    });
+    const body = patchSchema.parse(req.body ?? {});
+    await prisma.$transaction((tx) => actualizarCrmCotizacionTx(tx, req.params.id, body));
+    return res.json({ data: await detalle(req.params.id) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error actualizando cotización CRM");
+  }
+}
 
-    if (!cotizacion) {
-      return res.status(404).json({ message: "Cotizacion no encontrada" });
-    }
+/* =========================
+   POST /crm/cotizaciones/:id/cerrar
+   - { resultado: GANADA | PERDIDA, tipoCierre, motivoPerdida (si PERDIDA) }
+========================= */
+export async function cerrarCrmCotizacion(req: Request, res: Response) {
+  try {
+    const body = cerrarSchema.parse(req.body ?? {});
+    await prisma.$transaction((tx) => cerrarCrmCotizacionTx(tx, req.params.id, body));
+    return res.json({ data: await detalle(req.params.id) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cerrando cotización CRM");
+  }
+}
 
-    return res.json({ data: cotizacion });
-  } catch (err: any) {
-    return res.status(500).json({
-      message: err?.message || "Error obteniendo cotizacion",
+/* =========================
+   GET /crm/cotizaciones/:id/pendientes
+   - por producto: cotizado, ya pedido (sin CANCELADO) y pendiente
+========================= */
+export async function getPendientesCrmCotizacion(req: Request, res: Response) {
+  try {
+    const { items, completa } = await prisma.$transaction((tx) => pendientesCrmCotizacionTx(tx, req.params.id));
+    return res.json({ data: { items, completa } });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo pendientes de cotización CRM");
+  }
+}
+
+/* =========================
+   POST /crm/cotizaciones/:id/generar-pedido
+   - solo GANADA; sin items → todo lo pendiente; con items → entrega parcial
+   - despacho opcional (si no, se usan los datos/dirección snapshot del cliente)
+========================= */
+export async function generarPedidoCrmCotizacion(req: Request, res: Response) {
+  try {
+    const body = generarPedidoSchema.parse(req.body ?? {});
+
+    const result = await prisma.$transaction(async (tx) => {
+      const pedido = await generarPedidoDesdeCrmTx(tx, req.params.id, body);
+      const { items, completa } = await pendientesCrmCotizacionTx(tx, req.params.id);
+      return {
+        pedido: await tx.ecommerce_pedido.findUniqueOrThrow({
+          where: { id: pedido.id },
+          include: { ecommerce_pedido_item: true, ecommerce_direccion: true },
+        }),
+        pendientes: items,
+        completa,
+      };
     });
+
+    return res.status(201).json({ data: result });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error generando pedido desde cotización CRM");
   }
 }
@@ -0,0 +1,263 @@
+// src/controllers/crmSeguimiento.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { CrmActividadTipo, CrmTareaEstado, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { handleError } from "../utils/http";
+import type { AuthStaff } from "../middlewares/auth";
+import {
+  actualizarTareaTx,
+  cancelarTareaTx,
+  completarTareaTx,
+  crearTareaTx,
+  misSeguimientos,
+  registrarActividadTx,
+  tareaInclude,
+} from "../services/crmSeguimiento.service";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/crm/actividades -H "Authorization: Bearer <token>" -H "Content-Type: application/json" \
+//   -d '{"tipo":"LLAMADA","crmCotizacionId":"<uuid>","resumen":"Pide rebaja por volumen"}'
+// curl -X POST http://localhost:3000/api/crm/tareas -H "Authorization: Bearer <token>" -H "Content-Type: application/json" \
+//   -d '{"titulo":"Llamar para cierre","crmCotizacionId":"<uuid>","venceAt":"2026-03-10T15:00:00Z"}'
+// curl http://localhost:3000/api/crm/tareas/mias -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/crm/tareas/<id>/completar -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"resultado":"Confirmó OC para el lunes"}'
+
+/* =========================
+   Schemas
+========================= */
+
+const nullableText = z.string().trim().optional().nullable();
+
+const vinculoSchema = {
+  crmCotizacionId: z.string().uuid("crmCotizacionId inválido").optional().nullable(),
+  clienteId: z.string().uuid("clienteId inválido").optional().nullable(),
+};
+
+const actividadSchema = z.object({
+  ...vinculoSchema,
+  tipo: z.enum(CrmActividadTipo),
+  resumen: z.string().trim().min(1, "resumen es obligatorio"),
+  detalle: nullableText,
+  fecha: z.coerce.date().optional(),
+});
+
+const actividadesQuerySchema = z.object({
+  crmCotizacionId: z.string().uuid().optional(),
+  clienteId: z.string().uuid().optional(),
+  tipo: z.enum(CrmActividadTipo).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const tareaSchema = z.object({
+  ...vinculoSchema,
+  titulo: z.string().trim().min(1, "titulo es obligatorio"),
+  detalle: nullableText,
+  venceAt: z.coerce.date(),
+  // por defecto: quien la crea
+  vendedorId: z.string().uuid("vendedorId inválido").optional(),
+});
+
+const tareaUpdateSchema = z.object({
+  titulo: z.string().trim().min(1).optional(),
+  detalle: nullableText,
+  venceAt: z.coerce.date().optional(),
+  vendedorId: z.string().uuid("vendedorId inválido").optional(),
+});
+
+const tareasQuerySchema = z.object({
+  vendedorId: z.string().uuid().optional(),
+  estado: z.enum(CrmTareaEstado).optional(),
+  crmCotizacionId: z.string().uuid().optional(),
+  clienteId: z.string().uuid().optional(),
+  vencidas: z.enum(["true", "false"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const completarSchema = z.object({ resultado: nullableText });
+
+/* =========================
+   Helpers
+========================= */
+
+function usuarioId(req: Request) {
+  return req.auth?.typ === "staff" ? (req.auth as AuthStaff).usuarioId : null;
+}
+
+function paginado<T>(page: number, pageSize: number, total: number, data: T[]) {
+  return { page, pageSize, total, totalPages: Math.max(1, Math.ceil(total / pageSize)), data };
+}
+
+/* =========================
+   GET /crm/actividades?crmCotizacionId=&clienteId=&tipo=
+========================= */
+export async function listActividades(req: Request, res: Response) {
+  try {
+    const { crmCotizacionId, clienteId, tipo, page, pageSize } = actividadesQuerySchema.parse(req.query);
+    const where: Prisma.CrmActividadWhereInput = { crmCotizacionId, clienteId, tipo };
+
+    const [total, rows] = await Promise.all([
+      prisma.crmActividad.count({ where }),
+      prisma.crmActividad.findMany({
+        where,
+        orderBy: { fecha: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          usuario: { select: { id: true, nombre: true } },
+          crmCotizacion: { select: { id: true, clienteNombreSnapshot: true, estado: true } },
+          cliente: { select: { id: true, nombre: true } },
+        },
+      }),
+    ]);
+
+    return res.json(paginado(page, pageSize, total, rows));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando actividades");
+  }
+}
+
+/* =========================
+   POST /crm/actividades
+========================= */
+export async function createActividad(req: Request, res: Response) {
+  try {
+    const body = actividadSchema.parse(req.body ?? {});
+    const actividad = await prisma.$transaction((tx) =>
+      registrarActividadTx(tx, { ...body, usuarioId: usuarioId(req) }),
+    );
+    return res.status(201).json(actividad);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error registrando actividad");
+  }
+}
+
+/* =========================
+   DELETE /crm/actividades/:id
+========================= */
+export async function deleteActividad(req: Request, res: Response) {
+  try {
+    await prisma.crmActividad.delete({ where: { id: req.params.id } });
+    return res.status(204).send();
+  } catch (e: unknown) {
+    return handleError(res, e, "Error eliminando actividad");
+  }
+}
+
+/* =========================
+   GET /crm/tareas?vendedorId=&estado=&crmCotizacionId=&clienteId=&vencidas=true
+========================= */
+export async function listTareas(req: Request, res: Response) {
+  try {
+    const q = tareasQuerySchema.parse(req.query);
+    const vencidas = q.vencidas === "true";
+
+    const where: Prisma.CrmTareaWhereInput = {
+      vendedorId: q.vendedorId,
+      crmCotizacionId: q.crmCotizacionId,
+      clienteId: q.clienteId,
+      estado: vencidas ? "PENDIENTE" : q.estado,
+      venceAt: vencidas ? { lt: new Date() } : undefined,
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.crmTarea.count({ where }),
+      prisma.crmTarea.findMany({
+        where,
+        orderBy: { venceAt: "asc" },
+        skip: (q.page - 1) * q.pageSize,
+        take: q.pageSize,
+        include: tareaInclude,
+      }),
+    ]);
+
+    return res.json(paginado(q.page, q.pageSize, total, rows));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando tareas");
+  }
+}
+
+/* =========================
+   GET /crm/tareas/mias
+   - pendientes del usuario logueado + sus cotizaciones abiertas sin tarea
+========================= */
+export async function getMisSeguimientos(req: Request, res: Response) {
+  try {
+    const id = usuarioId(req);
+    if (!id) return res.status(403).json({ message: "Solo usuarios internos" });
+    return res.json(await misSeguimientos(id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo seguimientos");
+  }
+}
+
+/* =========================
+   GET /crm/tareas/:id
+========================= */
+export async function getTareaById(req: Request, res: Response) {
+  try {
+    const tarea = await prisma.crmTarea.findUnique({ where: { id: req.params.id }, include: tareaInclude });
+    if (!tarea) return res.status(404).json({ message: "Tarea no encontrada" });
+    return res.json(tarea);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo tarea");
+  }
+}
+
+/* =========================
+   POST /crm/tareas
+========================= */
+export async function createTarea(req: Request, res: Response) {
+  try {
+    const body = tareaSchema.parse(req.body ?? {});
+    const vendedorId = body.vendedorId ?? usuarioId(req);
+    if (!vendedorId) return res.status(400).json({ message: "vendedorId es obligatorio" });
+
+    const tarea = await prisma.$transaction((tx) =>
+      crearTareaTx(tx, { ...body, vendedorId, creadoPorId: usuarioId(req) }),
+    );
+    return res.status(201).json(await prisma.crmTarea.findUnique({ where: { id: tarea.id }, include: tareaInclude }));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error creando tarea");
+  }
+}
+
+/* =========================
+   PATCH /crm/tareas/:id (solo PENDIENTE)
+========================= */
+export async function updateTarea(req: Request, res: Response) {
+  try {
+    const body = tareaUpdateSchema.parse(req.body ?? {});
+    await prisma.$transaction((tx) => actualizarTareaTx(tx, req.params.id, body));
+    return res.json(await prisma.crmTarea.findUnique({ where: { id: req.params.id }, include: tareaInclude }));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error actualizando tarea");
+  }
+}
+
+/* =========================
+   POST /crm/tareas/:id/completar | /cancelar
+========================= */
+export async function completarTarea(req: Request, res: Response) {
+  try {
+    const body = completarSchema.parse(req.body ?? {});
+    await prisma.$transaction((tx) =>
+      completarTareaTx(tx, req.params.id, { resultado: body.resultado, usuarioId: usuarioId(req) }),
+    );
+    return res.json(await prisma.crmTarea.findUnique({ where: { id: req.params.id }, include: tareaInclude }));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error completando tarea");
+  }
+}
+
+export async function cancelarTarea(req: Request, res: Response) {
+  try {
+    await prisma.$transaction((tx) => cancelarTareaTx(tx, req.params.id));
+    return res.json(await prisma.crmTarea.findUnique({ where: { id: req.params.id }, include: tareaInclude }));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cancelando tarea");
+  }
+}
@@ -0,0 +1,55 @@
+// src/controllers/events.controller.ts
+import type { Request, Response } from "express";
+import { eventosDesde, puedeVerEvento, suscribirEventos, type Evento } from "../lib/eventBus";
+
+// Manual test (curl):
+// curl -N http://localhost:3000/api/events -H "Authorization: Bearer <token>"
+// curl -N "http://localhost:3000/api/events?token=<token>" -H "Last-Event-ID: <id>"
+// Front: new EventSource(`/api/events?token=${accessToken}`)  (reanuda solo con Last-Event-ID)
+
+function heartbeatMs() {
+  const n = Number(process.env.SSE_HEARTBEAT_SEC);
+  return (Number.isFinite(n) && n > 0 ? n : 25) * 1000;
+}
+
+function escribir(res: Response, evento: Evento) {
+  res.write(`id: ${evento.id}\nevent: ${evento.tipo}\ndata: ${JSON.stringify({ ...evento.data, at: evento.createdAt })}\n\n`);
+}
+
+/* =========================
+   GET /events
+   - text/event-stream; cada conexión recibe solo lo que su rol / cliente puede ver
+   - Last-Event-ID (header o ?lastEventId=): reenvía lo que se perdió mientras estuvo desconectado;
+     si ya no está en el buffer manda "resync" para que el front recargue
+========================= */
+export function streamEvents(req: Request, res: Response) {
+  const lector = req.auth!;
+  const lastEventId = req.get("Last-Event-ID") ?? (typeof req.query.lastEventId === "string" ? req.query.lastEventId : "");
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // nginx: no bufferear el stream
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const enviar = (evento: Evento) => {
+    if (puedeVerEvento(lector, evento)) escribir(res, evento);
+  };
+
+  if (lastEventId) {
+    const perdidos = eventosDesde(lastEventId);
+    if (perdidos === null) res.write(`event: resync\ndata: {}\n\n`);
+    else perdidos.forEach(enviar);
+  }
+
+  const desuscribir = suscribirEventos(enviar);
+  const ping = setInterval(() => res.write(`: ping\n\n`), heartbeatMs());
+
+  req.on("close", () => {
+    clearInterval(ping);
+    desuscribir();
+  });
+}
@@ -1,20 +1,18 @@
 import type { Request, Response } from "express";
 import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
 import { z } from "zod";
-import XLSX from "xlsx";
-import { Prisma, ProductoTipo } from "@prisma/client";
-import { randomUUID } from "crypto";
+import { Prisma, ProductoTipo, TipoMovimientoStock } from "@prisma/client";
+import { registrarMovimientoTx } from "../services/stockMovimientos.service";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+import { evaluateStockCriticalTx, isFleteTipo } from "../services/stockCritical.service";
+import { leerPrimeraHoja, normalizeSku } from "../utils/excel";
 
 /* ================== Prisma enum helpers ================== */
 
 // Obtiene todos los valores reales del enum Prisma en runtime
 const PRODUCTO_TIPO_VALUES = Object.values(ProductoTipo) as ProductoTipo[];
 
-// Regla robusta: considera flete si el string del enum contiene "flet"
-function isFleteTipo(tipo: ProductoTipo | string | null | undefined) {
-  return String(tipo ?? "").toLowerCase().includes("flet");
-}
-
 // Mapea strings humanos ("Producto"/"Flete") al enum real de Prisma
 function mapTipoToPrismaEnum(raw: unknown): ProductoTipo | null {
   const s = String(raw ?? "").trim();
@@ -57,11 +55,27 @@ const inventarioSchema = z.object({
 
 const inventarioUpdateSchema = inventarioSchema.partial().omit({ productoId: true });
 
-const createMovimientoSchema = z.object({
-  inventarioId: z.string().uuid("inventarioId inválido"),
-  tipo: z.enum(["Entrada", "Salida", "Ajuste"]),
-  cantidad: z.coerce.number().int("cantidad debe ser entero").min(1, "cantidad debe ser ≥ 1"),
-  nota: optionalString,
+const createMovimientoSchema = z
+  .object({
+    inventarioId: z.string().uuid("inventarioId inválido"),
+    tipo: z.enum(["Entrada", "Salida", "Ajuste"]),
+    // Ajuste = stock final, por eso ahí sí se permite 0
+    cantidad: z.coerce.number().int("cantidad debe ser entero").min(0, "cantidad debe ser ≥ 0"),
+    nota: optionalString,
+  })
+  .refine((b) => b.tipo === "Ajuste" || b.cantidad >= 1, {
+    path: ["cantidad"],
+    message: "cantidad debe ser ≥ 1",
+  });
+
+const listMovimientosQuerySchema = z.object({
+  tipo: z.enum(["Entrada", "Salida", "Ajuste"]).optional(),
+  productoId: z.string().uuid("productoId inválido").optional(),
+  inventarioId: z.string().uuid("inventarioId inválido").optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
 });
 
 /* ================== Error helpers ================== */
@@ -110,6 +124,13 @@ function emptyToNull(v: string | null | undefined) {
   return s === "" ? null : s;
 }
 
+function parseDate(value?: string) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date;
+}
+
 type InventarioCreateParsed = z.infer<typeof inventarioSchema>;
 type InventarioUpdateParsed = z.infer<typeof inventarioUpdateSchema>;
 type MovimientoCreateParsed = z.infer<typeof createMovimientoSchema>;
@@ -163,154 +184,6 @@ async function assertProductoNoEsFlete(productoId: string) {
   }
 }
 
-/* ================== STOCK CRÍTICO (CORE) ================== */
-
-const DEFAULT_COOLDOWN_MINUTES = 360;
-
-async function evaluateStockCriticalTx(tx: Prisma.TransactionClient, inventarioId: string) {
-  const inv = await tx.inventario.findUnique({
-    where: { id: inventarioId },
-    include: {
-      producto: {
-        select: {
-          id: true,
-          nombre: true,
-          sku: true,
-          tipo: true,
-        },
-      },
-    },
-  });
-
-  if (!inv) return { action: "noop", reason: "inventario_not_found" };
-
-  // si por alguna razón es flete, no hacemos nada
-  if (isFleteTipo(inv.producto?.tipo)) return { action: "noop", reason: "producto_es_flete" };
-
-  const rule = await tx.stockCriticalRule.findUnique({
-    where: { inventarioId },
-  });
-
-  // Si hay regla y está deshabilitada -> no notificar
-  if (rule && rule.enabled === false) return { action: "noop", reason: "rule_disabled" };
-
-  const threshold = rule?.thresholdOverride ?? inv.minimo ?? 0;
-  const cooldownMinutes = rule?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
-
-  const isCritical = inv.stock <= threshold;
-
-  const activeAlert = await tx.stockAlert.findFirst({
-    where: { inventarioId, isActive: true },
-    orderBy: { openedAt: "desc" },
-  });
-
-  const now = new Date();
-
-  // Si está crítico:
-  if (isCritical) {
-    // Crear nueva alerta activa si no existe
-    if (!activeAlert) {
-      const alert = await tx.stockAlert.create({
-        data: {
-          inventarioId,
-          threshold,
-          stockAtAlert: inv.stock,
-          status: "OPEN",
-          isActive: true,
-          lastSentAt: now,
-          channel: "system",
-          meta: {
-            productoId: inv.productoId, // ✅ existe en inv
-            productoNombre: inv.producto.nombre,
-            sku: inv.producto.sku,
-          },
-        },
-      });
-
-      if (rule) {
-        await tx.stockCriticalRule.update({
-          where: { inventarioId },
-          data: { lastNotifiedAt: now },
-        });
-      }
-
-      // Notificación para panel ecommerce
-      await tx.ecommerceNotificacion.create({
-        data: {
-          id: randomUUID(),
-          tipo: "STOCK_CRITICO",
-          referenciaTabla: "Inventario",
-          referenciaId: inventarioId,
-          titulo: `Stock crítico: ${inv.producto.nombre}`,
-          detalle: `Stock ${inv.stock} (mínimo ${threshold}).`,
-          leido: false,
-        },
-      });
-
-      return { action: "created", alertId: alert.id };
-    }
-
-    // Ya hay alerta activa: re-notificar solo si pasó cooldown
-    const last = rule?.lastNotifiedAt ?? activeAlert.lastSentAt ?? activeAlert.openedAt;
-
-    const cooldownMs = cooldownMinutes * 60 * 1000;
-    const canResend = !last || last.getTime() < now.getTime() - cooldownMs;
-
-    if (!canResend) return { action: "noop", reason: "cooldown" };
-
-    await tx.stockAlert.update({
-      where: { id: activeAlert.id },
-      data: {
-        lastSentAt: now,
-        stockAtAlert: inv.stock,
-        threshold,
-        // mantenemos isActive=true
-      },
-    });
-
-    if (rule) {
-      await tx.stockCriticalRule.update({
-        where: { inventarioId },
-        data: { lastNotifiedAt: now },
-      });
-    }
-
-    await tx.ecommerceNotificacion.create({
-      data: {
-        id: randomUUID(),
-        tipo: "STOCK_CRITICO",
-        referenciaTabla: "Inventario",
-        referenciaId: inventarioId,
-        titulo: `Stock crítico (recordatorio): ${inv.producto.nombre}`,
-        detalle: `Stock ${inv.stock} (mínimo ${threshold}).`,
-        leido: false,
-      },
-    });
-
-    return { action: "resent", alertId: activeAlert.id };
-  }
-
-  // Si NO está crítico, y hay alerta activa -> resolver
-  if (!isCritical && activeAlert) {
-    await tx.stockAlert.update({
-      where: { id: activeAlert.id },
-      data: {
-        status: "RESOLVED",
-        isActive: false,
-        resolvedAt: now,
-      },
-    });
-
-    return { action: "resolved", alertId: activeAlert.id };
-  }
-
-  return { action: "noop" };
-}
-
-async function evaluateStockCritical(inventarioId: string) {
-  return prisma.$transaction((tx) => evaluateStockCriticalTx(tx, inventarioId));
-}
-
 /* ================== CRUD ================== */
 
 // CREATE inventario
@@ -321,11 +194,26 @@ export async function createInventario(req: Request, res: Response) {
 
     const data = normalizeInventarioCreate(parsed);
 
-    const nuevo = await prisma.inventario.create({ data });
-
-    // ✅ evaluar stock crítico por si entra con stock/minimo iniciales
-    const stockCritical = await evaluateStockCritical(nuevo.id);
+    const { nuevo, stockCritical } = await transaccionConEventos(async (tx) => {
+      // el stock inicial entra como movimiento para que el ledger cuadre desde el día 1
+      const creado = await tx.inventario.create({ data: { ...data, stock: 0 } });
+      const inicial =
+        data.stock > 0
+          ? await registrarMovimientoTx(tx, {
+              inventarioId: creado.id,
+              tipo: "Entrada",
+              cantidad: data.stock,
+              nota: "Stock inicial",
+            })
+          : null;
+
+      // ✅ evaluar stock crítico por si entra con stock/minimo iniciales
+      const stockCritical = await evaluateStockCriticalTx(tx, creado.id);
+
+      return { nuevo: inicial?.inventario ?? creado, stockCritical };
+    });
 
+    despacharEnSegundoPlano();
     return res.status(201).json({ ...nuevo, stockCritical });
   } catch (e: unknown) {
     if (isZodError(e)) {
@@ -432,21 +320,40 @@ export async function updateInventario(req: Request, res: Response) {
 
     const current = await prisma.inventario.findUnique({
       where: { id },
-      select: { productoId: true },
+      select: { productoId: true, stock: true },
     });
     if (!current) return res.status(404).json({ error: "Inventario no encontrado" });
 
     await assertProductoNoEsFlete(current.productoId);
 
-    const actualizado = await prisma.inventario.update({
-      where: { id },
-      data,
-    });
+    const { stock, ...rest } = data;
+    const stockChanged = stock !== undefined && stock !== current.stock;
+
+    const { actualizado, stockCritical } = await transaccionConEventos(async (tx) => {
+      let inv = await tx.inventario.update({
+        where: { id },
+        data: rest,
+      });
+
+      // ✅ editar stock directo = Ajuste en el ledger (no se pisa Inventario.stock sin rastro)
+      if (stockChanged) {
+        const ajuste = await registrarMovimientoTx(tx, {
+          inventarioId: id,
+          tipo: "Ajuste",
+          cantidad: stock,
+          nota: "Ajuste por edición de inventario",
+        });
+        inv = ajuste.inventario;
+      }
 
-    // ✅ si tocaron stock o minimo, re-evaluar
-    const touchedStockOrMin = data.stock !== undefined || data.minimo !== undefined;
-    const stockCritical = touchedStockOrMin ? await evaluateStockCritical(id) : { action: "noop" };
+      // ✅ si tocaron stock o minimo, re-evaluar
+      const touchedStockOrMin = stockChanged || data.minimo !== undefined;
+      const stockCritical = touchedStockOrMin ? await evaluateStockCriticalTx(tx, id) : { action: "noop" };
+
+      return { actualizado: inv, stockCritical };
+    });
 
+    despacharEnSegundoPlano();
     return res.status(200).json({ ...actualizado, stockCritical });
   } catch (e: unknown) {
     if (isZodError(e)) {
@@ -483,61 +390,26 @@ export async function deleteInventario(req: Request, res: Response) {
 
 /* ================== STOCK MOVIMIENTOS ================== */
 
+/**
+ * POST /api/inventario/:id/movimientos
+ * - Entrada/Salida suman/restan; Ajuste fija el stock final
+ * - Deja saldo corrido en la fila y re-evalúa stock crítico en la misma tx
+ */
 export async function createMovimientoStock(req: Request, res: Response) {
   try {
-    const parsed = createMovimientoSchema.parse(req.body);
+    const parsed = createMovimientoSchema.parse({ ...req.body, inventarioId: req.params.id ?? req.body?.inventarioId });
     const data = normalizeMovimientoBody(parsed);
 
-    const result = await prisma.$transaction(async (tx) => {
-      const inv = await tx.inventario.findUnique({
-        where: { id: data.inventarioId },
-        include: { producto: { select: { tipo: true } } },
-      });
-
-      if (!inv) {
-        const err: ApiError = new Error("Inventario no encontrado");
-        err.code = "INV_NOT_FOUND";
-        throw err;
-      }
-
-      if (isFleteTipo(inv.producto?.tipo)) {
-        const err: ApiError = new Error("No se puede manejar stock para un flete");
-        err.code = "PRODUCTO_ES_FLETE";
-        throw err;
-      }
-
-      let nuevoStock = inv.stock;
-
-      if (data.tipo === "Entrada") nuevoStock = inv.stock + data.cantidad;
-      if (data.tipo === "Salida") nuevoStock = inv.stock - data.cantidad;
-      if (data.tipo === "Ajuste") nuevoStock = data.cantidad;
-
-      if (nuevoStock < 0) {
-        const err: ApiError = new Error("Stock insuficiente");
-        err.code = "STOCK_NEGATIVO";
-        throw err;
-      }
-
-      const mov = await tx.stockMovimiento.create({
-        data: {
-          inventarioId: data.inventarioId,
-          tipo: data.tipo,
-          cantidad: data.cantidad,
-          nota: data.nota,
-        },
-      });
-
-      const invUpdated = await tx.inventario.update({
-        where: { id: data.inventarioId },
-        data: { stock: nuevoStock },
-      });
+    const result = await transaccionConEventos(async (tx) => {
+      const { mov, inventario } = await registrarMovimientoTx(tx, data);
 
       // ✅ evaluar stock crítico ATÓMICO dentro de la misma tx
       const stockCritical = await evaluateStockCriticalTx(tx, data.inventarioId);
 
-      return { mov, inventario: invUpdated, stockCritical };
+      return { mov, inventario, stockCritical };
     });
 
+    despacharEnSegundoPlano();
     return res.status(201).json(result);
   } catch (e: unknown) {
     if (isZodError(e)) {
@@ -554,23 +426,118 @@ export async function createMovimientoStock(req: Request, res: Response) {
   }
 }
 
-/* ================== IMPORT EXCEL ================== */
+type MovimientoListRow = Prisma.StockMovimientoGetPayload<{
+  include: {
+    inventario: {
+      select: { id: true; codigo: true; ubicacion: true; producto: { select: { id: true; nombre: true; sku: true } } };
+    };
+  };
+}>;
+
+function toLedgerRow(m: MovimientoListRow) {
+  const delta =
+    m.stockAnterior != null && m.stockResultante != null
+      ? m.stockResultante - m.stockAnterior
+      : m.tipo === "Entrada"
+        ? m.cantidad
+        : m.tipo === "Salida"
+          ? -m.cantidad
+          : null;
+
+  return { ...m, delta, saldo: m.stockResultante };
+}
+
+async function queryMovimientos(query: unknown, forcedInventarioId?: string) {
+  const parsed = listMovimientosQuerySchema.safeParse(query);
+  if (!parsed.success) return { status: 400, body: { error: "Validación", issues: parsed.error.issues } };
+
+  const { tipo, productoId, from, to, page, pageSize } = parsed.data;
+  const inventarioId = forcedInventarioId ?? parsed.data.inventarioId;
+
+  const fromDate = parseDate(from);
+  if (fromDate === null) return { status: 400, body: { error: "Validación", issues: [{ path: ["from"], message: "from inválido" }] } };
+  const toDate = parseDate(to);
+  if (toDate === null) return { status: 400, body: { error: "Validación", issues: [{ path: ["to"], message: "to inválido" }] } };
+
+  const where: Prisma.StockMovimientoWhereInput = {
+    tipo: tipo ? (tipo as TipoMovimientoStock) : undefined,
+    inventarioId,
+    inventario: productoId ? { productoId } : undefined,
+    createdAt: fromDate || toDate ? { ...(fromDate ? { gte: fromDate } : {}), ...(toDate ? { lte: toDate } : {}) } : undefined,
+  };
 
-function normalizeHeaderKey(k: string) {
-  return k.trim().replace(/\s+/g, "").toLowerCase();
+  const skip = (page - 1) * pageSize;
+
+  const [total, rows] = await Promise.all([
+    prisma.stockMovimiento.count({ where }),
+    prisma.stockMovimiento.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: pageSize,
+      skip,
+      include: {
+        inventario: {
+          select: {
+            id: true,
+            codigo: true,
+            ubicacion: true,
+            producto: { select: { id: true, nombre: true, sku: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    status: 200,
+    body: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      data: rows.map(toLedgerRow),
+    },
+  };
 }
 
-function normalizeSku(raw: unknown) {
-  const s = String(raw ?? "").trim();
-  if (!s) return null;
+/**
+ * GET /api/inventario/:id/movimientos?tipo=&from=&to=&page=&pageSize=
+ * - Ledger de 1 inventario, más reciente primero, con saldo por fila
+ */
+export async function listMovimientosInventario(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id || typeof id !== "string") return res.status(400).json({ error: "ID inválido" });
 
-  if (/^SKU-\d+$/i.test(s)) return s.toUpperCase();
-  if (/^\d+$/.test(s)) return `SKU-${s}`;
-  const m = s.match(/^SKU\D*(\d+)$/i);
-  if (m?.[1]) return `SKU-${m[1]}`.toUpperCase();
-  return s.toUpperCase();
+    const inv = await prisma.inventario.findUnique({ where: { id }, select: { id: true, stock: true } });
+    if (!inv) return res.status(404).json({ error: "Inventario no encontrado" });
+
+    const result = await queryMovimientos(req.query, id);
+    if (result.status !== 200) return res.status(result.status).json(result.body);
+
+    return res.status(200).json({ ...result.body, stockActual: inv.stock });
+  } catch (e: unknown) {
+    console.error("Error al listar movimientos de inventario:", e);
+    return res.status(500).json({ error: errorMessage(e, "Error al listar movimientos") });
+  }
 }
 
+/**
+ * GET /api/movimientos?tipo=&productoId=&inventarioId=&from=&to=&page=&pageSize=
+ * - Ledger global
+ */
+export async function listMovimientos(req: Request, res: Response) {
+  try {
+    const result = await queryMovimientos(req.query);
+    return res.status(result.status).json(result.body);
+  } catch (e: unknown) {
+    console.error("Error al listar movimientos:", e);
+    return res.status(500).json({ error: errorMessage(e, "Error al listar movimientos") });
+  }
+}
+
+/* ================== IMPORT EXCEL ================== */
+
 function normalizeInvCode(raw: unknown) {
   const s = String(raw ?? "").trim();
   if (!s) return null;
@@ -640,21 +607,10 @@ export async function importInventarioExcel(req: Request, res: Response) {
   }
 
   try {
-    const wb = XLSX.read(req.file.buffer, { type: "buffer" });
-    const sheetName = wb.SheetNames[0];
-    if (!sheetName) return res.status(400).json({ error: "El Excel no tiene hojas." });
+    const hoja = leerPrimeraHoja(req.file.buffer);
+    if ("error" in hoja) return res.status(400).json({ error: hoja.error });
 
-    const ws = wb.Sheets[sheetName];
-    if (!ws) return res.status(400).json({ error: "No se pudo leer la hoja del Excel." });
-
-    const rawRows = XLSX.utils.sheet_to_json<Record<string, any>>(ws, { defval: "" });
-    if (!rawRows.length) return res.status(400).json({ error: "El Excel está vacío (sin filas)." });
-
-    const normalizedRows = rawRows.map((r) => {
-      const out: Record<string, any> = {};
-      for (const [k, v] of Object.entries(r)) out[normalizeHeaderKey(k)] = v;
-      return out;
-    });
+    const normalizedRows = hoja.rows;
 
     const errores: Array<{ row: number; error: string }> = [];
 
@@ -675,7 +631,7 @@ export async function importInventarioExcel(req: Request, res: Response) {
       const row = parsed;
 
       try {
-        const flags = await prisma.$transaction(async (tx) => {
+        const flags = await transaccionConEventos(async (tx) => {
           const existing = await tx.producto.findFirst({
             where: { sku: row.sku },
             select: { id: true },
@@ -713,20 +669,36 @@ export async function importInventarioExcel(req: Request, res: Response) {
           if (!isFleteTipo(row.tipo)) {
             const invExisting = await tx.inventario.findFirst({
               where: { productoId: producto.id },
-              select: { id: true },
+              select: { id: true, stock: true },
             });
 
             if (invExisting) {
               const updated = await tx.inventario.update({
                 where: { id: invExisting.id },
-                data: { codigo: row.codigo, stock: row.stock, minimo: row.minimo },
+                data: { codigo: row.codigo, minimo: row.minimo },
               });
+              if (row.stock !== invExisting.stock) {
+                await registrarMovimientoTx(tx, {
+                  inventarioId: updated.id,
+                  tipo: "Ajuste",
+                  cantidad: row.stock,
+                  nota: "Ajuste por importación Excel",
+                });
+              }
               invUpdated = true;
               invId = updated.id;
             } else {
               const created = await tx.inventario.create({
-                data: { productoId: producto.id, codigo: row.codigo, stock: row.stock, minimo: row.minimo },
+                data: { productoId: producto.id, codigo: row.codigo, stock: 0, minimo: row.minimo },
               });
+              if (row.stock > 0) {
+                await registrarMovimientoTx(tx, {
+                  inventarioId: created.id,
+                  tipo: "Entrada",
+                  cantidad: row.stock,
+                  nota: "Stock inicial (importación Excel)",
+                });
+              }
               invCreated = true;
               invId = created.id;
             }
@@ -759,6 +731,7 @@ export async function importInventarioExcel(req: Request, res: Response) {
       }
     }
 
+    despacharEnSegundoPlano();
     return res.status(200).json({
       ok: errores.length === 0,
       message: errores.length === 0 ? "Importación completa." : `Importación completada con ${errores.length} error(es).`,
@@ -0,0 +1,216 @@
+// src/controllers/notificaciones.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { handleError } from "../utils/http";
+
+// Manual test (curl):
+// curl "http://localhost:3000/api/notificaciones?leido=false&tipo=STOCK_CRITICO" -H "Authorization: Bearer <token>"
+// curl http://localhost:3000/api/notificaciones/count -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/notificaciones/<id>/read -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/notificaciones/read-all -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"tipo":"CARRITO_ABANDONADO"}'
+
+/* =========================
+   Schemas
+========================= */
+
+const listQuerySchema = z.object({
+  tipo: z.string().trim().optional(),
+  referenciaTabla: z.string().trim().optional(),
+  leido: z.enum(["true", "false"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const readAllSchema = z.object({
+  tipo: z.string().trim().optional(),
+  referenciaTabla: z.string().trim().optional(),
+});
+
+/* =========================
+   Deep links
+   - referenciaTabla/referenciaId → recurso de la API + resumen para pintar la notificación
+   - si el registro ya no existe: recurso null (la notificación se muestra igual)
+========================= */
+
+type Referencia = { ruta: string; recurso: Record<string, unknown> | null };
+type Notificacion = { referenciaTabla: string; referenciaId: string };
+
+const RUTAS: Record<string, (id: string) => string> = {
+  Inventario: (id) => `/api/inventario/${id}`,
+  ecommerce_cotizacion: (id) => `/api/cotizaciones/${id}`,
+  ecommerce_pedido: (id) => `/api/pedidos/${id}`,
+  ecommerce_carrito: (id) => `/api/carritos/${id}`,
+  CrmTarea: (id) => `/api/crm/tareas/${id}`,
+};
+
+function idsDe(rows: Notificacion[], tabla: string) {
+  return [...new Set(rows.filter((r) => r.referenciaTabla === tabla).map((r) => r.referenciaId))];
+}
+
+/** Una query por tabla referenciada (no una por notificación). */
+async function resolverReferencias(rows: Notificacion[]) {
+  const inventarioIds = idsDe(rows, "Inventario");
+  const cotizacionIds = idsDe(rows, "ecommerce_cotizacion");
+  const pedidoIds = idsDe(rows, "ecommerce_pedido");
+  const carritoIds = idsDe(rows, "ecommerce_carrito");
+  const tareaIds = idsDe(rows, "CrmTarea");
+
+  const [inventarios, cotizaciones, pedidos, carritos, tareas] = await Promise.all([
+    inventarioIds.length
+      ? prisma.inventario.findMany({
+          where: { id: { in: inventarioIds } },
+          select: { id: true, stock: true, minimo: true, producto: { select: { id: true, sku: true, nombre: true } } },
+        })
+      : [],
+    cotizacionIds.length
+      ? prisma.ecommerce_cotizacion.findMany({
+          where: { id: { in: cotizacionIds } },
+          select: { id: true, codigo: true, estado: true, nombreContacto: true, total: true },
+        })
+      : [],
+    pedidoIds.length
+      ? prisma.ecommerce_pedido.findMany({
+          where: { id: { in: pedidoIds } },
+          select: { id: true, codigo: true, estado: true, total: true },
+        })
+      : [],
+    carritoIds.length
+      ? prisma.ecommerce_carrito.findMany({
+          where: { id: { in: carritoIds } },
+          select: { id: true, estado: true, ecommerceClienteId: true, updatedAt: true },
+        })
+      : [],
+    tareaIds.length
+      ? prisma.crmTarea.findMany({
+          where: { id: { in: tareaIds } },
+          select: { id: true, titulo: true, estado: true, venceAt: true, vendedorId: true, crmCotizacionId: true },
+        })
+      : [],
+  ]);
+
+  const porTabla: Record<string, Map<string, Record<string, unknown>>> = {
+    Inventario: new Map(inventarios.map((r) => [r.id, r])),
+    ecommerce_cotizacion: new Map(cotizaciones.map((r) => [r.id, r])),
+    ecommerce_pedido: new Map(pedidos.map((r) => [r.id, r])),
+    ecommerce_carrito: new Map(carritos.map((r) => [r.id, r])),
+    CrmTarea: new Map(tareas.map((r) => [r.id, r])),
+  };
+
+  return (n: Notificacion): Referencia | null => {
+    const ruta = RUTAS[n.referenciaTabla];
+    if (!ruta) return null;
+    return { ruta: ruta(n.referenciaId), recurso: porTabla[n.referenciaTabla].get(n.referenciaId) ?? null };
+  };
+}
+
+function whereFiltros(f: { tipo?: string; referenciaTabla?: string }): Prisma.ecommerce_notificacionWhereInput {
+  return {
+    tipo: f.tipo || undefined,
+    referenciaTabla: f.referenciaTabla || undefined,
+  };
+}
+
+/* =========================
+   GET /notificaciones?tipo=&referenciaTabla=&leido=&page=&pageSize=
+========================= */
+export async function listNotificaciones(req: Request, res: Response) {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
+    }
+    const { tipo, referenciaTabla, leido, page, pageSize } = parsed.data;
+
+    const where: Prisma.ecommerce_notificacionWhereInput = {
+      ...whereFiltros({ tipo, referenciaTabla }),
+      leido: leido === undefined ? undefined : leido === "true",
+    };
+
+    const [total, noLeidas, rows] = await Promise.all([
+      prisma.ecommerce_notificacion.count({ where }),
+      prisma.ecommerce_notificacion.count({ where: { ...whereFiltros({ tipo, referenciaTabla }), leido: false } }),
+      prisma.ecommerce_notificacion.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: pageSize,
+        skip: (page - 1) * pageSize,
+      }),
+    ]);
+
+    const referencia = await resolverReferencias(rows);
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      noLeidas,
+      data: rows.map((n) => ({ ...n, referencia: referencia(n) })),
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando notificaciones");
+  }
+}
+
+/* =========================
+   GET /notificaciones/count
+   - para el badge: total no leídas + desglose por tipo
+========================= */
+export async function countNotificaciones(_req: Request, res: Response) {
+  try {
+    const grupos = await prisma.ecommerce_notificacion.groupBy({
+      by: ["tipo"],
+      where: { leido: false },
+      _count: { _all: true },
+    });
+
+    const porTipo = Object.fromEntries(grupos.map((g) => [g.tipo, g._count._all]));
+    const noLeidas = grupos.reduce((acc, g) => acc + g._count._all, 0);
+
+    return res.json({ noLeidas, porTipo });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error contando notificaciones");
+  }
+}
+
+/* =========================
+   POST /notificaciones/:id/read
+   - idempotente
+========================= */
+export async function marcarNotificacionLeida(req: Request, res: Response) {
+  try {
+    const current = await prisma.ecommerce_notificacion.findUnique({ where: { id: req.params.id } });
+    if (!current) return res.status(404).json({ message: "Notificación no encontrada" });
+
+    const notificacion = current.leido
+      ? current
+      : await prisma.ecommerce_notificacion.update({ where: { id: current.id }, data: { leido: true } });
+
+    const referencia = await resolverReferencias([notificacion]);
+    return res.json({ ...notificacion, referencia: referencia(notificacion) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error marcando notificación");
+  }
+}
+
+/* =========================
+   POST /notificaciones/read-all
+   - body opcional { tipo, referenciaTabla } para marcar solo un grupo
+========================= */
+export async function marcarTodasLeidas(req: Request, res: Response) {
+  try {
+    const filtros = readAllSchema.parse(req.body ?? {});
+
+    const { count } = await prisma.ecommerce_notificacion.updateMany({
+      where: { ...whereFiltros(filtros), leido: false },
+      data: { leido: true },
+    });
+
+    return res.json({ actualizadas: count });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error marcando notificaciones");
+  }
+}
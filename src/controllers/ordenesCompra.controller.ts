@@ -0,0 +1,283 @@
+// src/controllers/ordenesCompra.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
+import { handleError } from "../utils/http";
+import type { AuthStaff } from "../middlewares/auth";
+import {
+  TRANSICIONES_OC,
+  actualizarOrdenCompraTx,
+  cancelarOrdenCompraTx,
+  cerrarOrdenCompraTx,
+  crearOrdenCompraTx,
+  emitirOrdenCompraTx,
+  generarOrdenesSugeridas,
+  recibirOrdenCompraTx,
+  sugerirReposicion,
+} from "../services/ordenesCompra.service";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+import { MONEDA_REGEX } from "../services/tiposCambio.service";
+
+// Manual test (curl):
+// curl "http://localhost:3000/api/ordenes-compra/sugerencias?coberturaDias=20&soloCriticos=true" -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/ordenes-compra -H "Authorization: Bearer <token>" -H "Content-Type: application/json" \
+//   -d '{"proveedorId":"<uuid>","lineas":[{"productoId":"<uuid>","cantidad":50}]}'
+// curl -X POST http://localhost:3000/api/ordenes-compra/<id>/emitir -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/ordenes-compra/<id>/recepciones -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"lineas":[{"lineaId":"<uuid>","cantidad":20}],"nota":"Guía 1234"}'
+
+/* =========================
+   Schemas
+========================= */
+
+const ESTADOS_OC = ["BORRADOR", "EMITIDA", "RECIBIDA_PARCIAL", "RECIBIDA", "CERRADA", "CANCELADA"] as const;
+
+const lineaSchema = z.object({
+  productoId: z.string().uuid("productoId inválido"),
+  cantidad: z.coerce.number().int().min(1, "cantidad debe ser ≥ 1"),
+  precioUnitario: z.coerce.number().min(0).optional(),
+  descripcion: z.string().trim().optional(),
+  inventarioId: z.string().uuid("inventarioId inválido").optional().nullable(),
+});
+
+const createSchema = z.object({
+  proveedorId: z.string().uuid("proveedorId inválido"),
+  moneda: z.string().trim().toUpperCase().regex(MONEDA_REGEX, "moneda inválida (ej: CLP, USD, EUR, UF)").optional(),
+  notas: z.string().trim().optional().nullable(),
+  lineas: z.array(lineaSchema).min(1, "Debes enviar al menos 1 línea"),
+});
+
+const updateSchema = z.object({
+  notas: z.string().trim().optional().nullable(),
+  lineas: z.array(lineaSchema).min(1, "Debes enviar al menos 1 línea").optional(),
+});
+
+const recepcionSchema = z.object({
+  nota: z.string().trim().optional().nullable(),
+  lineas: z
+    .array(
+      z.object({
+        lineaId: z.string().uuid("lineaId inválido"),
+        cantidad: z.coerce.number().int().min(1, "cantidad debe ser ≥ 1"),
+        inventarioId: z.string().uuid("inventarioId inválido").optional().nullable(),
+      }),
+    )
+    .min(1, "Debes recibir al menos 1 línea"),
+});
+
+const listQuerySchema = z.object({
+  q: z.string().optional(),
+  estado: z.enum(ESTADOS_OC).optional(),
+  proveedorId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const sugerenciasSchema = z.object({
+  ventanaDias: z.coerce.number().int().min(1).max(365).optional(),
+  coberturaDias: z.coerce.number().int().min(1).max(365).optional(),
+  proveedorId: z.string().uuid().optional(),
+  soloCriticos: z
+    .union([z.boolean(), z.enum(["true", "false"])])
+    .optional()
+    .transform((v) => v === true || v === "true"),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+const ordenDetalleInclude = {
+  proveedor: { select: { id: true, nombre: true, rut: true, email: true, telefono: true, contacto: true } },
+  creadoPor: { select: { id: true, nombre: true } },
+  lineas: {
+    orderBy: { createdAt: "asc" },
+    include: { producto: { select: { id: true, sku: true, nombre: true } } },
+  },
+  recepciones: { orderBy: { createdAt: "desc" } },
+} satisfies Prisma.OrdenCompraInclude;
+
+function usuarioId(req: Request) {
+  return req.auth?.typ === "staff" ? (req.auth as AuthStaff).usuarioId : null;
+}
+
+async function detalle(id: string) {
+  const orden = await prisma.ordenCompra.findUniqueOrThrow({ where: { id }, include: ordenDetalleInclude });
+  return {
+    ...orden,
+    lineas: orden.lineas.map((l) => ({ ...l, pendiente: Math.max(0, l.cantidad - l.cantidadRecibida) })),
+    transicionesPermitidas: TRANSICIONES_OC[orden.estado],
+  };
+}
+
+/* =========================
+   GET /ordenes-compra/sugerencias
+========================= */
+export async function getSugerencias(req: Request, res: Response) {
+  try {
+    const opts = sugerenciasSchema.parse(req.query);
+    return res.json(await sugerirReposicion(opts));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error calculando sugerencias de compra");
+  }
+}
+
+/* =========================
+   POST /ordenes-compra/sugerencias/generar
+   - 1 OC BORRADOR por proveedor con lo sugerido (para revisar y emitir)
+========================= */
+export async function generarDesdeSugerencias(req: Request, res: Response) {
+  try {
+    const opts = sugerenciasSchema.parse(req.body ?? {});
+    const result = await generarOrdenesSugeridas(opts, usuarioId(req));
+    return res.status(201).json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error generando órdenes de compra");
+  }
+}
+
+/* =========================
+   GET /ordenes-compra
+========================= */
+export async function listOrdenesCompra(req: Request, res: Response) {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
+    }
+    const { q, estado, proveedorId, page, pageSize } = parsed.data;
+    const trimmedQ = q?.trim();
+
+    const where: Prisma.OrdenCompraWhereInput = {
+      estado: estado ?? undefined,
+      proveedorId: proveedorId ?? undefined,
+      OR: trimmedQ
+        ? [
+            { codigo: { contains: trimmedQ, mode: "insensitive" as const } },
+            { proveedor: { nombre: { contains: trimmedQ, mode: "insensitive" as const } } },
+          ]
+        : undefined,
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.ordenCompra.count({ where }),
+      prisma.ordenCompra.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          proveedor: { select: { id: true, nombre: true } },
+          _count: { select: { lineas: true } },
+        },
+      }),
+    ]);
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      data: rows,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando órdenes de compra");
+  }
+}
+
+/* =========================
+   GET /ordenes-compra/:id
+========================= */
+export async function getOrdenCompraById(req: Request, res: Response) {
+  try {
+    const exists = await prisma.ordenCompra.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!exists) return res.status(404).json({ message: "Orden de compra no encontrada" });
+    return res.json(await detalle(exists.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo orden de compra");
+  }
+}
+
+/* =========================
+   POST /ordenes-compra
+   - precioUnitario opcional: si no viene, PrecioProveedor vigente del proveedor
+   - moneda opcional: si no viene, la de esos precios vigentes (CLP si todos vienen a mano)
+========================= */
+export async function createOrdenCompra(req: Request, res: Response) {
+  try {
+    const body = createSchema.parse(req.body ?? {});
+    const orden = await prisma.$transaction((tx) => crearOrdenCompraTx(tx, { ...body, creadoPorId: usuarioId(req) }));
+    return res.status(201).json(await detalle(orden.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error creando orden de compra");
+  }
+}
+
+/* =========================
+   PATCH /ordenes-compra/:id
+   - solo BORRADOR; "lineas" reemplaza todas las líneas
+========================= */
+export async function updateOrdenCompra(req: Request, res: Response) {
+  try {
+    const body = updateSchema.parse(req.body ?? {});
+    await prisma.$transaction((tx) => actualizarOrdenCompraTx(tx, req.params.id, body));
+    return res.json(await detalle(req.params.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error actualizando orden de compra");
+  }
+}
+
+/* =========================
+   POST /ordenes-compra/:id/emitir | /cerrar | /cancelar
+========================= */
+export async function emitirOrdenCompra(req: Request, res: Response) {
+  try {
+    await prisma.$transaction((tx) => emitirOrdenCompraTx(tx, req.params.id));
+    return res.json(await detalle(req.params.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error emitiendo orden de compra");
+  }
+}
+
+export async function cerrarOrdenCompra(req: Request, res: Response) {
+  try {
+    await prisma.$transaction((tx) => cerrarOrdenCompraTx(tx, req.params.id));
+    return res.json(await detalle(req.params.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cerrando orden de compra");
+  }
+}
+
+export async function cancelarOrdenCompra(req: Request, res: Response) {
+  try {
+    await prisma.$transaction((tx) => cancelarOrdenCompraTx(tx, req.params.id));
+    return res.json(await detalle(req.params.id));
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cancelando orden de compra");
+  }
+}
+
+/* =========================
+   POST /ordenes-compra/:id/recepciones
+   - recepción parcial o total; genera Entradas de stock
+========================= */
+export async function recibirOrdenCompra(req: Request, res: Response) {
+  try {
+    const body = recepcionSchema.parse(req.body ?? {});
+
+    const result = await transaccionConEventos((tx) =>
+      recibirOrdenCompraTx(tx, req.params.id, { ...body, usuarioId: usuarioId(req) }),
+    );
+
+    despacharEnSegundoPlano();
+    return res.status(201).json({
+      orden: await detalle(req.params.id),
+      recepciones: result.recepciones,
+      stockCritical: result.stockCritical,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error recibiendo orden de compra");
+  }
+}
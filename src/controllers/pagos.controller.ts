@@ -0,0 +1,167 @@
+// src/controllers/pagos.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
+import { deleteFromCloudinary, uploadBufferToCloudinary } from "../lib/cloudinaryUpload";
+import { handleError } from "../utils/http";
+import { confirmarPagoTx, rechazarPagoTx, registrarPagoTx, resumenPagos } from "../services/pagos.service";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/pedidos/<id>/pagos -F metodo=TRANSFERENCIA -F monto=11900 -F image=@comprobante.jpg
+// curl -X POST http://localhost:3000/api/pedidos/<id>/pagos/<pagoId>/confirmar
+// curl -X POST http://localhost:3000/api/pedidos/<id>/pagos/<pagoId>/rechazar -H "Content-Type: application/json" -d '{"motivo":"Monto no coincide"}'
+
+/* =========================
+   Schemas
+========================= */
+
+const createPagoSchema = z.object({
+  metodo: z.enum(["TRANSBANK", "APPLE_PAY", "TRANSFERENCIA", "OTRO"]),
+  monto: z.coerce.number().int("monto debe ser entero").min(1, "monto debe ser ≥ 1"),
+  referencia: z.string().trim().optional().or(z.literal("")),
+});
+
+const rechazarSchema = z.object({
+  motivo: z.string().trim().optional(),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+function getEvidenciaFolder() {
+  return process.env.CLOUDINARY_PAGOS_FOLDER || "covasa/pagos";
+}
+
+/** PDF se sube tal cual ("raw"); imágenes pasan por la optimización de siempre. */
+async function uploadEvidencia(file: Express.Multer.File | undefined) {
+  if (!file?.buffer) return null;
+  const resource_type: "image" | "raw" = file.mimetype === "application/pdf" ? "raw" : "image";
+  const up = await uploadBufferToCloudinary(file.buffer, { folder: getEvidenciaFolder(), resource_type });
+  return { url: up.secure_url, publicId: up.public_id, resource_type };
+}
+
+/* =========================
+   GET /pedidos/:id/pagos
+========================= */
+export async function listPagosPedido(req: Request, res: Response) {
+  try {
+    const pedido = await prisma.ecommerce_pedido.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, codigo: true, estado: true, total: true, ecommerce_pago: { orderBy: { createdAt: "asc" } } },
+    });
+    if (!pedido) return res.status(404).json({ message: "Pedido no encontrado" });
+
+    return res.json({
+      pedidoId: pedido.id,
+      codigo: pedido.codigo,
+      estadoPedido: pedido.estado,
+      resumen: resumenPagos(pedido.ecommerce_pago, pedido.total),
+      data: pedido.ecommerce_pago,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando pagos");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/pagos
+   - JSON o multipart (field "image" = comprobante de transferencia, imagen o PDF)
+   - el pago se valida y registra antes de subir el comprobante: si se rechaza, no queda nada en Cloudinary
+========================= */
+export async function createPago(req: Request, res: Response) {
+  try {
+    const body = createPagoSchema.parse(req.body ?? {});
+
+    const pago = await prisma.$transaction((tx) =>
+      registrarPagoTx(tx, req.params.id, {
+        metodo: body.metodo,
+        monto: body.monto,
+        referencia: body.referencia || null,
+      }),
+    );
+    if (!req.file?.buffer) return res.status(201).json(pago);
+
+    let evidencia: Awaited<ReturnType<typeof uploadEvidencia>>;
+    try {
+      evidencia = await uploadEvidencia(req.file);
+    } catch (e: unknown) {
+      // sin comprobante no queda un pago a medias
+      await prisma.ecommerce_pago.delete({ where: { id: pago.id } });
+      throw e;
+    }
+
+    try {
+      const updated = await prisma.ecommerce_pago.update({
+        where: { id: pago.id },
+        data: { evidenciaUrl: evidencia?.url ?? null, updatedAt: new Date() },
+      });
+      return res.status(201).json(updated);
+    } catch (e: unknown) {
+      if (evidencia) await deleteFromCloudinary(evidencia.publicId, { resource_type: evidencia.resource_type });
+      throw e;
+    }
+  } catch (e: unknown) {
+    return handleError(res, e, "Error registrando pago");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/pagos/:pagoId/evidencia
+   - sube/reemplaza el comprobante (field "image")
+========================= */
+export async function uploadEvidenciaPago(req: Request, res: Response) {
+  try {
+    if (!req.file?.buffer) {
+      return res.status(400).json({ message: "Debes subir el comprobante en el campo 'image'." });
+    }
+
+    const pago = await prisma.ecommerce_pago.findFirst({ where: { id: req.params.pagoId, pedidoId: req.params.id } });
+    if (!pago) return res.status(404).json({ message: "Pago no encontrado" });
+    if (pago.estado !== "PENDIENTE") return res.status(409).json({ message: `El pago está ${pago.estado}` });
+
+    const evidencia = await uploadEvidencia(req.file);
+
+    try {
+      const updated = await prisma.ecommerce_pago.update({
+        where: { id: pago.id },
+        data: { evidenciaUrl: evidencia?.url ?? null, updatedAt: new Date() },
+      });
+      return res.json(updated);
+    } catch (e: unknown) {
+      if (evidencia) await deleteFromCloudinary(evidencia.publicId, { resource_type: evidencia.resource_type });
+      throw e;
+    }
+  } catch (e: unknown) {
+    return handleError(res, e, "Error subiendo comprobante");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/pagos/:pagoId/confirmar
+   - PENDIENTE → CONFIRMADO; si cubre el total, el pedido pasa a PAGADO
+========================= */
+export async function confirmarPago(req: Request, res: Response) {
+  try {
+    const result = await transaccionConEventos((tx) => confirmarPagoTx(tx, req.params.id, req.params.pagoId));
+    despacharEnSegundoPlano(); // si el pedido pasó a PAGADO pudo descontar stock
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error confirmando pago");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/pagos/:pagoId/rechazar
+========================= */
+export async function rechazarPago(req: Request, res: Response) {
+  try {
+    const { motivo } = rechazarSchema.parse(req.body ?? {});
+    const result = await transaccionConEventos((tx) => rechazarPagoTx(tx, req.params.id, req.params.pagoId, motivo));
+    return res.json(result);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error rechazando pago");
+  }
+}
@@ -0,0 +1,271 @@
+// src/controllers/pagosGateway.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
+import { handleError, httpError } from "../utils/http";
+import {
+  confirmarPagoTx,
+  rechazarPagoTx,
+  registrarPagoTx,
+  liberarReembolsoTx,
+  registrarReembolsoTx,
+  reservarReembolsoTx,
+  resumenPagos,
+} from "../services/pagos.service";
+import { getPaymentGateway } from "../services/paymentGateways";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+import { getSimTransaction, simularDecision, webpaySimulator } from "../services/paymentGateways/webpaySimulator";
+
+// Manual test (curl) con PAYMENT_GATEWAY=simulador:
+// curl -X POST http://localhost:3000/api/pedidos/<id>/pagos/transbank/iniciar
+// -> abrir en el navegador: <url>?token_ws=<token>  (Aprobar / Rechazar / Anular)
+// -> el simulador redirige a /api/pagos/transbank/retorno?token_ws=<token> (commit)
+
+/* =========================
+   Schemas
+========================= */
+
+const iniciarSchema = z.object({
+  monto: z.coerce.number().int().min(1).optional(),
+});
+
+const reembolsoSchema = z.object({
+  monto: z.coerce.number().int().min(1).optional(),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+function publicBaseUrl() {
+  return (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, "");
+}
+
+function returnUrl() {
+  return `${publicBaseUrl()}/api/pagos/transbank/retorno`;
+}
+
+function pickParam(req: Request, key: string) {
+  const v = (req.body && (req.body as Record<string, unknown>)[key]) ?? req.query[key];
+  return typeof v === "string" && v.trim() ? v.trim() : null;
+}
+
+/** Si hay front configurado, vuelve allá; si no, responde JSON (útil en dev/curl). */
+function responderResultado(res: Response, data: { pedidoId: string; pagoId: string; estado: string; [k: string]: unknown }) {
+  const front = process.env.PAYMENT_RESULT_URL;
+  if (front) {
+    const qs = new URLSearchParams({ pedidoId: data.pedidoId, pagoId: data.pagoId, estado: data.estado });
+    return res.redirect(303, `${front}?${qs.toString()}`);
+  }
+  return res.json(data);
+}
+
+/* =========================
+   POST /pedidos/:id/pagos/transbank/iniciar
+   - crea ecommerce_pago PENDIENTE + transacción en la pasarela
+========================= */
+export async function iniciarPagoTransbank(req: Request, res: Response) {
+  try {
+    const body = iniciarSchema.parse(req.body ?? {});
+    const gateway = getPaymentGateway();
+
+    const { pago, pedido } = await prisma.$transaction(async (tx) => {
+      const pedido = await tx.ecommerce_pedido.findUnique({
+        where: { id: req.params.id },
+        include: { ecommerce_pago: { select: { estado: true, monto: true, montoReembolsado: true } } },
+      });
+      if (!pedido) throw httpError(404, "Pedido no encontrado", "PEDIDO_NOT_FOUND");
+
+      const { saldo } = resumenPagos(pedido.ecommerce_pago, pedido.total);
+      if (saldo <= 0) throw httpError(409, "El pedido ya está pagado", "PEDIDO_SIN_SALDO");
+
+      const pago = await registrarPagoTx(tx, pedido.id, { metodo: "TRANSBANK", monto: body.monto ?? saldo });
+      return { pago, pedido };
+    });
+
+    try {
+      const created = await gateway.createTransaction({
+        buyOrder: pedido.codigo.slice(0, 26),
+        sessionId: pago.id,
+        amount: pago.monto,
+        returnUrl: returnUrl(),
+      });
+
+      const updated = await prisma.ecommerce_pago.update({
+        where: { id: pago.id },
+        data: {
+          referencia: created.token,
+          gatewayPayloadJson: { gateway: gateway.nombre, create: created.raw } as Prisma.InputJsonValue,
+          updatedAt: new Date(),
+        },
+      });
+
+      return res.status(201).json({
+        pago: updated,
+        token: created.token,
+        url: created.url,
+        redirectUrl: `${created.url}?token_ws=${encodeURIComponent(created.token)}`,
+      });
+    } catch (e: unknown) {
+      // la pasarela no creó la transacción: el pago no debe quedar colgando como PENDIENTE
+      await transaccionConEventos((tx) =>
+        rechazarPagoTx(tx, pedido.id, pago.id, "Error al crear transacción en pasarela", {
+          gateway: gateway.nombre,
+          error: e instanceof Error ? e.message : String(e),
+        }),
+      );
+      throw e;
+    }
+  } catch (e: unknown) {
+    return handleError(res, e, "Error iniciando pago Transbank");
+  }
+}
+
+/* =========================
+   GET|POST /pagos/transbank/retorno
+   - token_ws: commit → CONFIRMADO / RECHAZADO
+   - TBK_TOKEN sin token_ws: el cliente anuló en la pasarela
+========================= */
+export async function retornoTransbank(req: Request, res: Response) {
+  try {
+    const tokenWs = pickParam(req, "token_ws");
+    const tbkToken = pickParam(req, "TBK_TOKEN");
+    const token = tokenWs ?? tbkToken;
+    if (!token) return res.status(400).json({ message: "token_ws es obligatorio" });
+
+    const pago = await prisma.ecommerce_pago.findFirst({ where: { referencia: token, metodo: "TRANSBANK" } });
+    if (!pago) return res.status(404).json({ message: "Pago no encontrado para el token" });
+
+    // idempotente: la pasarela (o el navegador) puede reintentar el retorno
+    if (pago.estado !== "PENDIENTE") {
+      return responderResultado(res, { pedidoId: pago.pedidoId, pagoId: pago.id, estado: pago.estado });
+    }
+
+    const gateway = getPaymentGateway();
+
+    if (!tokenWs) {
+      const { pago: rechazado } = await transaccionConEventos((tx) =>
+        rechazarPagoTx(tx, pago.pedidoId, pago.id, "Pago anulado por el cliente en la pasarela", {
+          abort: { TBK_TOKEN: tbkToken, TBK_ORDEN_COMPRA: pickParam(req, "TBK_ORDEN_COMPRA") },
+        }),
+      );
+      return responderResultado(res, { pedidoId: pago.pedidoId, pagoId: pago.id, estado: rechazado.estado });
+    }
+
+    const commit = await gateway.commitTransaction(tokenWs);
+    const ok = commit.authorized && commit.amount === pago.monto;
+
+    const result = await transaccionConEventos((tx) =>
+      ok
+        ? confirmarPagoTx(tx, pago.pedidoId, pago.id, { commit: commit.raw })
+        : rechazarPagoTx(tx, pago.pedidoId, pago.id, `Pasarela respondió ${commit.responseCode}`, { commit: commit.raw }),
+    );
+
+    despacharEnSegundoPlano();
+    return responderResultado(res, {
+      ...result,
+      pedidoId: pago.pedidoId,
+      pagoId: pago.id,
+      estado: result.pago.estado,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error en retorno de Transbank");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/pagos/:pagoId/reembolso
+   - total o parcial; se acumula en montoReembolsado (monto sigue siendo lo cobrado)
+   - el monto se reserva en BD antes de llamar a la pasarela (ver reservarReembolsoTx)
+   - si el pedido queda sin cubrir pasa a CANCELADO y reingresa stock
+========================= */
+export async function reembolsarPagoTransbank(req: Request, res: Response) {
+  try {
+    const body = reembolsoSchema.parse(req.body ?? {});
+    const { id: pedidoId, pagoId } = req.params;
+
+    // reserva con el pago bloqueado: un segundo reembolso en paralelo ya no ve ese saldo
+    const { pago, monto } = await prisma.$transaction((tx) => reservarReembolsoTx(tx, pedidoId, pagoId, body.monto));
+
+    const gateway = getPaymentGateway();
+    // reservarReembolsoTx ya validó que es Transbank con referencia
+    const refund = await gateway.refundTransaction(pago.referencia!, monto).catch(async (e: unknown) => {
+      await prisma
+        .$transaction((tx) => liberarReembolsoTx(tx, pedidoId, pagoId, monto))
+        .catch((err) => console.error("[reembolso] no se pudo liberar la reserva", { pagoId, monto }, err));
+      throw e;
+    });
+
+    const result = await transaccionConEventos((tx) =>
+      registrarReembolsoTx(tx, pedidoId, pagoId, monto, { refund: refund.raw }),
+    ).catch((e: unknown) => {
+      // la pasarela ya devolvió la plata: la reserva queda tomada para que no se repita
+      console.error("[reembolso] hecho en la pasarela sin registrar", { pagoId, monto, refund: refund.raw }, e);
+      throw e;
+    });
+
+    despacharEnSegundoPlano();
+    return res.json({ ...result, reembolso: refund });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error reembolsando pago");
+  }
+}
+
+/* =========================
+   Simulador Webpay (solo con PAYMENT_GATEWAY=simulador)
+========================= */
+
+function simuladorActivo() {
+  return getPaymentGateway().nombre === webpaySimulator.nombre;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+// GET /pagos/simulador/webpay?token_ws=...
+export async function simuladorWebpayForm(req: Request, res: Response) {
+  if (!simuladorActivo()) return res.status(404).json({ message: "Not found" });
+
+  const token = pickParam(req, "token_ws");
+  const t = token ? getSimTransaction(token) : null;
+  if (!token || !t) return res.status(404).send("Transacción no encontrada");
+
+  const tk = escapeHtml(token);
+  return res.type("html").send(`<!doctype html>
+<html lang="es"><head><meta charset="utf-8"><title>Webpay (simulador)</title></head>
+<body style="font-family:sans-serif;max-width:420px;margin:40px auto">
+  <h2>Webpay Plus — simulador</h2>
+  <p>Orden: <b>${escapeHtml(t.buyOrder)}</b><br>Monto: <b>$${t.amount.toLocaleString("es-CL")}</b></p>
+  <form method="post">
+    <input type="hidden" name="token_ws" value="${tk}">
+    <button name="accion" value="aprobar">Aprobar</button>
+    <button name="accion" value="rechazar">Rechazar</button>
+    <button name="accion" value="anular">Anular compra</button>
+  </form>
+</body></html>`);
+}
+
+// POST /pagos/simulador/webpay (form) -> redirige al return_url como lo haría Webpay
+export async function simuladorWebpayDecision(req: Request, res: Response) {
+  try {
+    if (!simuladorActivo()) return res.status(404).json({ message: "Not found" });
+
+    const token = pickParam(req, "token_ws");
+    const accion = pickParam(req, "accion") ?? "aprobar";
+    const t = token ? getSimTransaction(token) : null;
+    if (!token || !t) return res.status(404).json({ message: "Transacción no encontrada" });
+
+    if (accion === "anular") {
+      const qs = new URLSearchParams({ TBK_TOKEN: token, TBK_ORDEN_COMPRA: t.buyOrder, TBK_ID_SESION: t.sessionId });
+      return res.redirect(303, `${t.returnUrl}?${qs.toString()}`);
+    }
+
+    simularDecision(token, accion === "rechazar" ? "rechazar" : "aprobar");
+    return res.redirect(303, `${t.returnUrl}?token_ws=${encodeURIComponent(token)}`);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error en simulador Webpay");
+  }
+}
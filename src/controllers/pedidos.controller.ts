@@ -0,0 +1,354 @@
+// src/controllers/pedidos.controller.ts
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { EcommerceEstadoPedido, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
+import { handleError, httpError } from "../utils/http";
+import {
+  TRANSICIONES_PEDIDO,
+  calcularItem,
+  cambiarEstadoPedidoTx,
+  crearPedidoTx,
+  despachoSchema,
+  precioVentaNeto,
+  type DespachoInput,
+  type PedidoItemCalc,
+} from "../services/pedidos.service";
+import { resumenPagos } from "../services/pagos.service";
+import { itemsDesdeCarritoTx, marcarCarritoConvertidoTx } from "../services/carritos.service";
+import { assertPropietario, clienteScopeId } from "../middlewares/auth";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/pedidos -H "Content-Type: application/json" \
+//   -d '{"items":[{"productoId":"<uuid>","cantidad":2}],"despacho":{"nombreContacto":"Juan","telefono":"99999999","email":"j@x.cl","direccion":"Av. Siempre Viva 123","comuna":"Maipú","region":"RM"}}'
+// curl "http://localhost:3000/api/pedidos?estado=CREADO&q=PED-"
+// curl -X POST http://localhost:3000/api/pedidos/<id>/estado -H "Content-Type: application/json" -d '{"estado":"PAGADO"}'
+
+/* =========================
+   Schemas
+========================= */
+
+const ESTADOS_PEDIDO = ["CREADO", "PAGADO", "EN_PREPARACION", "ENVIADO", "ENTREGADO", "CANCELADO"] as const;
+
+const optionalTrimmed = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((v) => (v ? v : null));
+
+const itemSchema = z.object({
+  productoId: z.string().uuid("productoId inválido"),
+  cantidad: z.coerce.number().int().min(1, "cantidad debe ser ≥ 1"),
+  precioUnitarioNeto: z.coerce.number().min(0).optional(),
+  descripcion: z.string().trim().optional(),
+  ivaPct: z.coerce.number().int().min(0).max(100).optional(),
+});
+
+const createPedidoSchema = z
+  .object({
+    ecommerceClienteId: optionalTrimmed,
+    clienteId: optionalTrimmed,
+    carritoId: optionalTrimmed,
+    items: z.array(itemSchema).optional(),
+    despacho: despachoSchema.optional().nullable(),
+    // alternativa a "despacho": copiar una dirección guardada del cliente
+    direccionId: optionalTrimmed,
+  })
+  .refine((b) => !!b.carritoId || (b.items?.length ?? 0) > 0, {
+    path: ["items"],
+    message: "Debes enviar carritoId o al menos 1 item",
+  });
+
+const listQuerySchema = z.object({
+  q: z.string().optional(),
+  estado: z.enum(ESTADOS_PEDIDO).optional(),
+  ecommerceClienteId: z.string().optional(),
+  clienteId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(10),
+});
+
+const cambiarEstadoSchema = z.object({
+  estado: z.enum(ESTADOS_PEDIDO),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+function parseDate(value?: string) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date;
+}
+
+/** Precio, IVA y descripción manuales solo para staff; un cliente paga el precio de catálogo. */
+async function itemsDesdeBody(
+  tx: Prisma.TransactionClient,
+  items: z.infer<typeof itemSchema>[],
+  opts: { permitirOverrides: boolean },
+) {
+  if (!opts.permitirOverrides) {
+    const idx = items.findIndex(
+      (it) => it.precioUnitarioNeto !== undefined || it.ivaPct !== undefined || it.descripcion !== undefined,
+    );
+    if (idx >= 0) {
+      throw httpError(
+        403,
+        `Item #${idx + 1}: precioUnitarioNeto, ivaPct y descripcion solo los define el personal interno`,
+        "CAMPOS_NO_PERMITIDOS",
+      );
+    }
+  }
+
+  const ids = [...new Set(items.map((it) => it.productoId))];
+  const productos = await tx.producto.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, nombre: true, precioGeneral: true, precioConDescto: true },
+  });
+  const byId = new Map(productos.map((p) => [p.id, p]));
+
+  return items.map((it, idx) => {
+    const prod = byId.get(it.productoId);
+    if (!prod) throw httpError(400, `Item #${idx + 1}: producto no existe`, "PRODUCTO_NOT_FOUND");
+
+    return calcularItem({
+      productoId: prod.id,
+      descripcion: it.descripcion || prod.nombre,
+      cantidad: it.cantidad,
+      precioUnitarioNeto: Math.trunc(it.precioUnitarioNeto ?? precioVentaNeto(prod)),
+      ivaPct: it.ivaPct,
+    });
+  });
+}
+
+async function despachoDesdeDireccion(
+  tx: Prisma.TransactionClient,
+  req: Request,
+  direccionId: string,
+): Promise<DespachoInput> {
+  const dir = await tx.ecommerce_direccion.findUnique({ where: { id: direccionId } });
+  if (!dir) throw httpError(404, "Dirección no encontrada", "DIRECCION_NOT_FOUND");
+  assertPropietario(req, dir.ecommerceClienteId, { message: "Dirección no encontrada", code: "DIRECCION_NOT_FOUND" });
+
+  return {
+    nombreContacto: dir.nombreContacto,
+    telefono: dir.telefono,
+    email: dir.email,
+    direccion: dir.direccion,
+    numero: dir.numero,
+    depto: dir.depto,
+    comuna: dir.comuna,
+    ciudad: dir.ciudad,
+    region: dir.region,
+    codigoPostal: dir.codigoPostal,
+    notas: dir.notas,
+  };
+}
+
+const pedidoDetalleInclude = {
+  ecommerce_pedido_item: {
+    orderBy: { createdAt: "asc" as const },
+    include: { Producto: { select: { id: true, nombre: true, sku: true, unidadMedida: true } } },
+  },
+  ecommerce_direccion: true,
+  ecommerce_pago: { orderBy: { createdAt: "asc" as const } },
+  ecommerce_cliente: { select: { id: true, nombre: true, apellidos: true, rut: true, email: true, telefono: true } },
+  CrmCotizacion: { select: { id: true, estado: true, clienteNombreSnapshot: true } },
+};
+
+/* =========================
+   router.param("id")
+   - cliente logueado: solo ve/opera sus pedidos (404 si es de otro)
+========================= */
+export async function pedidoPropio(req: Request, res: Response, next: NextFunction, id: string) {
+  try {
+    if (!clienteScopeId(req)) return next();
+
+    const pedido = await prisma.ecommerce_pedido.findUnique({ where: { id }, select: { ecommerceClienteId: true } });
+    if (!pedido) return res.status(404).json({ message: "Pedido no encontrado" });
+    assertPropietario(req, pedido.ecommerceClienteId, { message: "Pedido no encontrado", code: "PEDIDO_NOT_FOUND" });
+
+    return next();
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo pedido");
+  }
+}
+
+/* =========================
+   POST /pedidos
+   - desde cero (items) o desde un carrito (carritoId)
+========================= */
+export async function createPedido(req: Request, res: Response) {
+  try {
+    const body = createPedidoSchema.parse(req.body ?? {});
+
+    // cliente logueado: el pedido queda a su nombre, sin importar lo que venga en el body
+    const scope = clienteScopeId(req);
+
+    const created = await prisma.$transaction(async (tx) => {
+      let ecommerceClienteId = scope ?? body.ecommerceClienteId;
+      let items: PedidoItemCalc[];
+
+      if (body.carritoId) {
+        const fromCart = await itemsDesdeCarritoTx(tx, body.carritoId);
+        assertPropietario(
+          req,
+          fromCart.carrito.ecommerceClienteId,
+          { message: "Carrito no encontrado", code: "CARRITO_NOT_FOUND" },
+          { permitirAnonimo: true },
+        );
+        items = fromCart.items;
+        ecommerceClienteId = ecommerceClienteId ?? fromCart.carrito.ecommerceClienteId;
+
+        await marcarCarritoConvertidoTx(tx, fromCart.carrito.id);
+      } else {
+        items = await itemsDesdeBody(tx, body.items ?? [], { permitirOverrides: !scope });
+      }
+
+      const despacho = body.despacho ?? (body.direccionId ? await despachoDesdeDireccion(tx, req, body.direccionId) : null);
+
+      const pedido = await crearPedidoTx(tx, {
+        ecommerceClienteId,
+        clienteId: scope ? null : body.clienteId,
+        despacho,
+        items,
+      });
+
+      return tx.ecommerce_pedido.findUniqueOrThrow({ where: { id: pedido.id }, include: pedidoDetalleInclude });
+    });
+
+    return res.status(201).json(created);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error creando pedido");
+  }
+}
+
+/* =========================
+   GET /pedidos
+========================= */
+export async function listPedidos(req: Request, res: Response) {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
+    }
+
+    const { q, estado, ecommerceClienteId, clienteId, from, to, page, pageSize } = parsed.data;
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (fromDate === null || toDate === null) {
+      return res.status(400).json({
+        message: "Validation error",
+        issues: [{ path: [fromDate === null ? "from" : "to"], message: "fecha inválida" }],
+      });
+    }
+
+    const trimmedQ = q?.trim();
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.ecommerce_pedidoWhereInput = {
+      estado: estado ?? undefined,
+      ecommerceClienteId: clienteScopeId(req) ?? (ecommerceClienteId || undefined),
+      clienteId: clienteId || undefined,
+      createdAt: fromDate || toDate ? { ...(fromDate ? { gte: fromDate } : {}), ...(toDate ? { lte: toDate } : {}) } : undefined,
+      OR: trimmedQ
+        ? [
+            { codigo: { contains: trimmedQ, mode: "insensitive" as const } },
+            { despachoNombre: { contains: trimmedQ, mode: "insensitive" as const } },
+            { despachoEmail: { contains: trimmedQ, mode: "insensitive" as const } },
+          ]
+        : undefined,
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.ecommerce_pedido.count({ where }),
+      prisma.ecommerce_pedido.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: pageSize,
+        skip,
+        include: {
+          ecommerce_pedido_item: { select: { id: true } }, // para contar
+          ecommerce_cliente: { select: { id: true, nombre: true, rut: true, email: true, telefono: true } },
+        },
+      }),
+    ]);
+
+    const data = rows.map((r) => ({
+      ...r,
+      itemsCount: r.ecommerce_pedido_item.length,
+      ecommerce_pedido_item: undefined,
+    }));
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      data,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando pedidos");
+  }
+}
+
+/* =========================
+   GET /pedidos/:id
+========================= */
+export async function getPedidoById(req: Request, res: Response) {
+  try {
+    const row = await prisma.ecommerce_pedido.findUnique({
+      where: { id: req.params.id },
+      include: pedidoDetalleInclude,
+    });
+
+    if (!row) return res.status(404).json({ message: "Pedido no encontrado" });
+
+    return res.json({
+      ...row,
+      resumenPagos: resumenPagos(row.ecommerce_pago, row.total),
+      transicionesPermitidas: TRANSICIONES_PEDIDO[row.estado],
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo pedido");
+  }
+}
+
+/* =========================
+   POST /pedidos/:id/estado
+========================= */
+export async function cambiarEstadoPedido(req: Request, res: Response) {
+  try {
+    const { estado } = cambiarEstadoSchema.parse(req.body ?? {});
+
+    // el cliente solo puede anular su pedido mientras no esté pagado; el resto lo mueve backoffice
+    if (clienteScopeId(req)) {
+      const actual = await prisma.ecommerce_pedido.findUnique({ where: { id: req.params.id }, select: { estado: true } });
+      if (estado !== "CANCELADO" || actual?.estado !== "CREADO") {
+        return res.status(403).json({ message: "Solo puedes cancelar un pedido que aún no está pagado" });
+      }
+    }
+
+    const result = await transaccionConEventos((tx) =>
+      cambiarEstadoPedidoTx(tx, req.params.id, estado as EcommerceEstadoPedido),
+    );
+
+    despacharEnSegundoPlano();
+    return res.json({
+      ...result.pedido,
+      estadoAnterior: result.anterior,
+      stock: result.stock,
+      transicionesPermitidas: TRANSICIONES_PEDIDO[result.pedido.estado],
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error cambiando estado del pedido");
+  }
+}
@@ -1,6 +1,26 @@
 import type { Request, Response } from "express";
 import { prisma } from "../lib/prisma";
 import { z } from "zod";
+import type { AuthStaff } from "../middlewares/auth";
+import {
+  cerrarPrecioProveedorTx,
+  guardarPrecioProveedorTx,
+  historialPrecioProducto,
+  importarPreciosProveedor,
+  rankingProveedores,
+  variacionPreciosProveedor,
+} from "../services/preciosProveedor.service";
+import { MONEDA_REGEX, convertirAClp, tasasAl } from "../services/tiposCambio.service";
+import { leerPrimeraHoja } from "../utils/excel";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/precios-proveedor/upsert -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"productoId":"<uuid>","proveedorId":"<uuid>","precio":12500}'
+// curl "http://localhost:3000/api/precios-proveedor/<productoId>/historial" -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/proveedores/<id>/precios/import-excel -H "Authorization: Bearer <token>" \
+//   -F "file=@lista.xlsx" -F "moneda=CLP" -F "desactivarNoListados=true"
+// curl "http://localhost:3000/api/precios-proveedor/ranking?productoId=<uuid>&fecha=2026-03-01" -H "Authorization: Bearer <token>"
+// curl "http://localhost:3000/api/precios-proveedor/variacion?from=2026-01-01&to=2026-03-31" -H "Authorization: Bearer <token>"
 
 /* ================== Schemas ================== */
 
@@ -8,16 +28,55 @@ const precioProveedorUpsertSchema = z.object({
   productoId: z.string().uuid("productoId inválido"),
   proveedorId: z.string().uuid("proveedorId inválido"),
   precio: z.coerce.number().min(0, "Precio debe ser ≥ 0"),
+  moneda: z.string().trim().toUpperCase().regex(MONEDA_REGEX, "moneda inválida (ej: CLP, USD, EUR, UF)").optional(),
   vigente: z.coerce.boolean().optional().default(true),
 });
 
+const historialQuerySchema = z.object({
+  proveedorId: z.string().uuid("proveedorId inválido").optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const variacionQuerySchema = z.object({
+  proveedorId: z.string().uuid("proveedorId inválido").optional(),
+  productoId: z.string().uuid("productoId inválido").optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const rankingQuerySchema = z.object({
+  // uno o varios: ?productoId=a&productoId=b o ?productoId=a,b
+  productoId: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : [v].flat().flatMap((s) => s.split(",")).filter(Boolean)))
+    .pipe(z.array(z.string().uuid("productoId inválido")).optional()),
+  fecha: z.coerce.date().optional(),
+});
+
+// multipart: los campos llegan como string
+const importBodySchema = z.object({
+  moneda: z.string().trim().toUpperCase().regex(MONEDA_REGEX, "moneda inválida (ej: CLP, USD, EUR, UF)").optional(),
+  desactivarNoListados: z
+    .union([z.boolean(), z.enum(["true", "false"])])
+    .optional()
+    .transform((v) => v === true || v === "true"),
+});
+
+function usuarioId(req: Request) {
+  return req.auth?.typ === "staff" ? (req.auth as AuthStaff).usuarioId : null;
+}
+
 /* ================== CRUD ================== */
 
-// LIST (?productoId=...&proveedorId=...)
+// LIST (?productoId=...&proveedorId=...&fecha=...) — precioClp con el tipo de cambio a "fecha" (hoy por defecto)
 export async function getPreciosProveedor(req: Request, res: Response) {
   try {
     const productoId = req.query.productoId ? String(req.query.productoId) : undefined;
     const proveedorId = req.query.proveedorId ? String(req.query.proveedorId) : undefined;
+    const fecha = req.query.fecha ? new Date(String(req.query.fecha)) : new Date();
+    if (Number.isNaN(fecha.getTime())) return res.status(400).json({ error: "fecha inválida" });
 
     const where: any = {};
     if (productoId) where.productoId = productoId;
@@ -29,36 +88,47 @@ export async function getPreciosProveedor(req: Request, res: Response) {
       orderBy: { updatedAt: "desc" },
     });
 
-    return res.status(200).json(items);
+    const tasas = await tasasAl(fecha);
+    return res.status(200).json(items.map((it) => ({ ...it, ...convertirAClp(it.precio, it.moneda, tasas) })));
   } catch (err: any) {
     console.error("Error al obtener precios proveedor:", err);
     return res.status(500).json({ error: "Error al obtener precios proveedor" });
   }
 }
 
-// UPSERT (create or update por producto+proveedor)
+// UPSERT (create or update por producto+proveedor; si cambia el precio queda en el historial)
 export async function upsertPrecioProveedor(req: Request, res: Response) {
   try {
     const parsed = precioProveedorUpsertSchema.parse(req.body);
 
     const productoId = parsed.productoId;
     const proveedorId = parsed.proveedorId;
-    const precio = Math.trunc(Number(parsed.precio));
+    // se redondea según moneda en guardarPrecioProveedorTx (CLP entero; USD/EUR/UF con decimales)
+    const precio = Number(parsed.precio);
     const vigente = Boolean(parsed.vigente);
 
-    const item = await prisma.precioProveedor.upsert({
-      where: { productoId_proveedorId: { productoId, proveedorId } },
-      create: { productoId, proveedorId, precio, vigente },
-      update: { precio, vigente },
+    const { item } = await prisma.$transaction((tx) =>
+      guardarPrecioProveedorTx(tx, {
+        productoId,
+        proveedorId,
+        precio,
+        moneda: parsed.moneda,
+        vigente,
+        usuarioId: usuarioId(req),
+      }),
+    );
+
+    const full = await prisma.precioProveedor.findUniqueOrThrow({
+      where: { id: item.id },
       include: { producto: true, proveedor: true },
     });
 
-    return res.status(201).json(item);
+    return res.status(201).json(full);
   } catch (err: any) {
     if (err?.name === "ZodError") {
       return res.status(400).json({ error: "Validación", issues: err.issues });
     }
-    // Si el unique compuesto choca (raro con upsert, pero igual)
+    // Si el unique compuesto choca (dos upserts simultáneos del mismo par)
     if (err?.code === "P2002") {
       return res.status(409).json({ error: "Ya existe ese precio para ese proveedor/producto" });
     }
@@ -77,7 +147,10 @@ export async function deletePrecioProveedor(req: Request, res: Response) {
     const { id } = req.params;
     if (!id || typeof id !== "string") return res.status(400).json({ error: "ID inválido" });
 
-    await prisma.precioProveedor.delete({ where: { id } });
+    await prisma.$transaction(async (tx) => {
+      const borrado = await tx.precioProveedor.delete({ where: { id } });
+      await cerrarPrecioProveedorTx(tx, borrado.productoId, borrado.proveedorId);
+    });
     return res.status(204).send();
   } catch (err: any) {
     console.error("Error al eliminar precio proveedor:", err);
@@ -85,3 +158,110 @@ export async function deletePrecioProveedor(req: Request, res: Response) {
     return res.status(500).json({ error: "Error al eliminar precio proveedor" });
   }
 }
+
+/* ================== Historial ================== */
+
+// GET /precios-proveedor/:productoId/historial (?proveedorId=&from=&to=)
+export async function getHistorialPrecioProveedor(req: Request, res: Response) {
+  try {
+    const productoId = req.params.productoId;
+    const filtro = historialQuerySchema.parse(req.query);
+
+    const producto = await prisma.producto.findUnique({
+      where: { id: productoId },
+      select: { id: true, sku: true, nombre: true },
+    });
+    if (!producto) return res.status(404).json({ error: "Producto no encontrado" });
+
+    const proveedores = await historialPrecioProducto(productoId, filtro);
+    return res.status(200).json({ producto, proveedores });
+  } catch (err: any) {
+    if (err?.name === "ZodError") {
+      return res.status(400).json({ error: "Validación", issues: err.issues });
+    }
+    console.error("Error al obtener historial de precios proveedor:", err);
+    return res.status(500).json({ error: "Error al obtener historial de precios proveedor" });
+  }
+}
+
+// GET /precios-proveedor/variacion (?from=&to=&proveedorId=&productoId=) — por defecto últimos 90 días
+export async function getVariacionPreciosProveedor(req: Request, res: Response) {
+  try {
+    const q = variacionQuerySchema.parse(req.query);
+    const to = q.to ?? new Date();
+    const from = q.from ?? new Date(to.getTime() - 90 * 24 * 60 * 60 * 1000);
+    if (from > to) return res.status(400).json({ error: "from debe ser anterior a to" });
+
+    const reporte = await variacionPreciosProveedor({ from, to, proveedorId: q.proveedorId, productoId: q.productoId });
+    return res.status(200).json(reporte);
+  } catch (err: any) {
+    if (err?.name === "ZodError") {
+      return res.status(400).json({ error: "Validación", issues: err.issues });
+    }
+    console.error("Error al obtener variación de precios proveedor:", err);
+    return res.status(500).json({ error: "Error al obtener variación de precios proveedor" });
+  }
+}
+
+/* ================== Ranking ================== */
+
+// GET /precios-proveedor/ranking (?productoId=a,b&fecha=) — mejor proveedor por producto según precio en CLP
+export async function getRankingProveedores(req: Request, res: Response) {
+  try {
+    const q = rankingQuerySchema.parse(req.query);
+    const ranking = await rankingProveedores({ productoIds: q.productoId, fecha: q.fecha });
+    return res.status(200).json(ranking);
+  } catch (err: any) {
+    if (err?.name === "ZodError") {
+      return res.status(400).json({ error: "Validación", issues: err.issues });
+    }
+    console.error("Error al obtener ranking de proveedores:", err);
+    return res.status(500).json({ error: "Error al obtener ranking de proveedores" });
+  }
+}
+
+/* ================== Import Excel ================== */
+
+// POST /proveedores/:id/precios/import-excel (field "file"; columnas: sku, nombre, precio, moneda, vigente)
+export async function importPreciosProveedorExcel(req: Request, res: Response) {
+  if (!req.file) {
+    return res.status(400).json({ error: "Debes subir un archivo Excel en el campo 'file'." });
+  }
+
+  try {
+    const opts = importBodySchema.parse(req.body ?? {});
+
+    const proveedor = await prisma.proveedor.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, nombre: true },
+    });
+    if (!proveedor) return res.status(404).json({ error: "Proveedor no encontrado" });
+
+    const hoja = leerPrimeraHoja(req.file.buffer);
+    if ("error" in hoja) return res.status(400).json({ error: hoja.error });
+
+    const result = await importarPreciosProveedor(hoja.rows, {
+      proveedorId: proveedor.id,
+      archivoNombre: req.file.originalname,
+      monedaDefault: opts.moneda,
+      desactivarNoListados: opts.desactivarNoListados,
+      usuarioId: usuarioId(req),
+    });
+
+    return res.status(200).json({
+      ok: result.filasError === 0,
+      message:
+        result.filasError === 0
+          ? "Importación completa."
+          : `Importación completada con ${result.filasError} error(es).`,
+      proveedor,
+      ...result,
+    });
+  } catch (err: any) {
+    if (err?.name === "ZodError") {
+      return res.status(400).json({ error: "Validación", issues: err.issues });
+    }
+    console.error("Error importPreciosProveedorExcel:", err);
+    return res.status(500).json({ error: "Error al importar lista de precios" });
+  }
+}
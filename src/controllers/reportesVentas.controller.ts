@@ -0,0 +1,76 @@
+// src/controllers/reportesVentas.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { OrigenCliente } from "@prisma/client";
+import { handleError } from "../utils/http";
+import {
+  cierresVentas,
+  embudoVentas,
+  productosVentas,
+  type AgruparCierres,
+} from "../services/reportesVentas.service";
+
+// Manual test (curl):
+// curl "http://localhost:3000/api/reportes/ventas/embudo?from=2026-01-01&to=2026-03-31" -H "Authorization: Bearer <token>"
+// curl "http://localhost:3000/api/reportes/ventas/vendedores?from=2026-01-01" -H "Authorization: Bearer <token>"
+// curl "http://localhost:3000/api/reportes/ventas/productos?top=20" -H "Authorization: Bearer <token>"
+
+/* =========================
+   Schemas
+========================= */
+
+const filtroSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  vendedorId: z.string().uuid("vendedorId inválido").optional(),
+  origenCliente: z.enum(OrigenCliente).optional(),
+});
+
+const productosSchema = filtroSchema.extend({
+  top: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+/* =========================
+   GET /reportes/ventas/embudo
+   - conversión por etapa y win rate
+========================= */
+export async function getEmbudoVentas(req: Request, res: Response) {
+  try {
+    const filtro = filtroSchema.parse(req.query);
+    return res.json({ filtro, ...(await embudoVentas(filtro)) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error calculando embudo de ventas");
+  }
+}
+
+/* =========================
+   GET /reportes/ventas/vendedores | /mensual | /origen
+   - cierres (GANADA / PERDIDA) del periodo agrupados
+========================= */
+function cierres(agrupar: AgruparCierres) {
+  return async (req: Request, res: Response) => {
+    try {
+      const filtro = filtroSchema.parse(req.query);
+      return res.json({ filtro, ...(await cierresVentas(filtro, agrupar)) });
+    } catch (e: unknown) {
+      return handleError(res, e, "Error calculando cierres de ventas");
+    }
+  };
+}
+
+export const getVentasPorVendedor = cierres("vendedor");
+export const getVentasPorMes = cierres("mes");
+export const getVentasPorOrigen = cierres("origen");
+
+/* =========================
+   GET /reportes/ventas/productos
+   - top cotizados vs top ganados
+========================= */
+export async function getProductosVentas(req: Request, res: Response) {
+  try {
+    const { top, ...filtro } = productosSchema.parse(req.query);
+    return res.json({ filtro, ...(await productosVentas(filtro, top)) });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error calculando productos cotizados / ganados");
+  }
+}
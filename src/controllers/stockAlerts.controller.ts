@@ -1,9 +1,30 @@
 import type { Request, Response } from "express";
 import { prisma } from "../lib/prisma";
 import { z } from "zod";
+import { despacharEnSegundoPlano, despacharEntregasPendientes } from "../services/stockAlertNotify.service";
+import { publicarEvento } from "../lib/eventBus";
+import { barrerStockCritico, cerrarAlertaData } from "../services/stockCritical.service";
+import { metricasStockAlerts, whereStockAlerts } from "../services/stockAlertStats.service";
 
 const statusSchema = z.enum(["OPEN", "ACK", "RESOLVED"]);
 
+const filtroQuerySchema = z.object({
+  productoId: z.string().uuid("productoId inválido").optional(),
+  ubicacion: z.string().trim().min(1).optional(),
+  status: statusSchema.optional(),
+  from: z.coerce.date({ message: "from inválido" }).optional(),
+  to: z.coerce.date({ message: "to inválido" }).optional(),
+});
+
+const historyQuerySchema = filtroQuerySchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const metricsQuerySchema = filtroQuerySchema.extend({
+  top: z.coerce.number().int().min(1).max(100).default(10),
+});
+
 function isPrismaKnownError(e: unknown): e is { code?: string } {
   return !!e && typeof e === "object" && "code" in e;
 }
@@ -64,6 +85,8 @@ export async function ackStockAlert(req: Request, res: Response) {
       data: { status: "ACK", ackAt: new Date() },
     });
 
+    publicarEvento("stockAlert.ack", { alertId: updated.id, inventarioId: updated.inventarioId });
+
     return res.json(updated);
   } catch (e) {
     console.error("ackStockAlert error:", e);
@@ -117,9 +140,11 @@ export async function resolveStockAlert(req: Request, res: Response) {
 
     const updated = await prisma.stockAlert.update({
       where: { id },
-      data: { status: "RESOLVED", resolvedAt: new Date() },
+      data: cerrarAlertaData(),
     });
 
+    publicarEvento("stockAlert.resolved", { alertId: updated.id, inventarioId: updated.inventarioId, manual: true });
+
     return res.json(updated);
   } catch (e) {
     console.error("resolveStockAlert error:", e);
@@ -131,3 +156,127 @@ export async function resolveStockAlert(req: Request, res: Response) {
     return res.status(500).json({ error: "Error al resolver alerta" });
   }
 }
+
+/**
+ * GET /api/stock-alerts/:id/deliveries
+ * - Intentos de envío por canal (email / webhook / outbox) de la alerta
+ */
+export async function listStockAlertDeliveries(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const alert = await prisma.stockAlert.findUnique({ where: { id }, select: { id: true, channel: true } });
+    if (!alert) return res.status(404).json({ error: "Alerta no encontrada" });
+
+    const deliveries = await prisma.stockAlertDelivery.findMany({
+      where: { alertId: id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json({ alertId: alert.id, channel: alert.channel, deliveries });
+  } catch (e) {
+    console.error("listStockAlertDeliveries error:", e);
+    return res.status(500).json({ error: "Error al listar envíos de la alerta" });
+  }
+}
+
+/**
+ * POST /api/stock-alerts/dispatch
+ * - Despacha ahora las entregas pendientes (lo mismo que hace el job)
+ */
+export async function dispatchStockAlerts(_req: Request, res: Response) {
+  try {
+    const result = await despacharEntregasPendientes();
+    return res.json(result);
+  } catch (e) {
+    console.error("dispatchStockAlerts error:", e);
+    return res.status(500).json({ error: "Error al despachar notificaciones" });
+  }
+}
+
+/**
+ * POST /api/stock-alerts/sweep
+ * - Re-evalúa todos los inventarios ahora (lo mismo que hace el job) y devuelve el resumen
+ */
+export async function sweepStockAlerts(_req: Request, res: Response) {
+  try {
+    const result = await barrerStockCritico();
+    despacharEnSegundoPlano();
+    return res.json(result);
+  } catch (e) {
+    console.error("sweepStockAlerts error:", e);
+    return res.status(500).json({ error: "Error al barrer stock crítico" });
+  }
+}
+
+/**
+ * GET /api/stock-alerts/history?productoId=&ubicacion=&status=&from=&to=&page=&pageSize=
+ * - Todas las alertas (abiertas y cerradas), paginadas; fechas sobre openedAt
+ * - minutosAck / minutosResolucion por fila para no calcularlo en el front
+ */
+export async function historyStockAlerts(req: Request, res: Response) {
+  try {
+    const parsed = historyQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: "Validación", issues: parsed.error.issues });
+
+    const { page, pageSize, ...filtro } = parsed.data;
+    const where = whereStockAlerts(filtro);
+
+    const [total, rows] = await Promise.all([
+      prisma.stockAlert.count({ where }),
+      prisma.stockAlert.findMany({
+        where,
+        orderBy: { openedAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          inventario: {
+            select: {
+              id: true,
+              codigo: true,
+              ubicacion: true,
+              minimo: true,
+              producto: { select: { id: true, sku: true, nombre: true } },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const mins = (a: Date, b: Date | null) => (b ? Math.round((b.getTime() - a.getTime()) / 60000) : null);
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      data: rows.map((a) => ({
+        ...a,
+        minutosAck: mins(a.openedAt, a.ackAt),
+        minutosResolucion: mins(a.openedAt, a.resolvedAt),
+      })),
+    });
+  } catch (e) {
+    console.error("historyStockAlerts error:", e);
+    return res.status(500).json({ error: "Error al listar historial de alertas" });
+  }
+}
+
+/**
+ * GET /api/stock-alerts/metrics?productoId=&ubicacion=&from=&to=&top=
+ * - Tiempos a ACK / resolución, alertas por producto y mes, productos más frecuentes en crítico
+ */
+export async function metricsStockAlerts(req: Request, res: Response) {
+  try {
+    const parsed = metricsQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: "Validación", issues: parsed.error.issues });
+
+    const { top, ...filtro } = parsed.data;
+    const metricas = await metricasStockAlerts(filtro, top);
+
+    return res.json({ filtro, ...metricas });
+  } catch (e) {
+    console.error("metricsStockAlerts error:", e);
+    return res.status(500).json({ error: "Error al calcular métricas de alertas" });
+  }
+}
@@ -0,0 +1,252 @@
+// src/controllers/stockCriticalRules.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Prisma, ProductoTipo, type StockCriticalRule } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { transaccionConEventos } from "../lib/eventBus";
+import { handleError } from "../utils/http";
+import { despacharEnSegundoPlano, destinatariosStockAlert } from "../services/stockAlertNotify.service";
+import { DEFAULT_COOLDOWN_MINUTES, evaluateStockCriticalTx } from "../services/stockCritical.service";
+
+// Manual test (curl):
+// curl http://localhost:3000/api/inventario/<id>/critical-rule -H "Authorization: Bearer <token>"
+// curl -X PUT http://localhost:3000/api/inventario/<id>/critical-rule -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"thresholdOverride":10,"cooldownMinutes":120,"notifyEmails":["bodega@covasa.cl"]}'
+// curl -X POST http://localhost:3000/api/inventario/critical-rules/bulk -H "Authorization: Bearer <token>" \
+//   -H "Content-Type: application/json" -d '{"ubicacion":"Bodega Norte","regla":{"thresholdOverride":5}}'
+// curl "http://localhost:3000/api/inventario/critical-rules/dry-run?threshold=8&tipo=Producto" -H "Authorization: Bearer <token>"
+
+/* =========================
+   Schemas
+========================= */
+
+const reglaSchema = z.object({
+  enabled: z.boolean().optional(),
+  // null = volver a usar Inventario.minimo
+  thresholdOverride: z.coerce.number().int().min(0, "thresholdOverride debe ser ≥ 0").nullable().optional(),
+  cooldownMinutes: z.coerce.number().int().min(1, "cooldownMinutes debe ser ≥ 1").optional(),
+  notifyEmails: z
+    .array(
+      z
+        .string()
+        .trim()
+        .email("email inválido")
+        .transform((v) => v.toLowerCase()),
+    )
+    .optional(),
+  notifyWebhookUrl: z.string().trim().url("notifyWebhookUrl inválida").nullable().optional(),
+});
+
+const filtroSchema = z.object({
+  tipo: z.nativeEnum(ProductoTipo).optional(),
+  ubicacion: z.string().trim().min(1).optional(),
+});
+
+const bulkSchema = filtroSchema
+  .extend({ regla: reglaSchema })
+  .refine((b) => !!b.tipo || !!b.ubicacion, {
+    path: ["tipo"],
+    message: "Debes filtrar por tipo y/o ubicacion",
+  });
+
+const dryRunQuerySchema = filtroSchema.extend({
+  threshold: z.coerce.number().int().min(0, "threshold debe ser ≥ 0"),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+function whereFiltro(f: z.infer<typeof filtroSchema>): Prisma.InventarioWhereInput {
+  return {
+    producto: f.tipo ? { tipo: f.tipo } : undefined,
+    ubicacion: f.ubicacion ? { equals: f.ubicacion, mode: "insensitive" } : undefined,
+  };
+}
+
+/** Lo que realmente usa evaluateStockCriticalTx para este inventario. */
+function reglaEfectiva(inv: { minimo: number }, rule: StockCriticalRule | null) {
+  return {
+    enabled: rule?.enabled ?? true,
+    threshold: rule?.thresholdOverride ?? inv.minimo ?? 0,
+    fuenteThreshold: rule?.thresholdOverride != null ? "regla" : "minimo",
+    cooldownMinutes: rule?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    destinos: destinatariosStockAlert(rule),
+  };
+}
+
+/* =========================
+   GET /inventario/:id/critical-rule
+   - rule: null si el inventario usa los defaults
+========================= */
+export async function getCriticalRule(req: Request, res: Response) {
+  try {
+    const inv = await prisma.inventario.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, stock: true, minimo: true, criticalRule: true },
+    });
+    if (!inv) return res.status(404).json({ message: "Inventario no encontrado" });
+
+    return res.json({
+      inventarioId: inv.id,
+      stock: inv.stock,
+      rule: inv.criticalRule,
+      efectiva: reglaEfectiva(inv, inv.criticalRule),
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo regla de stock crítico");
+  }
+}
+
+/* =========================
+   PUT /inventario/:id/critical-rule
+   - crea o actualiza; campos omitidos quedan como estaban (o con su default al crear)
+   - re-evalúa el stock crítico con la regla nueva
+========================= */
+export async function upsertCriticalRule(req: Request, res: Response) {
+  try {
+    const body = reglaSchema.parse(req.body ?? {});
+    const inventarioId = req.params.id;
+
+    const inv = await prisma.inventario.findUnique({ where: { id: inventarioId }, select: { id: true } });
+    if (!inv) return res.status(404).json({ message: "Inventario no encontrado" });
+
+    const { rule, stockCritical } = await transaccionConEventos(async (tx) => {
+      const rule = await tx.stockCriticalRule.upsert({
+        where: { inventarioId },
+        create: { inventarioId, ...body },
+        update: body,
+      });
+      const stockCritical = await evaluateStockCriticalTx(tx, inventarioId);
+      return { rule, stockCritical };
+    });
+
+    despacharEnSegundoPlano();
+    return res.json({ rule, stockCritical });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error guardando regla de stock crítico");
+  }
+}
+
+/* =========================
+   DELETE /inventario/:id/critical-rule
+   - vuelve a los defaults (Inventario.minimo, cooldown 360, destinatarios globales)
+========================= */
+export async function deleteCriticalRule(req: Request, res: Response) {
+  try {
+    const inventarioId = req.params.id;
+
+    const stockCritical = await transaccionConEventos(async (tx) => {
+      const { count } = await tx.stockCriticalRule.deleteMany({ where: { inventarioId } });
+      if (count === 0) return null;
+      return evaluateStockCriticalTx(tx, inventarioId);
+    });
+
+    if (!stockCritical) return res.status(404).json({ message: "El inventario no tiene regla" });
+
+    despacharEnSegundoPlano();
+    return res.json({ deleted: true, stockCritical });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error eliminando regla de stock crítico");
+  }
+}
+
+/* =========================
+   POST /inventario/critical-rules/bulk
+   - body: { tipo?, ubicacion?, regla: {...} } → upsert de la regla en todos los inventarios que calzan
+   - cada inventario en su propia tx (un error no bota el lote completo)
+========================= */
+export async function bulkApplyCriticalRules(req: Request, res: Response) {
+  try {
+    const { regla, ...filtro } = bulkSchema.parse(req.body ?? {});
+
+    const inventarios = await prisma.inventario.findMany({
+      where: whereFiltro(filtro),
+      select: { id: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const resultados = { total: inventarios.length, aplicadas: 0, alertas: { created: 0, resent: 0, resolved: 0 } };
+    const errores: Array<{ inventarioId: string; error: string }> = [];
+
+    for (const { id: inventarioId } of inventarios) {
+      try {
+        const stockCritical = await transaccionConEventos(async (tx) => {
+          await tx.stockCriticalRule.upsert({
+            where: { inventarioId },
+            create: { inventarioId, ...regla },
+            update: regla,
+          });
+          return evaluateStockCriticalTx(tx, inventarioId);
+        });
+
+        resultados.aplicadas++;
+        const action = stockCritical.action as keyof typeof resultados.alertas;
+        if (action in resultados.alertas) resultados.alertas[action]++;
+      } catch (e: unknown) {
+        errores.push({ inventarioId, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    despacharEnSegundoPlano();
+    return res.json({ ...resultados, errores });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error aplicando reglas de stock crítico");
+  }
+}
+
+/* =========================
+   GET /inventario/critical-rules/dry-run?threshold=&tipo=&ubicacion=
+   - no escribe nada: compara el threshold vigente de cada inventario con el propuesto
+========================= */
+export async function dryRunCriticalRules(req: Request, res: Response) {
+  try {
+    const parsed = dryRunQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", issues: parsed.error.issues });
+    }
+    const { threshold, ...filtro } = parsed.data;
+
+    const rows = await prisma.inventario.findMany({
+      where: whereFiltro(filtro),
+      select: {
+        id: true,
+        stock: true,
+        minimo: true,
+        ubicacion: true,
+        criticalRule: true,
+        producto: { select: { id: true, sku: true, nombre: true, tipo: true } },
+      },
+      orderBy: { stock: "asc" },
+    });
+
+    const data = rows.map((inv) => {
+      const actual = reglaEfectiva(inv, inv.criticalRule);
+      const criticoActual = actual.enabled && inv.stock <= actual.threshold;
+      const criticoPropuesto = inv.stock <= threshold;
+
+      return {
+        inventarioId: inv.id,
+        producto: inv.producto,
+        ubicacion: inv.ubicacion,
+        stock: inv.stock,
+        thresholdActual: actual.threshold,
+        reglaHabilitada: actual.enabled,
+        criticoActual,
+        criticoPropuesto,
+        cambio: criticoPropuesto === criticoActual ? "sin_cambio" : criticoPropuesto ? "se_vuelve_critico" : "deja_de_ser_critico",
+      };
+    });
+
+    return res.json({
+      threshold,
+      total: data.length,
+      criticos: data.filter((d) => d.criticoPropuesto).length,
+      seVuelvenCriticos: data.filter((d) => d.cambio === "se_vuelve_critico").length,
+      dejanDeSerCriticos: data.filter((d) => d.cambio === "deja_de_ser_critico").length,
+      data: data.filter((d) => d.criticoPropuesto || d.criticoActual),
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error simulando reglas de stock crítico");
+  }
+}
@@ -0,0 +1,146 @@
+// src/controllers/tiposCambio.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { handleError } from "../utils/http";
+import { leerPrimeraHoja } from "../utils/excel";
+import {
+  MONEDAS_CONVERTIBLES,
+  guardarTipoCambio,
+  importarTiposCambio,
+  soloFecha,
+  tasasAl,
+} from "../services/tiposCambio.service";
+
+// Manual test (curl):
+// curl -X PUT http://localhost:3000/api/tipos-cambio -H "Authorization: Bearer <token>" -H "Content-Type: application/json" \
+//   -d '{"moneda":"USD","fecha":"2026-03-02","valorClp":948.37}'
+// curl "http://localhost:3000/api/tipos-cambio/vigentes?fecha=2026-03-02" -H "Authorization: Bearer <token>"
+// curl -X POST http://localhost:3000/api/tipos-cambio/import-excel -H "Authorization: Bearer <token>" -F "file=@dolar.xlsx"
+
+/* =========================
+   Schemas
+========================= */
+
+const upsertSchema = z.object({
+  moneda: z.string().trim().toUpperCase().pipe(z.enum(MONEDAS_CONVERTIBLES)),
+  fecha: z.coerce.date(),
+  valorClp: z.coerce.number().positive("valorClp debe ser > 0"),
+  fuente: z.string().trim().optional().nullable(),
+});
+
+const listQuerySchema = z.object({
+  moneda: z.string().trim().toUpperCase().pipe(z.enum(MONEDAS_CONVERTIBLES)).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const fechaQuerySchema = z.object({ fecha: z.coerce.date().optional() });
+
+/* =========================
+   GET /tipos-cambio
+========================= */
+export async function listTiposCambio(req: Request, res: Response) {
+  try {
+    const { moneda, from, to, page, pageSize } = listQuerySchema.parse(req.query);
+
+    const where: Prisma.TipoCambioWhereInput = {
+      moneda,
+      fecha: from || to ? { gte: from ? soloFecha(from) : undefined, lte: to ? soloFecha(to) : undefined } : undefined,
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.tipoCambio.count({ where }),
+      prisma.tipoCambio.findMany({
+        where,
+        orderBy: [{ fecha: "desc" }, { moneda: "asc" }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return res.json({
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      data: rows,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando tipos de cambio");
+  }
+}
+
+/* =========================
+   GET /tipos-cambio/vigentes?fecha=
+   - valor usado para convertir a esa fecha (por defecto hoy)
+========================= */
+export async function getTiposCambioVigentes(req: Request, res: Response) {
+  try {
+    const { fecha } = fechaQuerySchema.parse(req.query);
+    const al = fecha ?? new Date();
+    const tasas = await tasasAl(al);
+
+    return res.json({
+      fecha: soloFecha(al),
+      data: MONEDAS_CONVERTIBLES.map((moneda) => tasas.get(moneda) ?? { moneda, valorClp: null, fecha: null }),
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo tipos de cambio");
+  }
+}
+
+/* =========================
+   PUT /tipos-cambio  (upsert por moneda + fecha)
+========================= */
+export async function upsertTipoCambio(req: Request, res: Response) {
+  try {
+    const body = upsertSchema.parse(req.body ?? {});
+    const row = await guardarTipoCambio(body);
+    return res.json(row);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error guardando tipo de cambio");
+  }
+}
+
+/* =========================
+   DELETE /tipos-cambio/:id
+========================= */
+export async function deleteTipoCambio(req: Request, res: Response) {
+  try {
+    await prisma.tipoCambio.delete({ where: { id: req.params.id } });
+    return res.status(204).send();
+  } catch (e: unknown) {
+    return handleError(res, e, "Error eliminando tipo de cambio");
+  }
+}
+
+/* =========================
+   POST /tipos-cambio/import-excel
+   - field "file"; columnas fecha + moneda + valor, o fecha + usd / eur / uf
+========================= */
+export async function importTiposCambioExcel(req: Request, res: Response) {
+  if (!req.file) {
+    return res.status(400).json({ message: "Debes subir un archivo Excel en el campo 'file'." });
+  }
+
+  try {
+    const hoja = leerPrimeraHoja(req.file.buffer);
+    if ("error" in hoja) return res.status(400).json({ message: hoja.error });
+
+    const result = await importarTiposCambio(hoja.rows, req.file.originalname);
+    return res.json({
+      ok: result.filasError === 0,
+      message:
+        result.filasError === 0
+          ? "Importación completa."
+          : `Importación completada con ${result.filasError} error(es).`,
+      ...result,
+    });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error importando tipos de cambio");
+  }
+}
@@ -0,0 +1,159 @@
+// src/controllers/usuarios.controller.ts
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { hashPassword } from "../lib/password";
+import { PERMISOS_POR_ROL } from "../lib/permisos";
+import { handleError } from "../utils/http";
+import type { AuthStaff } from "../middlewares/auth";
+
+// Manual test (curl):
+// curl -X POST http://localhost:3000/api/usuarios -H "Authorization: Bearer <admin>" -H "Content-Type: application/json" \
+//   -d '{"nombre":"Bodega 1","email":"bodega@covasa.cl","password":"secreto123","rol":"BODEGA"}'
+// curl http://localhost:3000/api/usuarios/vendedores -H "Authorization: Bearer <token>"
+
+/* =========================
+   Schemas
+========================= */
+
+const ROLES = ["ADMIN", "VENTAS", "BODEGA", "SOLO_LECTURA"] as const;
+
+const createUsuarioSchema = z.object({
+  nombre: z.string().trim().min(1, "nombre es obligatorio"),
+  email: z
+    .string()
+    .trim()
+    .email("email inválido")
+    .transform((v) => v.toLowerCase()),
+  password: z.string().min(8, "password debe tener al menos 8 caracteres").max(200),
+  rol: z.enum(ROLES).default("SOLO_LECTURA"),
+});
+
+const updateUsuarioSchema = createUsuarioSchema.omit({ rol: true }).partial().extend({
+  rol: z.enum(ROLES).optional(),
+  activo: z.boolean().optional(),
+});
+
+const listQuerySchema = z.object({
+  q: z.string().optional(),
+  rol: z.enum(ROLES).optional(),
+  activo: z.enum(["true", "false"]).optional(),
+});
+
+/* =========================
+   Helpers
+========================= */
+
+const usuarioSelect = {
+  id: true,
+  nombre: true,
+  email: true,
+  rol: true,
+  activo: true,
+  ultimoLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/* =========================
+   GET /usuarios
+========================= */
+export async function listUsuarios(req: Request, res: Response) {
+  try {
+    const { q, rol, activo } = listQuerySchema.parse(req.query);
+    const trimmedQ = q?.trim();
+
+    const data = await prisma.usuario.findMany({
+      where: {
+        rol: rol ?? undefined,
+        activo: activo === undefined ? undefined : activo === "true",
+        OR: trimmedQ
+          ? [
+              { nombre: { contains: trimmedQ, mode: "insensitive" as const } },
+              { email: { contains: trimmedQ, mode: "insensitive" as const } },
+            ]
+          : undefined,
+      },
+      orderBy: { nombre: "asc" },
+      select: usuarioSelect,
+    });
+
+    return res.json(data);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando usuarios");
+  }
+}
+
+/* =========================
+   GET /usuarios/vendedores
+   - para selects de vendedor en clientes / CRM
+========================= */
+export async function listVendedores(_req: Request, res: Response) {
+  try {
+    const data = await prisma.usuario.findMany({
+      where: { activo: true, rol: { in: ["VENTAS", "ADMIN"] } },
+      orderBy: { nombre: "asc" },
+      select: { id: true, nombre: true, email: true },
+    });
+    return res.json(data);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error listando vendedores");
+  }
+}
+
+/* =========================
+   GET /usuarios/:id
+========================= */
+export async function getUsuarioById(req: Request, res: Response) {
+  try {
+    const usuario = await prisma.usuario.findUnique({ where: { id: req.params.id }, select: usuarioSelect });
+    if (!usuario) return res.status(404).json({ message: "Usuario no encontrado" });
+    return res.json({ ...usuario, permisos: PERMISOS_POR_ROL[usuario.rol] });
+  } catch (e: unknown) {
+    return handleError(res, e, "Error obteniendo usuario");
+  }
+}
+
+/* =========================
+   POST /usuarios
+========================= */
+export async function createUsuario(req: Request, res: Response) {
+  try {
+    const { password, ...body } = createUsuarioSchema.parse(req.body ?? {});
+
+    const created = await prisma.usuario.create({
+      data: { ...body, passwordHash: await hashPassword(password) },
+      select: usuarioSelect,
+    });
+
+    return res.status(201).json(created);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error creando usuario");
+  }
+}
+
+/* =========================
+   PATCH /usuarios/:id
+   - password opcional (reset por admin)
+========================= */
+export async function updateUsuario(req: Request, res: Response) {
+  try {
+    const { password, ...body } = updateUsuarioSchema.parse(req.body ?? {});
+
+    // que un admin no se quite el acceso a sí mismo por error
+    const self = (req.auth as AuthStaff).usuarioId === req.params.id;
+    if (self && (body.activo === false || (body.rol && body.rol !== "ADMIN"))) {
+      return res.status(400).json({ message: "No puedes desactivarte ni quitarte el rol ADMIN" });
+    }
+
+    const updated = await prisma.usuario.update({
+      where: { id: req.params.id },
+      data: { ...body, ...(password ? { passwordHash: await hashPassword(password) } : {}) },
+      select: usuarioSelect,
+    });
+
+    return res.json(updated);
+  } catch (e: unknown) {
+    return handleError(res, e, "Error actualizando usuario");
+  }
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../lib/prisma";
+import { totalesCarrito } from "../services/carritos.service";
+
+/**
+ * Marca como ABANDONADO los carritos ACTIVO sin actividad (updatedAt) en la ventana configurada
+ * y deja una notificación CARRITO_ABANDONADO por cada uno que tenga productos (para que ventas llame).
+ *
+ * Env:
+ * - CARRITO_ABANDONO_HORAS (default 48)
+ * - CARRITO_ABANDONO_INTERVALO_MIN (default 60)
+ * - CARRITO_ABANDONO_JOB=off para no levantar el job
+ */
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+export function getVentanaAbandonoHoras() {
+  return envInt("CARRITO_ABANDONO_HORAS", 48);
+}
+
+export async function detectarCarritosAbandonados(now = new Date()) {
+  const limite = new Date(now.getTime() - getVentanaAbandonoHoras() * 60 * 60 * 1000);
+
+  const candidatos = await prisma.ecommerce_carrito.findMany({
+    where: { estado: "ACTIVO", updatedAt: { lt: limite } },
+    include: {
+      ecommerce_carrito_item: { select: { cantidad: true, subtotalNetoSnapshot: true, ivaMontoSnapshot: true } },
+      ecommerce_cliente: { select: { nombre: true, apellidos: true, email: true, telefono: true } },
+    },
+  });
+
+  let notificados = 0;
+
+  for (const c of candidatos) {
+    const totales = totalesCarrito(c.ecommerce_carrito_item);
+
+    await prisma.$transaction(async (tx) => {
+      // condición en el where: si el cliente lo tocó entre medio, no se marca
+      const marcado = await tx.ecommerce_carrito.updateMany({
+        where: { id: c.id, estado: "ACTIVO", updatedAt: { lt: limite } },
+        data: { estado: "ABANDONADO" },
+      });
+      if (marcado.count === 0 || totales.itemsCount === 0) return;
+
+      const cliente = c.ecommerce_cliente
+        ? [c.ecommerce_cliente.nombre, c.ecommerce_cliente.apellidos].filter(Boolean).join(" ")
+        : "Cliente anónimo";
+      const contacto = [c.ecommerce_cliente?.email, c.ecommerce_cliente?.telefono].filter(Boolean).join(" / ");
+
+      await tx.ecommerce_notificacion.create({
+        data: {
+          id: randomUUID(),
+          tipo: "CARRITO_ABANDONADO",
+          referenciaTabla: "ecommerce_carrito",
+          referenciaId: c.id,
+          titulo: `Carrito abandonado: ${cliente}`,
+          detalle: `${totales.unidades} unidad(es), total $${totales.total}${contacto ? `. Contacto: ${contacto}` : ""}.`,
+          leido: false,
+        },
+      });
+      notificados++;
+    });
+  }
+
+  return { revisados: candidatos.length, notificados, limite };
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startCarritosAbandonadosJob() {
+  if (String(process.env.CARRITO_ABANDONO_JOB ?? "").toLowerCase() === "off") return;
+  if (timer) return;
+
+  const everyMs = envInt("CARRITO_ABANDONO_INTERVALO_MIN", 60) * 60 * 1000;
+
+  const run = () =>
+    detectarCarritosAbandonados()
+      .then((r) => {
+        if (r.revisados > 0) console.log("[job] carritos abandonados:", r);
+      })
+      .catch((e) => console.error("[job] carritos abandonados error:", e));
+
+  timer = setInterval(run, everyMs);
+  timer.unref();
+  // primera pasada al arrancar: sin esto nada se marca hasta un intervalo completo tras cada reinicio
+  run();
+}
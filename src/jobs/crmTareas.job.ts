@@ -0,0 +1,36 @@
+import { notificarTareasVencidas } from "../services/crmSeguimiento.service";
+
+/**
+ * Revisa tareas CRM pendientes con venceAt pasado y deja una notificación CRM_TAREA_VENCIDA
+ * por tarea (una sola vez; si se reprograma y vuelve a vencer, se avisa de nuevo).
+ *
+ * Env:
+ * - CRM_RECORDATORIOS_INTERVALO_MIN (default 15)
+ * - CRM_RECORDATORIOS_JOB=off para no levantar el job
+ */
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startCrmTareasJob() {
+  if (String(process.env.CRM_RECORDATORIOS_JOB ?? "").toLowerCase() === "off") return;
+  if (timer) return;
+
+  const everyMs = envInt("CRM_RECORDATORIOS_INTERVALO_MIN", 15) * 60 * 1000;
+
+  const run = () =>
+    notificarTareasVencidas()
+      .then((r) => {
+        if (r.notificadas > 0) console.log("[job] tareas CRM vencidas:", r);
+      })
+      .catch((e) => console.error("[job] tareas CRM vencidas error:", e));
+
+  timer = setInterval(run, everyMs);
+  timer.unref();
+  // al arrancar también, para no esperar un intervalo completo
+  run();
+}
@@ -0,0 +1,36 @@
+import { despacharEntregasPendientes } from "../services/stockAlertNotify.service";
+
+/**
+ * Reintenta las entregas de alertas (email/webhook/outbox) que quedaron PENDIENTE:
+ * las que fallaron (con backoff) y las que no alcanzaron a salir tras el commit.
+ *
+ * Env:
+ * - NOTIFY_DISPATCH_INTERVAL_SEC (default 60)
+ * - NOTIFY_DISPATCH_JOB=off para no levantar el job
+ */
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startNotificacionesJob() {
+  if (String(process.env.NOTIFY_DISPATCH_JOB ?? "").toLowerCase() === "off") return;
+  if (timer) return;
+
+  const everyMs = envInt("NOTIFY_DISPATCH_INTERVAL_SEC", 60) * 1000;
+
+  const run = () =>
+    despacharEntregasPendientes()
+      .then((r) => {
+        if (r.revisadas > 0) console.log("[job] notificaciones:", r);
+      })
+      .catch((e) => console.error("[job] notificaciones error:", e));
+
+  timer = setInterval(run, everyMs);
+  timer.unref();
+  // despacha lo pendiente del arranque sin esperar el primer intervalo
+  run();
+}
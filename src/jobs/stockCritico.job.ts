@@ -0,0 +1,47 @@
+import { barrerStockCritico } from "../services/stockCritical.service";
+import { despacharEnSegundoPlano } from "../services/stockAlertNotify.service";
+
+/**
+ * Barrido periódico de stock crítico: re-evalúa todos los inventarios para que los
+ * recordatorios por cooldown salgan aunque nadie toque el stock, y cierra alertas colgadas.
+ *
+ * Env:
+ * - STOCK_SWEEP_INTERVAL_MIN (default 30)
+ * - STOCK_SWEEP_JOB=off para no levantar el job
+ */
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startStockCriticoJob() {
+  if (String(process.env.STOCK_SWEEP_JOB ?? "").toLowerCase() === "off") return;
+  if (timer) return;
+
+  const everyMs = envInt("STOCK_SWEEP_INTERVAL_MIN", 30) * 60 * 1000;
+
+  const run = () => {
+    // un barrido largo no se pisa con el siguiente tick
+    if (running) return;
+    running = true;
+
+    barrerStockCritico()
+      .then((r) => {
+        despacharEnSegundoPlano();
+        if (r.created + r.resent + r.resolved + r.errores.length > 0) console.log("[job] stock crítico:", r);
+      })
+      .catch((e) => console.error("[job] stock crítico error:", e))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  timer = setInterval(run, everyMs);
+  timer.unref();
+  // barrido inicial al arrancar
+  run();
+}
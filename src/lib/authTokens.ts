@@ -0,0 +1,88 @@
+// src/lib/authTokens.ts
+import { createHash } from "crypto";
+import jwt, { type SignOptions } from "jsonwebtoken";
+
+export type AccessTokenClaims = {
+  sub: string; // ecommerce_usuario.id
+  cid: string | null; // ecommerce_cliente.id
+  sid: string; // ecommerce_sesion.id
+  typ: "cliente";
+};
+
+export type StaffTokenClaims = {
+  sub: string; // Usuario.id (backoffice)
+  typ: "staff";
+};
+
+type RefreshTokenClaims = {
+  sub: string;
+  sid: string;
+  typ: "refresh";
+};
+
+function getSecret() {
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (!secret) throw new Error("AUTH_JWT_SECRET no está configurado");
+  return secret;
+}
+
+export function getAccessTtl() {
+  return (process.env.AUTH_ACCESS_TTL || "15m") as SignOptions["expiresIn"];
+}
+
+export function getRefreshTtlDays() {
+  const n = Number(process.env.AUTH_REFRESH_TTL_DAYS);
+  return Number.isFinite(n) && n > 0 ? n : 30;
+}
+
+export function getStaffTtl() {
+  return (process.env.AUTH_STAFF_TTL || "8h") as SignOptions["expiresIn"];
+}
+
+export function signAccessToken(claims: AccessTokenClaims) {
+  return jwt.sign(claims, getSecret(), { expiresIn: getAccessTtl() });
+}
+
+export function signRefreshToken(claims: Omit<RefreshTokenClaims, "typ">) {
+  return jwt.sign({ ...claims, typ: "refresh" }, getSecret(), { expiresIn: `${getRefreshTtlDays()}d` });
+}
+
+/** null si la firma/expiración no es válida o no es un access token */
+export function verifyAccessToken(token: string): AccessTokenClaims | null {
+  try {
+    const p = jwt.verify(token, getSecret()) as Partial<AccessTokenClaims>;
+    if (p.typ !== "cliente" || !p.sub || !p.sid) return null;
+    return { sub: p.sub, cid: p.cid ?? null, sid: p.sid, typ: p.typ };
+  } catch {
+    return null;
+  }
+}
+
+export function signStaffToken(usuarioId: string) {
+  return jwt.sign({ sub: usuarioId, typ: "staff" }, getSecret(), { expiresIn: getStaffTtl() });
+}
+
+export function verifyStaffToken(token: string): StaffTokenClaims | null {
+  try {
+    const p = jwt.verify(token, getSecret()) as Partial<StaffTokenClaims>;
+    if (p.typ !== "staff" || !p.sub) return null;
+    return { sub: p.sub, typ: p.typ };
+  } catch {
+    return null;
+  }
+}
+
+export function verifyRefreshToken(token: string): RefreshTokenClaims | null {
+  try {
+    const p = jwt.verify(token, getSecret()) as Partial<RefreshTokenClaims>;
+    if (p.typ !== "refresh" || !p.sub || !p.sid) return null;
+    return { sub: p.sub, sid: p.sid, typ: p.typ };
+  } catch {
+    return null;
+  }
+}
+
+/** En BD solo se guarda el hash del refresh token. */
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
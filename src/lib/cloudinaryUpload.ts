@@ -6,21 +6,26 @@ type UploadResult = { secure_url: string; public_id: string };
 
 export async function uploadBufferToCloudinary(
   buffer: Buffer,
-  opts?: { folder?: string; public_id?: string }
+  opts?: { folder?: string; public_id?: string; resource_type?: "image" | "raw" }
 ): Promise<UploadResult> {
-  // ✅ Optimización previa (ahorro real)
-  const optimized = await sharp(buffer)
-    .rotate() // respeta EXIF
-    .resize(1200, 1200, { fit: "inside", withoutEnlargement: true })
-    .webp({ quality: 70 }) // 60-75 suele ser buen balance
-    .toBuffer();
+  const resourceType = opts?.resource_type ?? "image";
+
+  // ✅ Optimización previa (ahorro real); "raw" (PDF, etc.) se sube tal cual
+  const optimized =
+    resourceType === "raw"
+      ? buffer
+      : await sharp(buffer)
+          .rotate() // respeta EXIF
+          .resize(1200, 1200, { fit: "inside", withoutEnlargement: true })
+          .webp({ quality: 70 }) // 60-75 suele ser buen balance
+          .toBuffer();
 
   return new Promise((resolve, reject) => {
     const stream = cloudinary.uploader.upload_stream(
       {
         folder: opts?.folder,
         public_id: opts?.public_id,
-        resource_type: "image",
+        resource_type: resourceType,
         // Como ya subimos WEBP optimizado, no hace falta transformation pesada.
         // (si la quieres dejar, ok, pero acá ya ahorras de verdad)
       },
@@ -34,11 +39,11 @@ export async function uploadBufferToCloudinary(
   });
 }
 
-export async function deleteFromCloudinary(public_id: string) {
+export async function deleteFromCloudinary(public_id: string, opts?: { resource_type?: "image" | "raw" }) {
   if (!public_id) return null;
 
   const r = await cloudinary.uploader.destroy(public_id, {
-    resource_type: "image",
+    resource_type: opts?.resource_type ?? "image",
     invalidate: true, // ✅ limpia cache CDN (opcional pero útil)
   });
 
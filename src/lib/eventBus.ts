@@ -0,0 +1,110 @@
+// src/lib/eventBus.ts
+import { EventEmitter } from "events";
+import { Prisma, type UsuarioRol } from "@prisma/client";
+import { prisma } from "./prisma";
+import { tienePermiso, type Permiso } from "./permisos";
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Quién puede ver el evento:
+ * - staff con `permiso` (default lectura)
+ * - el cliente ecommerce dueño (`ecommerceClienteId`), si viene
+ */
+export type EventoAudiencia = { permiso?: Permiso; ecommerceClienteId?: string | null };
+
+export type Evento = {
+  id: string;
+  tipo: string;
+  data: Record<string, unknown>;
+  audiencia: EventoAudiencia;
+  createdAt: string;
+};
+
+type Lector = { typ: "cliente"; clienteId: string } | { typ: "staff"; rol: UsuarioRol };
+
+/* =========================
+   Bus en memoria + ring buffer para Last-Event-ID
+   - ids "<boot>-<seq>": un id de otro arranque del proceso no se puede reanudar
+   - SSE_BUFFER_SIZE (default 500)
+========================= */
+
+const BOOT = Date.now().toString(36);
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // una conexión SSE = un listener
+
+const buffer: Evento[] = [];
+let seq = 0;
+
+function bufferSize() {
+  const n = Number(process.env.SSE_BUFFER_SIZE);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : 500;
+}
+
+export function publicarEvento(tipo: string, data: Record<string, unknown>, audiencia: EventoAudiencia = {}) {
+  const evento: Evento = { id: `${BOOT}-${++seq}`, tipo, data, audiencia, createdAt: new Date().toISOString() };
+
+  buffer.push(evento);
+  if (buffer.length > bufferSize()) buffer.splice(0, buffer.length - bufferSize());
+
+  emitter.emit("evento", evento);
+  return evento;
+}
+
+export function suscribirEventos(fn: (evento: Evento) => void) {
+  emitter.on("evento", fn);
+  return () => {
+    emitter.off("evento", fn);
+  };
+}
+
+/**
+ * Eventos posteriores a `lastEventId`.
+ * null = no se puede reanudar (otro arranque o ya salió del buffer): el cliente debe recargar su estado.
+ */
+export function eventosDesde(lastEventId: string): Evento[] | null {
+  const [boot, n] = lastEventId.split("-");
+  const desde = Number(n);
+  if (boot !== BOOT || !Number.isInteger(desde)) return null;
+
+  const primero = buffer[0] ? Number(buffer[0].id.split("-")[1]) : seq + 1;
+  if (desde < primero - 1) return null;
+
+  return buffer.filter((e) => Number(e.id.split("-")[1]) > desde);
+}
+
+export function puedeVerEvento(lector: Lector, evento: Evento) {
+  if (lector.typ === "cliente") {
+    return !!evento.audiencia.ecommerceClienteId && evento.audiencia.ecommerceClienteId === lector.clienteId;
+  }
+  return tienePermiso(lector.rol, evento.audiencia.permiso ?? "lectura");
+}
+
+/* =========================
+   Eventos dentro de una tx
+   - se encolan con encolarEventoTx y se publican recién después del commit
+   - si la tx hace rollback no sale nada
+   - encolar en una tx abierta con prisma.$transaction es un error de programación: lanza
+========================= */
+
+const pendientesPorTx = new WeakMap<Tx, Array<Parameters<typeof publicarEvento>>>();
+
+export function encolarEventoTx(tx: Tx, tipo: string, data: Record<string, unknown>, audiencia: EventoAudiencia = {}) {
+  const pendientes = pendientesPorTx.get(tx);
+  // tx abierta sin transaccionConEventos: no hay commit al cual engancharse y el evento se perdería
+  if (!pendientes) throw new Error(`Evento "${tipo}" encolado fuera de transaccionConEventos`);
+  pendientes.push([tipo, data, audiencia]);
+}
+
+/** prisma.$transaction que publica los eventos encolados adentro una vez que hizo commit. */
+export async function transaccionConEventos<T>(fn: (tx: Tx) => Promise<T>) {
+  const pendientes: Array<Parameters<typeof publicarEvento>> = [];
+
+  const result = await prisma.$transaction((tx) => {
+    pendientesPorTx.set(tx, pendientes);
+    return fn(tx);
+  });
+
+  for (const args of pendientes) publicarEvento(...args);
+  return result;
+}
@@ -0,0 +1,108 @@
+// src/lib/mailer.ts
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransport = {
+  nombre: string;
+  send(msg: MailMessage & { from: string }): Promise<{ id: string }>;
+};
+
+/* =========================
+   Transports
+   - MAIL_TRANSPORT=console (default) | file | smtp
+   - en producción MAIL_TRANSPORT es obligatorio (assertMailConfig al arrancar)
+========================= */
+
+function esProduccion() {
+  return process.env.NODE_ENV === "production";
+}
+
+/** token=... de los links (verificación / reset) no debe quedar en logs de producción */
+function redactarTokens(text: string) {
+  return text.replace(/([?&]token=)[^&\s]+/g, "$1[redactado]");
+}
+
+const consoleTransport: MailTransport = {
+  nombre: "console",
+  async send(msg) {
+    const id = randomUUID();
+    const text = esProduccion() ? redactarTokens(msg.text) : msg.text;
+    console.log(
+      [`📧 [mail ${id}]`, `From: ${msg.from}`, `To: ${[msg.to].flat().join(", ")}`, `Subject: ${msg.subject}`, "", text].join("\n"),
+    );
+    return { id };
+  },
+};
+
+/** Escribe cada correo como JSON en MAIL_OUTBOX_DIR (útil en dev y para revisar links de tokens). */
+const fileTransport: MailTransport = {
+  nombre: "file",
+  async send(msg) {
+    const id = randomUUID();
+    const dir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "tmp", "outbox");
+    await mkdir(dir, { recursive: true });
+
+    const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}_${id}.json`);
+    await writeFile(file, JSON.stringify({ id, ...msg, createdAt: new Date().toISOString() }, null, 2), "utf8");
+    return { id };
+  },
+};
+
+/** SMTP_HOST, SMTP_PORT (587), SMTP_SECURE (true = TLS directo, 465), SMTP_USER, SMTP_PASS */
+let smtp: nodemailer.Transporter | null = null;
+
+const smtpTransport: MailTransport = {
+  nombre: "smtp",
+  async send(msg) {
+    if (!smtp) {
+      if (!process.env.SMTP_HOST) throw new Error("SMTP_HOST no está configurado");
+      smtp = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: String(process.env.SMTP_SECURE ?? "").toLowerCase() === "true",
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      });
+    }
+
+    const info = await smtp.sendMail({ from: msg.from, to: msg.to, subject: msg.subject, text: msg.text, html: msg.html });
+    return { id: String(info.messageId) };
+  },
+};
+
+const transports: Record<string, MailTransport> = {};
+
+/** Transports extra (ej: API HTTP de un proveedor) se registran igual, antes de assertMailConfig. */
+export function registerMailTransport(t: MailTransport) {
+  transports[t.nombre.toLowerCase()] = t;
+}
+
+for (const t of [consoleTransport, fileTransport, smtpTransport]) registerMailTransport(t);
+
+/** Llamar al arrancar: en producción sin MAIL_TRANSPORT los correos (con tokens) irían a la consola. */
+export function assertMailConfig() {
+  if (esProduccion() && !process.env.MAIL_TRANSPORT) {
+    throw new Error("MAIL_TRANSPORT es obligatorio en producción (smtp | file | console)");
+  }
+  getMailTransport();
+}
+
+export function getMailTransport() {
+  const nombre = (process.env.MAIL_TRANSPORT || "console").toLowerCase();
+  const t = transports[nombre];
+  if (!t) throw new Error(`MAIL_TRANSPORT desconocido: ${nombre}`);
+  return t;
+}
+
+export async function sendMail(msg: MailMessage) {
+  const from = process.env.MAIL_FROM || "Covasa <no-reply@covasa.cl>";
+  return getMailTransport().send({ ...msg, from });
+}
@@ -0,0 +1,35 @@
+// src/lib/password.ts
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// formato guardado: scrypt$N$r$p$salt$hash (base64url) → se pueden subir parámetros sin romper hashes viejos
+const N = 16384;
+const R = 8;
+const P = 1;
+const KEYLEN = 64;
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, opts: ScryptOptions) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, keylen, opts, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEYLEN, { N, r: R, p: P, maxmem: 64 * 1024 * 1024 });
+  return ["scrypt", N, R, P, salt.toString("base64url"), key.toString("base64url")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [algo, n, r, p, saltB64, hashB64] = stored.split("$");
+  if (algo !== "scrypt" || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64url");
+  const key = await scryptAsync(password, Buffer.from(saltB64, "base64url"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: 64 * 1024 * 1024,
+  });
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,47 @@
+// src/lib/permisos.ts
+import type { UsuarioRol } from "@prisma/client";
+
+export const PERMISOS = [
+  "lectura", // ver backoffice (listados, detalle, reportes)
+  "catalogo:editar", // productos, proveedores, imágenes
+  "precios:editar", // precios de proveedor
+  "clientes:editar",
+  "inventario:editar", // fichas de inventario, mínimos, import Excel
+  "inventario:movimientos", // entradas / salidas / ajustes
+  "alertas:gestionar", // ack / resolve de StockAlert
+  "compras:gestionar", // órdenes de compra a proveedor y recepciones
+  "cotizaciones:gestionar",
+  "crm:gestionar",
+  "carritos:gestionar", // seguimiento de carritos abandonados
+  "pedidos:gestionar", // crear pedidos y moverlos de estado
+  "pagos:gestionar", // registrar / confirmar / rechazar / reembolsar
+  "usuarios:gestionar",
+] as const;
+
+export type Permiso = (typeof PERMISOS)[number];
+
+export const PERMISOS_POR_ROL: Record<UsuarioRol, readonly Permiso[]> = {
+  ADMIN: PERMISOS,
+  VENTAS: [
+    "lectura",
+    "clientes:editar",
+    "cotizaciones:gestionar",
+    "crm:gestionar",
+    "carritos:gestionar",
+    "pedidos:gestionar",
+    "pagos:gestionar",
+  ],
+  BODEGA: [
+    "lectura",
+    "inventario:editar",
+    "inventario:movimientos",
+    "alertas:gestionar",
+    "compras:gestionar",
+    "pedidos:gestionar",
+  ],
+  SOLO_LECTURA: ["lectura"],
+};
+
+export function tienePermiso(rol: UsuarioRol, permiso: Permiso) {
+  return PERMISOS_POR_ROL[rol].includes(permiso);
+}
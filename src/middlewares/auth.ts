@@ -0,0 +1,168 @@
+// src/middlewares/auth.ts
+import type { Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/prisma";
+import { verifyAccessToken, verifyStaffToken } from "../lib/authTokens";
+import { tienePermiso, type Permiso } from "../lib/permisos";
+import { httpError } from "../utils/http";
+import type { UsuarioRol } from "@prisma/client";
+
+export type AuthCliente = {
+  typ: "cliente";
+  usuarioId: string;
+  clienteId: string;
+  sesionId: string;
+};
+
+export type AuthStaff = {
+  typ: "staff";
+  usuarioId: string;
+  nombre: string;
+  rol: UsuarioRol;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthCliente | AuthStaff;
+    }
+  }
+}
+
+function bearerToken(req: Request) {
+  const h = req.headers.authorization;
+  if (!h) return null;
+  const [scheme, token] = h.split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token.trim() : null;
+}
+
+async function authCliente(token: string): Promise<AuthCliente | null> {
+  const claims = verifyAccessToken(token);
+  if (!claims || !claims.cid) return null;
+
+  // logout/refresh revocan la sesión: el access token deja de servir aunque no haya expirado
+  const sesion = await prisma.ecommerce_sesion.findUnique({
+    where: { id: claims.sid },
+    select: { usuarioId: true, revokedAt: true, expiresAt: true, ecommerce_usuario: { select: { estado: true } } },
+  });
+  if (
+    !sesion ||
+    sesion.usuarioId !== claims.sub ||
+    sesion.revokedAt ||
+    sesion.expiresAt <= new Date() ||
+    sesion.ecommerce_usuario.estado !== "ACTIVO"
+  ) {
+    return null;
+  }
+
+  return { typ: "cliente", usuarioId: claims.sub, clienteId: claims.cid, sesionId: claims.sid };
+}
+
+async function authStaff(token: string): Promise<AuthStaff | null> {
+  const claims = verifyStaffToken(token);
+  if (!claims) return null;
+
+  // el rol se lee de BD en cada request: un cambio de rol o desactivación aplica de inmediato
+  const usuario = await prisma.usuario.findUnique({
+    where: { id: claims.sub },
+    select: { id: true, nombre: true, rol: true, activo: true },
+  });
+  if (!usuario || !usuario.activo) return null;
+
+  return { typ: "staff", usuarioId: usuario.id, nombre: usuario.nombre, rol: usuario.rol };
+}
+
+/**
+ * Si viene "Authorization: Bearer <token>" (cliente ecommerce o staff) lo valida y deja req.auth.
+ * Sin header sigue como anónimo; token inválido/expirado/sesión revocada → 401.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = bearerToken(req);
+    if (!token) return next();
+
+    const auth = (await authCliente(token)) ?? (await authStaff(token));
+    if (!auth) return res.status(401).json({ message: "Token inválido o expirado" });
+
+    req.auth = auth;
+    return next();
+  } catch (e) {
+    return next(e);
+  }
+}
+
+/**
+ * EventSource no permite mandar headers: para el stream SSE se acepta también `?token=`.
+ * Montarlo solo en esas rutas (el token en la URL queda en logs de proxies).
+ */
+export async function authenticateQueryToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = typeof req.query.token === "string" ? req.query.token.trim() : "";
+    if (req.auth || !token) return next();
+
+    const auth = (await authCliente(token)) ?? (await authStaff(token));
+    if (!auth) return res.status(401).json({ message: "Token inválido o expirado" });
+
+    req.auth = auth;
+    return next();
+  } catch (e) {
+    return next(e);
+  }
+}
+
+export function requireCliente(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.typ !== "cliente") return res.status(401).json({ message: "Debes iniciar sesión" });
+  return next();
+}
+
+export function requireStaff(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.typ !== "staff") return res.status(401).json({ message: "Debes iniciar sesión" });
+  return next();
+}
+
+/**
+ * Staff con el permiso según su rol.
+ * Con `cliente: true` también deja pasar a un cliente ecommerce logueado;
+ * el controller se encarga de limitarlo a sus propios registros.
+ */
+export function requirePermiso(permiso: Permiso, opts: { cliente?: boolean } = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const auth = req.auth;
+    if (!auth) return res.status(401).json({ message: "Debes iniciar sesión" });
+
+    if (auth.typ === "cliente") {
+      return opts.cliente ? next() : res.status(403).json({ message: "No autorizado" });
+    }
+
+    if (!tienePermiso(auth.rol, permiso)) {
+      return res.status(403).json({ message: `Tu rol (${auth.rol}) no tiene permiso: ${permiso}` });
+    }
+    return next();
+  };
+}
+
+/* =========================
+   Scope por dueño (para usar dentro de los controllers)
+========================= */
+
+/** ecommerce_cliente.id del cliente logueado (null = backoffice / anónimo, sin scope) */
+export function clienteScopeId(req: Request) {
+  return req.auth?.typ === "cliente" ? req.auth.clienteId : null;
+}
+
+/**
+ * Lanza 404 si el registro es de otro cliente (no revelamos que existe).
+ * Staff pasa siempre; un cliente, solo a lo suyo.
+ * Con `permitirAnonimo`, registros sin dueño (ej: carrito de invitado) pasan para cualquiera,
+ * incluido quien no inició sesión; un anónimo nunca llega a registros con dueño.
+ */
+export function assertPropietario(
+  req: Request,
+  ecommerceClienteId: string | null,
+  notFound: { message: string; code: string },
+  opts: { permitirAnonimo?: boolean } = {},
+) {
+  if (req.auth?.typ === "staff") return;
+  if (req.auth?.typ === "cliente" && ecommerceClienteId === req.auth.clienteId) return;
+  if (opts.permitirAnonimo && ecommerceClienteId === null) return;
+  throw httpError(404, notFound.message, notFound.code);
+}
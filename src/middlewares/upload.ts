@@ -1,13 +1,31 @@
 // src/middlewares/upload.ts
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
 import multer from "multer";
 
 const storage = multer.memoryStorage();
 
+const MB = 1024 * 1024;
+const IMAGEN_MAX_BYTES = 8 * MB;
+const COMPROBANTE_MAX_BYTES = 8 * MB;
+const EXCEL_MAX_BYTES = 15 * MB;
+
+type MulterErrorConLimite = multer.MulterError & { maxBytes?: number };
+
+/** Deja en el error LIMIT_FILE_SIZE el límite de la instancia que lo rechazó (para el mensaje). */
+function conLimite(mw: RequestHandler, maxBytes: number): RequestHandler {
+  return (req, res, next) =>
+    mw(req, res, (err?: unknown) => {
+      if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+        (err as MulterErrorConLimite).maxBytes = maxBytes;
+      }
+      next(err);
+    });
+}
+
 const upload = multer({
   storage,
   limits: {
-    fileSize: 8 * 1024 * 1024, // 8MB por imagen
+    fileSize: IMAGEN_MAX_BYTES, // por imagen
     files: 10,
   },
   fileFilter: (_req, file, cb) => {
@@ -17,10 +35,69 @@ const upload = multer({
 });
 
 // 1 imagen genérica (field "image" por ejemplo)
-export const uploadSingleImage = upload.single("image");
+export const uploadSingleImage = conLimite(upload.single("image"), IMAGEN_MAX_BYTES);
 
 // ✅ múltiples imágenes para productos (field "fotos")
-export const uploadMultiImages = upload.array("fotos", 10);
+export const uploadMultiImages = conLimite(upload.array("fotos", 10), IMAGEN_MAX_BYTES);
+
+/* =========================
+   Comprobantes de pago: imagen o PDF (transferencias bancarias)
+========================= */
+
+const comprobanteUpload = multer({
+  storage,
+  limits: { fileSize: COMPROBANTE_MAX_BYTES },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.startsWith("image/") || file.mimetype === "application/pdf") return cb(null, true);
+    return cb(new Error("Archivo inválido. Sube una imagen (jpg/png/webp) o un PDF."));
+  },
+});
+
+// 1 comprobante (field "image", mismo nombre que antes de aceptar PDF)
+export const uploadComprobante = conLimite(comprobanteUpload.single("image"), COMPROBANTE_MAX_BYTES);
+
+/* =========================
+   Excel (memoria) — importaciones
+========================= */
+
+const excelUpload = multer({
+  storage,
+  limits: { fileSize: EXCEL_MAX_BYTES },
+  fileFilter: (_req, file, cb) => {
+    const allowedMime = new Set([
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", // .xlsx
+      "application/vnd.ms-excel", // .xls (a veces)
+    ]);
+
+    const ext = (file.originalname.split(".").pop() || "").toLowerCase();
+    const allowedExt = ext === "xlsx" || ext === "xls";
+
+    if (allowedMime.has(file.mimetype) || allowedExt) return cb(null, true);
+
+    return cb(new Error("Archivo inválido. Sube un Excel .xlsx/.xls"));
+  },
+});
+
+// 1 Excel (field "file") para importaciones
+export const uploadExcelFile = conLimite(excelUpload.single("file"), EXCEL_MAX_BYTES);
+
+// Errores de multer -> 400/413 (montar al final del router que usa los uploads)
+export function uploadErrorHandler(err: unknown, _req: Request, res: Response, next: NextFunction) {
+  if (err instanceof multer.MulterError) {
+    if (err.code === "LIMIT_FILE_SIZE") {
+      const maxBytes = (err as MulterErrorConLimite).maxBytes;
+      const limite = maxBytes ? ` (máx ${Math.round(maxBytes / MB)}MB)` : "";
+      return res.status(413).json({ error: `Archivo demasiado grande${limite}.` });
+    }
+    return res.status(400).json({ error: `Error de subida: ${err.code}` });
+  }
+
+  if (err instanceof Error && err.message.includes("Archivo inválido")) {
+    return res.status(400).json({ error: err.message });
+  }
+
+  return next(err);
+}
 
 // (Opcional) helper para tipar req.files como array en tus controllers
 export function getMulterFiles(req: Request): Express.Multer.File[] {
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  me,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  staffLogin,
+  staffMe,
+} from "../controllers/auth.controller";
+import { requireCliente, requireStaff } from "../middlewares/auth";
+
+const router = Router();
+
+router.post("/register", register);
+router.post("/login", login);
+router.post("/refresh", refresh);
+
+router.post("/verify-email", verifyEmail);
+router.post("/resend-verification", resendVerification);
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
+
+router.post("/logout", requireCliente, logout);
+router.get("/me", requireCliente, me);
+
+/** Backoffice */
+router.post("/staff/login", staffLogin);
+router.get("/staff/me", requireStaff, staffMe);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import {
+  createCarrito,
+  getCarritoById,
+  getCarritoTotales,
+  addCarritoItem,
+  updateCarritoItem,
+  removeCarritoItem,
+  recalcularCarrito,
+  convertirCarritoACotizacion,
+  convertirCarritoAPedido,
+  listCarritosAbandonados,
+  detectarAbandonados,
+} from "../controllers/carritos.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+router.post("/", createCarrito);
+
+// antes de "/:id" para que "abandonados" no se tome como id
+router.get("/abandonados", requirePermiso("lectura"), listCarritosAbandonados);
+router.post("/abandonados/detectar", requirePermiso("carritos:gestionar"), detectarAbandonados);
+
+router.get("/:id", getCarritoById);
+router.get("/:id/totales", getCarritoTotales);
+
+router.post("/:id/items", addCarritoItem);
+router.patch("/:id/items/:productoId", updateCarritoItem);
+router.delete("/:id/items/:productoId", removeCarritoItem);
+router.post("/:id/recalcular", recalcularCarrito);
+
+router.post("/:id/convertir/cotizacion", convertirCarritoACotizacion);
+router.post("/:id/convertir/pedido", convertirCarritoAPedido);
+
+export default router;
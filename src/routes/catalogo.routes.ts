@@ -16,29 +16,35 @@ import {
 } from "../controllers/proveedores.controller";
 import {
   deletePrecioProveedor,
+  getHistorialPrecioProveedor,
   getPreciosProveedor,
+  getRankingProveedores,
+  getVariacionPreciosProveedor,
+  importPreciosProveedorExcel,
   upsertPrecioProveedor,
 } from "../controllers/preciosProveedor.controller";
 
 import { uploadImage } from "../controllers/uploads.controller";
-import { uploadSingleImage, uploadMultiImages } from "../middlewares/upload";
+import { uploadSingleImage, uploadMultiImages, uploadExcelFile, uploadErrorHandler } from "../middlewares/upload";
+import { requirePermiso } from "../middlewares/auth";
 
 const router = Router();
 
 /** =========================
  * Upload genérico (1 imagen)
  * ========================= */
-router.post("/uploads/image", uploadSingleImage, uploadImage);
+router.post("/uploads/image", requirePermiso("catalogo:editar"), uploadSingleImage, uploadImage);
 
 /** =========================
  * Productos (con galería)
  * - field: "fotos" (multiple)
+ * - GET público (tienda); editar incluye precios de venta
  * ========================= */
-router.post("/productos", uploadMultiImages, createProducto);
+router.post("/productos", requirePermiso("catalogo:editar"), uploadMultiImages, createProducto);
 router.get("/productos", getProductos);
 router.get("/productos/:id", getProductoById);
-router.patch("/productos/:id", uploadMultiImages, updateProducto);
-router.delete("/productos/:id", deleteProducto);
+router.patch("/productos/:id", requirePermiso("catalogo:editar"), uploadMultiImages, updateProducto);
+router.delete("/productos/:id", requirePermiso("catalogo:editar"), deleteProducto);
 
 /** =========================
  * (Opcional) borrar una imagen puntual de un producto
@@ -48,17 +54,38 @@ router.delete("/productos/:id", deleteProducto);
 /** =========================
  * Proveedores
  * ========================= */
-router.post("/proveedores", createProveedor);
-router.get("/proveedores", getProveedores);
-router.get("/proveedores/:id", getProveedorById);
-router.patch("/proveedores/:id", updateProveedor);
-router.delete("/proveedores/:id", deleteProveedor);
+router.post("/proveedores", requirePermiso("catalogo:editar"), createProveedor);
+router.get("/proveedores", requirePermiso("lectura"), getProveedores);
+router.get("/proveedores/:id", requirePermiso("lectura"), getProveedorById);
+router.patch("/proveedores/:id", requirePermiso("catalogo:editar"), updateProveedor);
+router.delete("/proveedores/:id", requirePermiso("catalogo:editar"), deleteProveedor);
 
 /** =========================
  * Precios por proveedor
+ * - cada cambio de precio queda en el historial
+ * - precioClp / ranking con el tipo de cambio de la fecha (/api/tipos-cambio)
  * ========================= */
-router.get("/precios-proveedor", getPreciosProveedor);
-router.post("/precios-proveedor/upsert", upsertPrecioProveedor);
-router.delete("/precios-proveedor/:id", deletePrecioProveedor);
+router.get("/precios-proveedor", requirePermiso("lectura"), getPreciosProveedor);
+router.get("/precios-proveedor/variacion", requirePermiso("lectura"), getVariacionPreciosProveedor);
+router.get("/precios-proveedor/ranking", requirePermiso("lectura"), getRankingProveedores);
+router.get("/precios-proveedor/:productoId/historial", requirePermiso("lectura"), getHistorialPrecioProveedor);
+router.post("/precios-proveedor/upsert", requirePermiso("precios:editar"), upsertPrecioProveedor);
+router.delete("/precios-proveedor/:id", requirePermiso("precios:editar"), deletePrecioProveedor);
+
+/** =========================
+ * Lista de precios del proveedor (Excel)
+ * - field: "file"; queda registrada en ImportLote / ImportFila
+ * ========================= */
+router.post(
+  "/proveedores/:id/precios/import-excel",
+  requirePermiso("precios:editar"),
+  uploadExcelFile,
+  importPreciosProveedorExcel,
+);
+
+/** =========================
+ * Error handler Multer
+ * ========================= */
+router.use(uploadErrorHandler);
 
 export default router;
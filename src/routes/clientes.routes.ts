@@ -6,14 +6,14 @@ import {
   updateCliente,
   deleteCliente,
 } from "../controllers/clientes.controller";
-
+import { requirePermiso } from "../middlewares/auth";
 
 const router = Router();
 
-router.get("/", getClientes);
-router.get("/:id", getClienteById);
-router.post("/", createCliente);
-router.patch("/:id", updateCliente);
-router.delete("/:id", deleteCliente);
+router.get("/", requirePermiso("lectura"), getClientes);
+router.get("/:id", requirePermiso("lectura"), getClienteById);
+router.post("/", requirePermiso("clientes:editar"), createCliente);
+router.patch("/:id", requirePermiso("clientes:editar"), updateCliente);
+router.delete("/:id", requirePermiso("clientes:editar"), deleteCliente);
 
 export default router;
@@ -6,17 +6,25 @@ import {
   convertToCrm,
   unlinkCrm,
   createCotizacion,
+  getCotizacionPdf,
+  guardarCotizacionPdf,
 } from "../controllers/cotizaciones.controller";
+import { requirePermiso } from "../middlewares/auth";
 
 const router = Router();
 
-router.get("/", listCotizaciones);
+// POST público (formulario web); con sesión de cliente queda a su nombre
+router.get("/", requirePermiso("lectura", { cliente: true }), listCotizaciones);
 router.post("/", createCotizacion);
 
-router.get("/:id", getCotizacionById);
-router.patch("/:id", patchCotizacion);
+router.get("/:id", requirePermiso("lectura", { cliente: true }), getCotizacionById);
+router.patch("/:id", requirePermiso("cotizaciones:gestionar"), patchCotizacion);
 
-router.post("/:id/convert-to-crm", convertToCrm);
-router.post("/:id/unlink-crm", unlinkCrm);
+// PDF formal: GET lo genera al vuelo; POST lo guarda en Cloudinary (pdfUrl)
+router.get("/:id/pdf", requirePermiso("lectura", { cliente: true }), getCotizacionPdf);
+router.post("/:id/pdf", requirePermiso("cotizaciones:gestionar"), guardarCotizacionPdf);
+
+router.post("/:id/convert-to-crm", requirePermiso("crm:gestionar"), convertToCrm);
+router.post("/:id/unlink-crm", requirePermiso("crm:gestionar"), unlinkCrm);
 
 export default router;
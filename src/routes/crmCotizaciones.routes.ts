@@ -1,9 +1,21 @@
 import { Router } from "express";
-import { getCrmCotizacionById, listCrmCotizaciones } from "../controllers/crmCotizaciones.controller";
+import {
+  getCrmCotizacionById,
+  listCrmCotizaciones,
+  updateCrmCotizacion,
+  cerrarCrmCotizacion,
+  getPendientesCrmCotizacion,
+  generarPedidoCrmCotizacion,
+} from "../controllers/crmCotizaciones.controller";
+import { requirePermiso } from "../middlewares/auth";
 
 const router = Router();
 
-router.get("/", listCrmCotizaciones);
-router.get("/:id", getCrmCotizacionById);
+router.get("/", requirePermiso("lectura"), listCrmCotizaciones);
+router.get("/:id", requirePermiso("lectura"), getCrmCotizacionById);
+router.get("/:id/pendientes", requirePermiso("lectura"), getPendientesCrmCotizacion);
+router.patch("/:id", requirePermiso("crm:gestionar"), updateCrmCotizacion);
+router.post("/:id/cerrar", requirePermiso("crm:gestionar"), cerrarCrmCotizacion);
+router.post("/:id/generar-pedido", requirePermiso("pedidos:gestionar"), generarPedidoCrmCotizacion);
 
 export default router;
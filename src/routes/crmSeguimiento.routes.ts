@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  listActividades,
+  createActividad,
+  deleteActividad,
+  listTareas,
+  getMisSeguimientos,
+  getTareaById,
+  createTarea,
+  updateTarea,
+  completarTarea,
+  cancelarTarea,
+} from "../controllers/crmSeguimiento.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+const gestionar = requirePermiso("crm:gestionar");
+
+/** Actividades (notas, llamadas, emails, reuniones) */
+router.get("/actividades", requirePermiso("lectura"), listActividades);
+router.post("/actividades", gestionar, createActividad);
+router.delete("/actividades/:id", gestionar, deleteActividad);
+
+/** Tareas de seguimiento (/mias antes de /:id) */
+router.get("/tareas", requirePermiso("lectura"), listTareas);
+router.get("/tareas/mias", requirePermiso("lectura"), getMisSeguimientos);
+router.get("/tareas/:id", requirePermiso("lectura"), getTareaById);
+router.post("/tareas", gestionar, createTarea);
+router.patch("/tareas/:id", gestionar, updateTarea);
+router.post("/tareas/:id/completar", gestionar, completarTarea);
+router.post("/tareas/:id/cancelar", gestionar, cancelarTarea);
+
+export default router;
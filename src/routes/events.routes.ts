@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { streamEvents } from "../controllers/events.controller";
+import { authenticateQueryToken, requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+router.get("/", authenticateQueryToken, requirePermiso("lectura", { cliente: true }), streamEvents);
+
+export default router;
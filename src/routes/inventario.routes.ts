@@ -1,5 +1,4 @@
-import { Router, type Request, type Response, type NextFunction } from "express";
-import multer from "multer";
+import { Router } from "express";
 import {
   createInventario,
   getInventarios,
@@ -7,65 +6,61 @@ import {
   updateInventario,
   deleteInventario,
   importInventarioExcel,
+  createMovimientoStock,
+  listMovimientosInventario,
+  listMovimientos,
 } from "../controllers/inventario.controller";
+import {
+  getCriticalRule,
+  upsertCriticalRule,
+  deleteCriticalRule,
+  bulkApplyCriticalRules,
+  dryRunCriticalRules,
+} from "../controllers/stockCriticalRules.controller";
+import { requirePermiso } from "../middlewares/auth";
+import { uploadErrorHandler, uploadExcelFile } from "../middlewares/upload";
 
 const router = Router();
 
-/* =========================
-   Upload Excel (memoria)
-========================= */
-
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: { fileSize: 15 * 1024 * 1024 }, // 15MB
-  fileFilter: (_req, file, cb) => {
-    const allowedMime = new Set([
-      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", // .xlsx
-      "application/vnd.ms-excel", // .xls (a veces)
-    ]);
-
-    const ext = (file.originalname.split(".").pop() || "").toLowerCase();
-    const allowedExt = ext === "xlsx" || ext === "xls";
-
-    if (allowedMime.has(file.mimetype) || allowedExt) return cb(null, true);
-
-    return cb(new Error("Archivo inválido. Sube un Excel .xlsx/.xls"));
-  },
-});
-
 /* =========================
    Rutas CRUD
 ========================= */
 
-router.post("/inventario", createInventario);
-router.get("/inventario", getInventarios);
-router.get("/inventario/:id", getInventarioById);
-router.patch("/inventario/:id", updateInventario);
-router.delete("/inventario/:id", deleteInventario);
+router.post("/inventario", requirePermiso("inventario:editar"), createInventario);
+router.get("/inventario", requirePermiso("lectura"), getInventarios);
+router.get("/inventario/:id", requirePermiso("lectura"), getInventarioById);
+router.patch("/inventario/:id", requirePermiso("inventario:editar"), updateInventario);
+router.delete("/inventario/:id", requirePermiso("inventario:editar"), deleteInventario);
 
 router.post(
   "/inventario/import-excel",
-  upload.single("file"),
+  requirePermiso("inventario:editar"),
+  uploadExcelFile,
   importInventarioExcel,
 );
 
 /* =========================
-   Error handler Multer
+   Movimientos de stock (ledger)
+========================= */
+
+router.post("/inventario/:id/movimientos", requirePermiso("inventario:movimientos"), createMovimientoStock);
+router.get("/inventario/:id/movimientos", requirePermiso("lectura"), listMovimientosInventario);
+router.get("/movimientos", requirePermiso("lectura"), listMovimientos);
+
+/* =========================
+   Reglas de stock crítico
 ========================= */
 
-router.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
-  if (err instanceof multer.MulterError) {
-    if (err.code === "LIMIT_FILE_SIZE") {
-      return res.status(413).json({ error: "Archivo demasiado grande (máx 15MB)." });
-    }
-    return res.status(400).json({ error: `Error de subida: ${err.code}` });
-  }
+router.get("/inventario/critical-rules/dry-run", requirePermiso("lectura"), dryRunCriticalRules);
+router.post("/inventario/critical-rules/bulk", requirePermiso("alertas:gestionar"), bulkApplyCriticalRules);
+router.get("/inventario/:id/critical-rule", requirePermiso("lectura"), getCriticalRule);
+router.put("/inventario/:id/critical-rule", requirePermiso("alertas:gestionar"), upsertCriticalRule);
+router.delete("/inventario/:id/critical-rule", requirePermiso("alertas:gestionar"), deleteCriticalRule);
 
-  if (err instanceof Error && err.message.includes("Archivo inválido")) {
-    return res.status(400).json({ error: err.message });
-  }
+/* =========================
+   Error handler Multer
+========================= */
 
-  return next(err);
-});
+router.use(uploadErrorHandler);
 
 export default router;
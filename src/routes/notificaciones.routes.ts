@@ -0,0 +1,17 @@
+import { Router } from "express";
+import {
+  listNotificaciones,
+  countNotificaciones,
+  marcarNotificacionLeida,
+  marcarTodasLeidas,
+} from "../controllers/notificaciones.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+router.get("/", requirePermiso("lectura"), listNotificaciones);
+router.get("/count", requirePermiso("lectura"), countNotificaciones);
+router.post("/read-all", requirePermiso("lectura"), marcarTodasLeidas);
+router.post("/:id/read", requirePermiso("lectura"), marcarNotificacionLeida);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  getSugerencias,
+  generarDesdeSugerencias,
+  listOrdenesCompra,
+  getOrdenCompraById,
+  createOrdenCompra,
+  updateOrdenCompra,
+  emitirOrdenCompra,
+  cerrarOrdenCompra,
+  cancelarOrdenCompra,
+  recibirOrdenCompra,
+} from "../controllers/ordenesCompra.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+const gestionar = requirePermiso("compras:gestionar");
+
+/** Sugerencias de reposición (antes de /:id) */
+router.get("/sugerencias", requirePermiso("lectura"), getSugerencias);
+router.post("/sugerencias/generar", gestionar, generarDesdeSugerencias);
+
+router.get("/", requirePermiso("lectura"), listOrdenesCompra);
+router.get("/:id", requirePermiso("lectura"), getOrdenCompraById);
+router.post("/", gestionar, createOrdenCompra);
+router.patch("/:id", gestionar, updateOrdenCompra);
+
+router.post("/:id/emitir", gestionar, emitirOrdenCompra);
+router.post("/:id/recepciones", gestionar, recibirOrdenCompra);
+router.post("/:id/cerrar", gestionar, cerrarOrdenCompra);
+router.post("/:id/cancelar", gestionar, cancelarOrdenCompra);
+
+export default router;
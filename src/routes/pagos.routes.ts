@@ -0,0 +1,20 @@
+import express, { Router } from "express";
+import {
+  retornoTransbank,
+  simuladorWebpayForm,
+  simuladorWebpayDecision,
+} from "../controllers/pagosGateway.controller";
+
+const router = Router();
+
+// Webpay vuelve por GET o POST (form) según el flujo
+const form = express.urlencoded({ extended: false });
+
+router.get("/transbank/retorno", retornoTransbank);
+router.post("/transbank/retorno", form, retornoTransbank);
+
+/** Simulador local de Webpay Plus (PAYMENT_GATEWAY=simulador) */
+router.get("/simulador/webpay", simuladorWebpayForm);
+router.post("/simulador/webpay", form, simuladorWebpayDecision);
+
+export default router;
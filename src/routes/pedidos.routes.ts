@@ -0,0 +1,52 @@
+import { Router } from "express";
+import {
+  createPedido,
+  listPedidos,
+  getPedidoById,
+  cambiarEstadoPedido,
+  pedidoPropio,
+} from "../controllers/pedidos.controller";
+import {
+  listPagosPedido,
+  createPago,
+  uploadEvidenciaPago,
+  confirmarPago,
+  rechazarPago,
+} from "../controllers/pagos.controller";
+import { iniciarPagoTransbank, reembolsarPagoTransbank } from "../controllers/pagosGateway.controller";
+import { uploadComprobante, uploadErrorHandler } from "../middlewares/upload";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+// cliente logueado: todo lo que cuelga de /:id se limita a sus pedidos
+router.param("id", pedidoPropio);
+
+// { cliente: true } = el cliente logueado también entra, limitado a sus pedidos
+const lectura = requirePermiso("lectura", { cliente: true });
+const gestionar = requirePermiso("pedidos:gestionar", { cliente: true });
+const pagos = requirePermiso("pagos:gestionar", { cliente: true });
+
+router.get("/", lectura, listPedidos);
+router.post("/", gestionar, createPedido);
+
+router.get("/:id", lectura, getPedidoById);
+router.post("/:id/estado", gestionar, cambiarEstadoPedido);
+
+/** =========================
+ * Pagos del pedido
+ * - comprobante de transferencia: field "image" (imagen o PDF)
+ * ========================= */
+router.get("/:id/pagos", lectura, listPagosPedido);
+router.post("/:id/pagos", pagos, uploadComprobante, createPago);
+router.post("/:id/pagos/:pagoId/evidencia", pagos, uploadComprobante, uploadEvidenciaPago);
+router.post("/:id/pagos/:pagoId/confirmar", requirePermiso("pagos:gestionar"), confirmarPago);
+router.post("/:id/pagos/:pagoId/rechazar", requirePermiso("pagos:gestionar"), rechazarPago);
+
+/** Pasarela (Transbank / simulador según PAYMENT_GATEWAY) */
+router.post("/:id/pagos/transbank/iniciar", pagos, iniciarPagoTransbank);
+router.post("/:id/pagos/:pagoId/reembolso", requirePermiso("pagos:gestionar"), reembolsarPagoTransbank);
+
+router.use(uploadErrorHandler);
+
+export default router;
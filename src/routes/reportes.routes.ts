@@ -0,0 +1,20 @@
+import { Router } from "express";
+import {
+  getEmbudoVentas,
+  getVentasPorVendedor,
+  getVentasPorMes,
+  getVentasPorOrigen,
+  getProductosVentas,
+} from "../controllers/reportesVentas.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+/** Ventas: embudo cotización → CRM → cierre */
+router.get("/ventas/embudo", requirePermiso("lectura"), getEmbudoVentas);
+router.get("/ventas/vendedores", requirePermiso("lectura"), getVentasPorVendedor);
+router.get("/ventas/mensual", requirePermiso("lectura"), getVentasPorMes);
+router.get("/ventas/origen", requirePermiso("lectura"), getVentasPorOrigen);
+router.get("/ventas/productos", requirePermiso("lectura"), getProductosVentas);
+
+export default router;
@@ -1,11 +1,27 @@
 import { Router } from "express";
-import { listStockAlerts, ackStockAlert, countStockAlerts, resolveStockAlert } from "../controllers/stockAlerts.controller";
+import {
+  listStockAlerts,
+  ackStockAlert,
+  countStockAlerts,
+  resolveStockAlert,
+  listStockAlertDeliveries,
+  dispatchStockAlerts,
+  sweepStockAlerts,
+  historyStockAlerts,
+  metricsStockAlerts,
+} from "../controllers/stockAlerts.controller";
+import { requirePermiso } from "../middlewares/auth";
 
 const router = Router();
 
-router.get("/", listStockAlerts);
-router.get("/count", countStockAlerts);
-router.post("/:id/ack", ackStockAlert);
-router.post("/:id/resolve", resolveStockAlert);
+router.get("/", requirePermiso("lectura"), listStockAlerts);
+router.get("/count", requirePermiso("lectura"), countStockAlerts);
+router.get("/history", requirePermiso("lectura"), historyStockAlerts);
+router.get("/metrics", requirePermiso("lectura"), metricsStockAlerts);
+router.post("/dispatch", requirePermiso("alertas:gestionar"), dispatchStockAlerts);
+router.post("/sweep", requirePermiso("alertas:gestionar"), sweepStockAlerts);
+router.get("/:id/deliveries", requirePermiso("lectura"), listStockAlertDeliveries);
+router.post("/:id/ack", requirePermiso("alertas:gestionar"), ackStockAlert);
+router.post("/:id/resolve", requirePermiso("alertas:gestionar"), resolveStockAlert);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  listTiposCambio,
+  getTiposCambioVigentes,
+  upsertTipoCambio,
+  deleteTipoCambio,
+  importTiposCambioExcel,
+} from "../controllers/tiposCambio.controller";
+import { requirePermiso } from "../middlewares/auth";
+import { uploadErrorHandler, uploadExcelFile } from "../middlewares/upload";
+
+const router = Router();
+
+router.get("/", requirePermiso("lectura"), listTiposCambio);
+router.get("/vigentes", requirePermiso("lectura"), getTiposCambioVigentes);
+router.put("/", requirePermiso("precios:editar"), upsertTipoCambio);
+router.delete("/:id", requirePermiso("precios:editar"), deleteTipoCambio);
+router.post("/import-excel", requirePermiso("precios:editar"), uploadExcelFile, importTiposCambioExcel);
+
+router.use(uploadErrorHandler);
+
+export default router;
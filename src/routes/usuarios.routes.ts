@@ -0,0 +1,21 @@
+import { Router } from "express";
+import {
+  listUsuarios,
+  listVendedores,
+  getUsuarioById,
+  createUsuario,
+  updateUsuario,
+} from "../controllers/usuarios.controller";
+import { requirePermiso } from "../middlewares/auth";
+
+const router = Router();
+
+// antes de "/:id"
+router.get("/vendedores", requirePermiso("lectura"), listVendedores);
+
+router.get("/", requirePermiso("usuarios:gestionar"), listUsuarios);
+router.get("/:id", requirePermiso("usuarios:gestionar"), getUsuarioById);
+router.post("/", requirePermiso("usuarios:gestionar"), createUsuario);
+router.patch("/:id", requirePermiso("usuarios:gestionar"), updateUsuario);
+
+export default router;
@@ -1,6 +1,19 @@
 import "dotenv/config";
 import app from "./app";
+import { assertMailConfig } from "./lib/mailer";
+import { startCarritosAbandonadosJob } from "./jobs/carritosAbandonados.job";
+import { startNotificacionesJob } from "./jobs/notificaciones.job";
+import { startStockCriticoJob } from "./jobs/stockCritico.job";
+import { startCrmTareasJob } from "./jobs/crmTareas.job";
+
+// falla al arrancar si la config de correo no sirve (no al primer email)
+assertMailConfig();
 
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => console.log(`API running on http://localhost:${PORT}`));
 
+/** Jobs en proceso */
+startCarritosAbandonadosJob();
+startNotificacionesJob();
+startStockCriticoJob();
+startCrmTareasJob();
@@ -0,0 +1,185 @@
+import { randomBytes, randomUUID } from "crypto";
+import { EcommerceTokenTipo, Prisma } from "@prisma/client";
+import { getRefreshTtlDays, hashToken, signAccessToken, signRefreshToken, verifyRefreshToken } from "../lib/authTokens";
+import { sendMail } from "../lib/mailer";
+import { httpError } from "../utils/http";
+
+type Tx = Prisma.TransactionClient;
+
+export type SesionMeta = { userAgent?: string | null; ip?: string | null };
+
+export const usuarioPublicSelect = {
+  id: true,
+  nombre: true,
+  email: true,
+  telefono: true,
+  estado: true,
+  createdAt: true,
+} satisfies Prisma.ecommerce_usuarioSelect;
+
+export function normalizarEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function refreshExpiresAt(now = new Date()) {
+  return new Date(now.getTime() + getRefreshTtlDays() * 24 * 60 * 60 * 1000);
+}
+
+function emitirTokens(usuarioId: string, clienteId: string, sesionId: string) {
+  return {
+    accessToken: signAccessToken({ sub: usuarioId, cid: clienteId, sid: sesionId, typ: "cliente" }),
+    refreshToken: signRefreshToken({ sub: usuarioId, sid: sesionId }),
+  };
+}
+
+/** Abre una sesión nueva y devuelve el par access/refresh. */
+export async function crearSesionTx(tx: Tx, usuarioId: string, clienteId: string, meta: SesionMeta = {}) {
+  const sesionId = randomUUID();
+  const tokens = emitirTokens(usuarioId, clienteId, sesionId);
+  const now = new Date();
+
+  await tx.ecommerce_sesion.create({
+    data: {
+      id: sesionId,
+      usuarioId,
+      refreshTokenHash: hashToken(tokens.refreshToken),
+      userAgent: meta.userAgent ?? null,
+      ip: meta.ip ?? null,
+      expiresAt: refreshExpiresAt(now),
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+
+  return { sesionId, ...tokens };
+}
+
+/**
+ * Rota el refresh token: el anterior deja de servir.
+ * Si llega un refresh ya rotado (posible robo), se revoca la sesión completa y se devuelve
+ * { reutilizado: true }: el 401 lo lanza el caller después del commit (si no, el rollback deshace la revocación).
+ */
+export async function refrescarSesionTx(tx: Tx, refreshToken: string) {
+  const claims = verifyRefreshToken(refreshToken);
+  if (!claims) throw httpError(401, "Refresh token inválido o expirado", "REFRESH_INVALIDO");
+
+  const sesion = await tx.ecommerce_sesion.findUnique({
+    where: { id: claims.sid },
+    include: { ecommerce_usuario: { select: { estado: true, ecommerce_cliente: { select: { id: true } } } } },
+  });
+  if (!sesion || sesion.usuarioId !== claims.sub || sesion.revokedAt || sesion.expiresAt <= new Date()) {
+    throw httpError(401, "Sesión inválida", "SESION_INVALIDA");
+  }
+
+  if (sesion.refreshTokenHash !== hashToken(refreshToken)) {
+    await tx.ecommerce_sesion.update({ where: { id: sesion.id }, data: { revokedAt: new Date(), updatedAt: new Date() } });
+    return { reutilizado: true as const, sesionId: sesion.id };
+  }
+
+  const clienteId = sesion.ecommerce_usuario.ecommerce_cliente?.id;
+  if (sesion.ecommerce_usuario.estado !== "ACTIVO" || !clienteId) {
+    throw httpError(401, "Sesión inválida", "SESION_INVALIDA");
+  }
+
+  const tokens = emitirTokens(sesion.usuarioId, clienteId, sesion.id);
+  const now = new Date();
+
+  await tx.ecommerce_sesion.update({
+    where: { id: sesion.id },
+    data: { refreshTokenHash: hashToken(tokens.refreshToken), expiresAt: refreshExpiresAt(now), updatedAt: now },
+  });
+
+  return { reutilizado: false as const, sesionId: sesion.id, ...tokens };
+}
+
+export async function revocarSesionTx(tx: Tx, sesionId: string) {
+  await tx.ecommerce_sesion.updateMany({
+    where: { id: sesionId, revokedAt: null },
+    data: { revokedAt: new Date(), updatedAt: new Date() },
+  });
+}
+
+export async function revocarSesionesUsuarioTx(tx: Tx, usuarioId: string) {
+  await tx.ecommerce_sesion.updateMany({
+    where: { usuarioId, revokedAt: null },
+    data: { revokedAt: new Date(), updatedAt: new Date() },
+  });
+}
+
+/* =========================
+   Tokens de un solo uso (verificación de email / reset de password)
+========================= */
+
+function tokenTtlMs(tipo: EcommerceTokenTipo) {
+  if (tipo === "RESET_PASSWORD") {
+    const min = Number(process.env.AUTH_RESET_TTL_MINUTES);
+    return (Number.isFinite(min) && min > 0 ? min : 60) * 60 * 1000;
+  }
+  const horas = Number(process.env.AUTH_VERIFY_TTL_HOURS);
+  return (Number.isFinite(horas) && horas > 0 ? horas : 48) * 60 * 60 * 1000;
+}
+
+/** Crea un token nuevo (y anula los pendientes del mismo tipo). Devuelve el token en claro: solo viaja por email. */
+export async function crearTokenCuentaTx(tx: Tx, usuarioId: string, tipo: EcommerceTokenTipo) {
+  const now = new Date();
+  await tx.ecommerce_token.updateMany({ where: { usuarioId, tipo, usedAt: null }, data: { usedAt: now } });
+
+  const token = randomBytes(32).toString("base64url");
+  await tx.ecommerce_token.create({
+    data: {
+      id: randomUUID(),
+      usuarioId,
+      tipo,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + tokenTtlMs(tipo)),
+      createdAt: now,
+    },
+  });
+
+  return token;
+}
+
+/** Marca el token como usado; 400 si no existe, ya se usó o expiró. */
+export async function consumirTokenCuentaTx(tx: Tx, token: string, tipo: EcommerceTokenTipo) {
+  const row = await tx.ecommerce_token.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!row || row.tipo !== tipo || row.usedAt || row.expiresAt <= new Date()) {
+    throw httpError(400, "El enlace no es válido o ya expiró", "TOKEN_INVALIDO");
+  }
+
+  // condicional: dos requests simultáneos con el mismo token → solo uno gana
+  const { count } = await tx.ecommerce_token.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) throw httpError(400, "El enlace no es válido o ya expiró", "TOKEN_INVALIDO");
+
+  return row;
+}
+
+/* =========================
+   Emails de cuenta
+   - links al front: STORE_URL (ej: https://tienda.covasa.cl)
+========================= */
+
+function storeUrl(pathname: string, token: string) {
+  const base = (process.env.STORE_URL || "http://localhost:5173").replace(/\/+$/, "");
+  return `${base}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+export async function enviarEmailVerificacion(usuario: { nombre: string; email: string }, token: string) {
+  const link = storeUrl("/cuenta/verificar", token);
+  await sendMail({
+    to: usuario.email,
+    subject: "Confirma tu email",
+    text: `Hola ${usuario.nombre},\n\nPara activar tu cuenta abre este enlace:\n${link}\n\nSi no creaste una cuenta, ignora este correo.`,
+  });
+}
+
+export async function enviarEmailResetPassword(usuario: { nombre: string; email: string }, token: string) {
+  const link = storeUrl("/cuenta/restablecer", token);
+  await sendMail({
+    to: usuario.email,
+    subject: "Restablecer contraseña",
+    text: `Hola ${usuario.nombre},\n\nPara crear una nueva contraseña abre este enlace (vence pronto):\n${link}\n\nSi no lo pediste, ignora este correo.`,
+  });
+}
@@ -0,0 +1,91 @@
+import { Prisma } from "@prisma/client";
+import { httpError } from "../utils/http";
+import { IVA_PCT_DEFAULT, precioVentaNeto, totalizar, type PedidoItemCalc } from "./pedidos.service";
+
+type Tx = Prisma.TransactionClient;
+
+type ProductoPrecio = { precioGeneral: number; precioConDescto: number };
+
+/** Snapshot de precio/IVA de una línea de carrito con el precio vigente del producto. */
+export function snapshotLineaCarrito(producto: ProductoPrecio, cantidad: number) {
+  const precioUnitarioNetoSnapshot = precioVentaNeto(producto);
+  const subtotalNetoSnapshot = precioUnitarioNetoSnapshot * cantidad;
+  const ivaMontoSnapshot = Math.round((subtotalNetoSnapshot * IVA_PCT_DEFAULT) / 100);
+
+  return {
+    cantidad,
+    precioUnitarioNetoSnapshot,
+    subtotalNetoSnapshot,
+    ivaPctSnapshot: IVA_PCT_DEFAULT,
+    ivaMontoSnapshot,
+    totalSnapshot: subtotalNetoSnapshot + ivaMontoSnapshot,
+  };
+}
+
+export function totalesCarrito(
+  items: Array<{ cantidad: number; subtotalNetoSnapshot: number; ivaMontoSnapshot: number }>,
+) {
+  return {
+    itemsCount: items.length,
+    unidades: items.reduce((acc, it) => acc + it.cantidad, 0),
+    ...totalizar(items),
+  };
+}
+
+/**
+ * Carrito editable o error (los convertidos no se editan).
+ * Un carrito ABANDONADO vuelve a ACTIVO si el cliente lo retoma.
+ */
+export async function getCarritoActivoTx(tx: Tx, carritoId: string) {
+  const carrito = await tx.ecommerce_carrito.findUnique({ where: { id: carritoId } });
+  if (!carrito) throw httpError(404, "Carrito no encontrado", "CARRITO_NOT_FOUND");
+
+  if (carrito.estado === "ABANDONADO") {
+    return tx.ecommerce_carrito.update({
+      where: { id: carritoId },
+      data: { estado: "ACTIVO", updatedAt: new Date() },
+    });
+  }
+
+  if (carrito.estado !== "ACTIVO") throw httpError(409, `El carrito está ${carrito.estado}`, "CARRITO_NO_ACTIVO");
+  return carrito;
+}
+
+/**
+ * Líneas del carrito listas para copiar a un pedido/cotización.
+ * Los snapshots se recalculan con el precio vigente (un carrito retomado puede tener precios viejos)
+ * y se guardan en el carrito para que lo que vio el cliente y el documento coincidan.
+ */
+export async function itemsDesdeCarritoTx(tx: Tx, carritoId: string) {
+  const carrito = await getCarritoActivoTx(tx, carritoId);
+
+  const rows = await tx.ecommerce_carrito_item.findMany({
+    where: { carritoId },
+    orderBy: { createdAt: "asc" },
+    include: { Producto: { select: { nombre: true, precioGeneral: true, precioConDescto: true } } },
+  });
+  if (rows.length === 0) throw httpError(400, "El carrito está vacío", "CARRITO_VACIO");
+
+  const items: PedidoItemCalc[] = [];
+  for (const it of rows) {
+    const snap = snapshotLineaCarrito(it.Producto, it.cantidad);
+    if (snap.totalSnapshot !== it.totalSnapshot || snap.precioUnitarioNetoSnapshot !== it.precioUnitarioNetoSnapshot) {
+      await tx.ecommerce_carrito_item.update({ where: { id: it.id }, data: snap });
+    }
+
+    items.push({
+      productoId: it.productoId,
+      descripcionSnapshot: it.Producto.nombre,
+      ...snap,
+    });
+  }
+
+  return { carrito, items };
+}
+
+export async function marcarCarritoConvertidoTx(tx: Tx, carritoId: string) {
+  return tx.ecommerce_carrito.update({
+    where: { id: carritoId },
+    data: { estado: "CONVERTIDO", updatedAt: new Date() },
+  });
+}
@@ -0,0 +1,277 @@
+import fs from "fs";
+import PDFDocument from "pdfkit";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+/* =========================
+   PDF formal de cotización (pdfkit, sin servicios externos)
+   - encabezado con datos de la empresa (EMPRESA_* en .env; logo opcional EMPRESA_LOGO_PATH, PNG/JPG)
+   - validez: COTIZACION_VALIDEZ_DIAS (default 15) desde la fecha de la cotización
+   - condiciones: COTIZACION_CONDICIONES separadas por "|" (si no, las de abajo)
+========================= */
+
+const CONDICIONES_DEFAULT = [
+  "Precios netos en pesos chilenos; IVA detallado por línea.",
+  "Sujeto a disponibilidad de stock al momento de confirmar la compra.",
+  "Despacho no incluido salvo que se indique expresamente.",
+  "Forma de pago: transferencia o según condiciones comerciales acordadas.",
+];
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+function empresa() {
+  return {
+    nombre: process.env.EMPRESA_NOMBRE || "Covasa",
+    rut: process.env.EMPRESA_RUT || null,
+    direccion: process.env.EMPRESA_DIRECCION || null,
+    telefono: process.env.EMPRESA_TELEFONO || null,
+    email: process.env.EMPRESA_EMAIL || null,
+    web: process.env.EMPRESA_WEB || null,
+    logoPath: process.env.EMPRESA_LOGO_PATH || null,
+    color: process.env.EMPRESA_COLOR || "#1f4e79",
+  };
+}
+
+function condiciones() {
+  const raw = process.env.COTIZACION_CONDICIONES;
+  if (!raw) return CONDICIONES_DEFAULT;
+  return raw
+    .split("|")
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+function clp(n: number) {
+  return `$${n.toLocaleString("es-CL")}`;
+}
+
+function fecha(d: Date) {
+  return d.toLocaleDateString("es-CL", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+export const cotizacionPdfInclude = {
+  ecommerce_cliente: true,
+  CrmCotizacion: { include: { vendedor: { select: { nombre: true, email: true } } } },
+  ecommerce_cotizacion_item: {
+    orderBy: { createdAt: "asc" },
+    include: { Producto: { select: { sku: true, unidadMedida: true } } },
+  },
+} satisfies Prisma.ecommerce_cotizacionInclude;
+
+export type CotizacionPdfData = Prisma.ecommerce_cotizacionGetPayload<{ include: typeof cotizacionPdfInclude }>;
+
+export function getCotizacionPdfData(id: string) {
+  return prisma.ecommerce_cotizacion.findUnique({ where: { id }, include: cotizacionPdfInclude });
+}
+
+export function validaHasta(cot: { createdAt: Date }) {
+  const d = new Date(cot.createdAt);
+  d.setDate(d.getDate() + envInt("COTIZACION_VALIDEZ_DIAS", 15));
+  return d;
+}
+
+/* =========================
+   Render
+========================= */
+
+const MARGEN = 40;
+
+// columnas de la tabla de ítems (ancho útil carta: 612 - 2 * 40 = 532)
+const COLS = [
+  { key: "n", titulo: "#", width: 22, align: "left" },
+  { key: "sku", titulo: "Código", width: 62, align: "left" },
+  { key: "desc", titulo: "Descripción", width: 196, align: "left" },
+  { key: "cant", titulo: "Cant.", width: 42, align: "right" },
+  { key: "unit", titulo: "P. unit. neto", width: 70, align: "right" },
+  { key: "iva", titulo: "IVA", width: 60, align: "right" },
+  { key: "total", titulo: "Total", width: 80, align: "right" },
+] as const;
+
+type Col = (typeof COLS)[number]["key"];
+
+export function renderCotizacionPdf(cot: CotizacionPdfData): Promise<Buffer> {
+  const emp = empresa();
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: MARGEN,
+    info: { Title: `Cotización ${cot.codigo}`, Author: emp.nombre },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (c: Buffer) => chunks.push(c));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const anchoUtil = doc.page.width - MARGEN * 2;
+  const limiteY = () => doc.page.height - MARGEN - 20;
+
+  /* ----- Encabezado ----- */
+  let xTexto = MARGEN;
+  if (emp.logoPath && fs.existsSync(emp.logoPath)) {
+    try {
+      doc.image(emp.logoPath, MARGEN, MARGEN, { fit: [90, 60] });
+      xTexto = MARGEN + 100;
+    } catch (e) {
+      console.error("[cotizacionPdf] logo inválido", emp.logoPath, e);
+    }
+  }
+
+  doc.fillColor(emp.color).font("Helvetica-Bold").fontSize(16).text(emp.nombre, xTexto, MARGEN);
+  doc.fillColor("#333333").font("Helvetica").fontSize(9);
+  for (const linea of [
+    emp.rut ? `RUT ${emp.rut}` : null,
+    emp.direccion,
+    [emp.telefono, emp.email].filter(Boolean).join(" · ") || null,
+    emp.web,
+  ]) {
+    if (linea) doc.text(linea, xTexto);
+  }
+
+  // recuadro con número y fechas
+  const boxW = 170;
+  const boxX = doc.page.width - MARGEN - boxW;
+  doc.rect(boxX, MARGEN, boxW, 62).strokeColor(emp.color).lineWidth(1).stroke();
+  doc.fillColor(emp.color).font("Helvetica-Bold").fontSize(12);
+  doc.text("COTIZACIÓN", boxX, MARGEN + 8, { width: boxW, align: "center" });
+  doc.fillColor("#000000").fontSize(10).text(cot.codigo, boxX, MARGEN + 24, { width: boxW, align: "center" });
+  doc.font("Helvetica").fontSize(8.5);
+  doc.text(`Fecha: ${fecha(cot.createdAt)}`, boxX, MARGEN + 38, { width: boxW, align: "center" });
+  doc.text(`Válida hasta: ${fecha(validaHasta(cot))}`, boxX, MARGEN + 49, { width: boxW, align: "center" });
+
+  /* ----- Cliente ----- */
+  const crm = cot.CrmCotizacion;
+  let y = Math.max(doc.y, MARGEN + 62) + 18;
+
+  doc.fillColor(emp.color).font("Helvetica-Bold").fontSize(10).text("Cliente", MARGEN, y);
+  y = doc.y + 3;
+  doc.moveTo(MARGEN, y).lineTo(MARGEN + anchoUtil, y).strokeColor(emp.color).lineWidth(0.5).stroke();
+  y += 6;
+
+  const datosCliente: Array<[string, string | null | undefined]> = [
+    ["Empresa", cot.empresa],
+    ["RUT", cot.rut ?? cot.ecommerce_cliente?.rut],
+    ["Contacto", cot.nombreContacto],
+    ["Email", cot.email],
+    ["Teléfono", cot.telefono],
+    ["Dirección", crm?.clienteDireccionSnapshot],
+    ["Obra", crm?.nombreObra],
+    ["OC cliente", cot.ocCliente ?? crm?.numeroOC],
+  ];
+  const visibles = datosCliente.filter(([, v]) => v && v.trim());
+  const mitad = Math.ceil(visibles.length / 2);
+  const colW = anchoUtil / 2;
+
+  // dos columnas: cada una avanza su propia altura
+  const yCol = [y, y];
+  doc.fillColor("#000000").fontSize(9);
+  visibles.forEach(([label, valor], i) => {
+    const col = i < mitad ? 0 : 1;
+    doc.font("Helvetica-Bold");
+    doc.text(`${label}: `, MARGEN + col * colW, yCol[col], { continued: true, width: colW - 10 });
+    doc.font("Helvetica").text(String(valor));
+    yCol[col] = doc.y + 2;
+  });
+  y = Math.max(...yCol) + 16;
+
+  /* ----- Ítems ----- */
+  const encabezadoTabla = () => {
+    doc.rect(MARGEN, y, anchoUtil, 18).fill(emp.color);
+    doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(8.5);
+    let x = MARGEN;
+    for (const c of COLS) {
+      doc.text(c.titulo, x + 3, y + 5, { width: c.width - 6, align: c.align });
+      x += c.width;
+    }
+    y += 18;
+    doc.fillColor("#000000").font("Helvetica").fontSize(8.5);
+  };
+
+  encabezadoTabla();
+
+  cot.ecommerce_cotizacion_item.forEach((it, i) => {
+    const celdas: Record<Col, string> = {
+      n: String(i + 1),
+      sku: it.Producto?.sku ?? "",
+      desc: it.descripcionSnapshot,
+      cant: `${it.cantidad}${it.Producto?.unidadMedida ? ` ${it.Producto.unidadMedida}` : ""}`,
+      unit: clp(it.precioUnitarioNetoSnapshot),
+      iva: `${it.ivaPctSnapshot}% ${clp(it.ivaMontoSnapshot)}`,
+      total: clp(it.totalSnapshot),
+    };
+
+    const alto = Math.max(...COLS.map((c) => doc.heightOfString(celdas[c.key], { width: c.width - 6 }))) + 8;
+    if (y + alto > limiteY()) {
+      doc.addPage();
+      y = MARGEN;
+      encabezadoTabla();
+    }
+
+    if (i % 2 === 1) doc.rect(MARGEN, y, anchoUtil, alto).fill("#f2f5f9").fillColor("#000000");
+
+    let x = MARGEN;
+    for (const c of COLS) {
+      doc.text(celdas[c.key], x + 3, y + 4, { width: c.width - 6, align: c.align });
+      x += c.width;
+    }
+    y += alto;
+  });
+
+  doc.moveTo(MARGEN, y).lineTo(MARGEN + anchoUtil, y).strokeColor("#999999").lineWidth(0.5).stroke();
+
+  /* ----- Totales ----- */
+  if (y + 70 > limiteY()) {
+    doc.addPage();
+    y = MARGEN;
+  }
+  y += 10;
+
+  const totW = 200;
+  const totX = MARGEN + anchoUtil - totW;
+  const filasTotales: Array<[string, number, boolean]> = [
+    ["Subtotal neto", cot.subtotalNeto, false],
+    ["IVA", cot.iva, false],
+    ["Total", cot.total, true],
+  ];
+  for (const [label, monto, destacado] of filasTotales) {
+    doc.font(destacado ? "Helvetica-Bold" : "Helvetica").fontSize(destacado ? 11 : 9.5);
+    doc.fillColor(destacado ? emp.color : "#000000");
+    doc.text(label, totX, y, { width: totW / 2 });
+    doc.text(clp(monto), totX + totW / 2, y, { width: totW / 2, align: "right" });
+    y = doc.y + 4;
+  }
+
+  /* ----- Condiciones ----- */
+  y += 14;
+  const conds = condiciones();
+  const textoCond = [`Validez de la oferta: hasta el ${fecha(validaHasta(cot))}.`, ...conds];
+  const altoCond = 20 + textoCond.length * 14;
+  if (y + altoCond > limiteY()) {
+    doc.addPage();
+    y = MARGEN;
+  }
+
+  doc.fillColor(emp.color).font("Helvetica-Bold").fontSize(10).text("Condiciones", MARGEN, y);
+  doc.fillColor("#333333").font("Helvetica").fontSize(8.5);
+  doc.list(textoCond, MARGEN, doc.y + 4, { width: anchoUtil, bulletRadius: 1.5 });
+
+  if (cot.observaciones?.trim()) {
+    doc.moveDown(0.8);
+    doc.fillColor(emp.color).font("Helvetica-Bold").fontSize(10).text("Observaciones", MARGEN);
+    doc.fillColor("#333333").font("Helvetica").fontSize(8.5);
+    doc.text(cot.observaciones.trim(), MARGEN, doc.y + 4, { width: anchoUtil });
+  }
+
+  if (crm?.vendedor) {
+    doc.moveDown(1.2);
+    const contacto = crm.vendedor.email ? ` · ${crm.vendedor.email}` : "";
+    doc.fillColor("#000000").font("Helvetica").fontSize(9).text(`Ejecutivo: ${crm.vendedor.nombre}${contacto}`, MARGEN);
+  }
+
+  doc.end();
+  return done;
+}
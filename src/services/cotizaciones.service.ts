@@ -0,0 +1,33 @@
+import { publicarEvento } from "../lib/eventBus";
+
+export function makeCodigoCotizacion() {
+  const t = Date.now().toString(36).toUpperCase();
+  const r = Math.random().toString(16).slice(2, 8).toUpperCase();
+  return `COT-${t}-${r}`;
+}
+
+type CotizacionNueva = {
+  id: string;
+  codigo: string;
+  origen: string;
+  ecommerceClienteId: string | null;
+  nombreContacto: string;
+  empresa: string | null;
+  total: number;
+};
+
+/** Evento SSE "cotizacion.nueva" (llamar después de que la cotización quedó guardada). */
+export function publicarCotizacionNueva(c: CotizacionNueva) {
+  publicarEvento(
+    "cotizacion.nueva",
+    {
+      cotizacionId: c.id,
+      codigo: c.codigo,
+      origen: c.origen,
+      nombreContacto: c.nombreContacto,
+      empresa: c.empresa,
+      total: c.total,
+    },
+    { ecommerceClienteId: c.ecommerceClienteId },
+  );
+}
@@ -0,0 +1,235 @@
+import { CrmEstadoCotizacion, CrmTipoCierre, EcommerceEstadoCotizacion, OrigenCliente, Prisma } from "@prisma/client";
+import { httpError } from "../utils/http";
+import { calcularItem, crearPedidoTx, type DespachoInput } from "./pedidos.service";
+
+type Tx = Prisma.TransactionClient;
+
+/* =========================
+   Pipeline CRM
+   NUEVA → EN_SEGUIMIENTO → GANADA | PERDIDA
+   (se puede cerrar directo desde NUEVA)
+========================= */
+
+export const TRANSICIONES_CRM: Record<CrmEstadoCotizacion, CrmEstadoCotizacion[]> = {
+  NUEVA: ["EN_SEGUIMIENTO", "GANADA", "PERDIDA"],
+  EN_SEGUIMIENTO: ["GANADA", "PERDIDA"],
+  GANADA: [],
+  PERDIDA: [],
+};
+
+function assertTransicion(desde: CrmEstadoCotizacion, hacia: CrmEstadoCotizacion) {
+  if (!TRANSICIONES_CRM[desde].includes(hacia)) {
+    throw httpError(409, `Transición inválida: ${desde} → ${hacia}`, "TRANSICION_INVALIDA", {
+      permitidas: TRANSICIONES_CRM[desde],
+    });
+  }
+}
+
+async function getCrmTx(tx: Tx, id: string) {
+  const crm = await tx.crmCotizacion.findUnique({ where: { id } });
+  if (!crm) throw httpError(404, "Cotización CRM no encontrada", "CRM_NOT_FOUND");
+  return crm;
+}
+
+export async function assertVendedorTx(tx: Tx, vendedorId: string) {
+  const u = await tx.usuario.findUnique({ where: { id: vendedorId }, select: { activo: true } });
+  if (!u || !u.activo) throw httpError(400, "vendedorId no existe o está inactivo", "VENDEDOR_INVALIDO");
+}
+
+/* =========================
+   Seguimiento
+========================= */
+
+export type SeguimientoInput = {
+  nombreObra?: string | null;
+  numeroOC?: string | null;
+  clienteDireccionSnapshot?: string | null;
+  observaciones?: string | null;
+  vendedorId?: string | null;
+  origenCliente?: OrigenCliente | null;
+  /** solo NUEVA → EN_SEGUIMIENTO; el cierre va por cerrarCrmCotizacionTx */
+  estado?: "EN_SEGUIMIENTO";
+};
+
+/** Datos de seguimiento; una PERDIDA ya no se edita (GANADA sí: se completa OC, dirección, obra). */
+export async function actualizarCrmCotizacionTx(tx: Tx, id: string, input: SeguimientoInput) {
+  const crm = await getCrmTx(tx, id);
+  if (crm.estado === "PERDIDA") {
+    throw httpError(409, "La cotización está cerrada como PERDIDA", "CRM_CERRADA");
+  }
+
+  if (input.estado) assertTransicion(crm.estado, input.estado);
+  if (input.vendedorId) await assertVendedorTx(tx, input.vendedorId);
+
+  return tx.crmCotizacion.update({ where: { id }, data: input });
+}
+
+/* =========================
+   Cierre GANADA / PERDIDA
+   - tipoCierre obligatorio; motivoPerdida obligatorio si PERDIDA
+   - la cotización ecommerce vinculada queda CERRADA
+========================= */
+
+export type CierreInput = {
+  resultado: "GANADA" | "PERDIDA";
+  tipoCierre: CrmTipoCierre;
+  motivoPerdida?: string | null;
+};
+
+export async function cerrarCrmCotizacionTx(tx: Tx, id: string, input: CierreInput, now = new Date()) {
+  const crm = await getCrmTx(tx, id);
+  assertTransicion(crm.estado, input.resultado);
+
+  const motivoPerdida = input.motivoPerdida?.trim() || null;
+  if (input.resultado === "PERDIDA" && !motivoPerdida) {
+    throw httpError(400, "motivoPerdida es obligatorio al cerrar como PERDIDA", "MOTIVO_REQUERIDO");
+  }
+
+  const updated = await tx.crmCotizacion.update({
+    where: { id },
+    data: {
+      estado: input.resultado,
+      tipoCierre: input.tipoCierre,
+      motivoPerdida: input.resultado === "PERDIDA" ? motivoPerdida : null,
+      cerradaAt: now,
+    },
+  });
+
+  await tx.ecommerce_cotizacion.updateMany({
+    where: { crmCotizacionId: id },
+    data: { estado: EcommerceEstadoCotizacion.CERRADA, updatedAt: now },
+  });
+
+  return updated;
+}
+
+/* =========================
+   Pedidos desde una cotización GANADA
+   - se copian las líneas de la cotización ecommerce vinculada (precio e IVA cotizados)
+   - entregas parciales: varios pedidos por cotización; pendiente = cotizado - pedido (sin CANCELADO)
+========================= */
+
+export type LineaPendiente = {
+  productoId: string;
+  descripcion: string;
+  precioUnitarioNeto: number;
+  ivaPct: number;
+  cotizado: number;
+  pedido: number;
+  pendiente: number;
+};
+
+/** Pendiente por producto; si un producto viene en varias líneas se suman (precio de la primera). */
+export async function pendientesCrmCotizacionTx(tx: Tx, id: string) {
+  const crm = await tx.crmCotizacion.findUnique({
+    where: { id },
+    include: { ecommerce_cotizacion: { include: { ecommerce_cotizacion_item: { orderBy: { createdAt: "asc" } } } } },
+  });
+  if (!crm) throw httpError(404, "Cotización CRM no encontrada", "CRM_NOT_FOUND");
+
+  const lineas = new Map<string, LineaPendiente>();
+  for (const it of crm.ecommerce_cotizacion?.ecommerce_cotizacion_item ?? []) {
+    const l = lineas.get(it.productoId);
+    if (l) {
+      l.cotizado += it.cantidad;
+      continue;
+    }
+    lineas.set(it.productoId, {
+      productoId: it.productoId,
+      descripcion: it.descripcionSnapshot,
+      precioUnitarioNeto: it.precioUnitarioNetoSnapshot,
+      ivaPct: it.ivaPctSnapshot,
+      cotizado: it.cantidad,
+      pedido: 0,
+      pendiente: 0,
+    });
+  }
+
+  const pedidos = await tx.ecommerce_pedido_item.groupBy({
+    by: ["productoId"],
+    where: { ecommerce_pedido: { crmCotizacionId: id, estado: { not: "CANCELADO" } } },
+    _sum: { cantidad: true },
+  });
+  for (const p of pedidos) {
+    const l = lineas.get(p.productoId);
+    if (l) l.pedido = p._sum.cantidad ?? 0;
+  }
+
+  const items = [...lineas.values()].map((l) => ({ ...l, pendiente: Math.max(0, l.cotizado - l.pedido) }));
+  return { crm, items, completa: items.every((l) => l.pendiente === 0) };
+}
+
+export type GenerarPedidoInput = {
+  /** líneas editadas; si no vienen se pide todo lo pendiente */
+  items?: Array<{ productoId: string; cantidad: number; precioUnitarioNeto?: number }>;
+  /** si no viene, se usan los snapshots del cliente (clienteDireccionSnapshot) */
+  despacho?: DespachoInput | null;
+};
+
+export async function generarPedidoDesdeCrmTx(tx: Tx, id: string, input: GenerarPedidoInput) {
+  // lock de la fila: dos pedidos en paralelo leerían los mismos pendientes y juntos excederían lo cotizado
+  await tx.$queryRaw`SELECT id FROM "CrmCotizacion" WHERE id = ${id} FOR UPDATE`;
+
+  const { crm, items: pendientes } = await pendientesCrmCotizacionTx(tx, id);
+  if (crm.estado !== "GANADA") {
+    throw httpError(409, "Solo se generan pedidos de cotizaciones GANADA", "CRM_NO_GANADA", { estado: crm.estado });
+  }
+  if (pendientes.length === 0) {
+    throw httpError(409, "La cotización no tiene ítems vinculados", "CRM_SIN_ITEMS");
+  }
+
+  const porProducto = new Map(pendientes.map((l) => [l.productoId, l]));
+  const pedir = input.items ?? pendientes.filter((l) => l.pendiente > 0).map((l) => ({ ...l, cantidad: l.pendiente }));
+  if (pedir.length === 0) {
+    throw httpError(409, "No quedan cantidades pendientes por pedir", "SIN_PENDIENTES");
+  }
+
+  const vistos = new Set<string>();
+  const items = pedir.map((it) => {
+    const l = porProducto.get(it.productoId);
+    if (!l) {
+      throw httpError(400, "El producto no está en la cotización", "PRODUCTO_NO_COTIZADO", { productoId: it.productoId });
+    }
+    if (vistos.has(it.productoId)) {
+      throw httpError(400, "Producto repetido en items", "ITEM_DUPLICADO", { productoId: it.productoId });
+    }
+    vistos.add(it.productoId);
+    if (it.cantidad > l.pendiente) {
+      throw httpError(409, `Cantidad excede lo pendiente (${l.pendiente})`, "CANTIDAD_EXCEDE_PENDIENTE", {
+        productoId: it.productoId,
+        pendiente: l.pendiente,
+      });
+    }
+    return calcularItem({
+      productoId: l.productoId,
+      descripcion: l.descripcion,
+      cantidad: it.cantidad,
+      precioUnitarioNeto: it.precioUnitarioNeto ?? l.precioUnitarioNeto,
+      ivaPct: l.ivaPct,
+    });
+  });
+
+  const pedido = await crearPedidoTx(tx, {
+    ecommerceClienteId: crm.ecommerce_cotizacion?.ecommerceClienteId ?? null,
+    clienteId: crm.clienteId,
+    crmCotizacionId: crm.id,
+    despacho: input.despacho ?? null,
+    items,
+  });
+
+  if (!input.despacho) {
+    // dirección en texto libre: va a despachoDireccion (sin ecommerce_direccion estructurada)
+    await tx.ecommerce_pedido.update({
+      where: { id: pedido.id },
+      data: {
+        despachoNombre: crm.clienteNombreSnapshot,
+        despachoTelefono: crm.clienteTelefonoSnapshot,
+        despachoEmail: crm.clienteEmailSnapshot,
+        despachoDireccion: crm.clienteDireccionSnapshot,
+        despachoNotas: crm.nombreObra ? `Obra: ${crm.nombreObra}` : null,
+      },
+    });
+  }
+
+  return pedido;
+}
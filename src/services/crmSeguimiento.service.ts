@@ -0,0 +1,242 @@
+import { randomUUID } from "crypto";
+import { CrmActividadTipo, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { httpError } from "../utils/http";
+import { assertVendedorTx } from "./crmCotizaciones.service";
+
+type Tx = Prisma.TransactionClient;
+
+/* =========================
+   Vínculo: cotización CRM y/o cliente
+   - al menos uno; si solo viene la cotización se hereda su cliente (si existe)
+========================= */
+
+export type Vinculo = { crmCotizacionId?: string | null; clienteId?: string | null };
+
+async function resolverVinculoTx(tx: Tx, v: Vinculo) {
+  if (!v.crmCotizacionId && !v.clienteId) {
+    throw httpError(400, "Debes indicar crmCotizacionId o clienteId", "SIN_VINCULO");
+  }
+
+  let clienteId = v.clienteId ?? null;
+
+  if (v.crmCotizacionId) {
+    const crm = await tx.crmCotizacion.findUnique({ where: { id: v.crmCotizacionId }, select: { clienteId: true } });
+    if (!crm) throw httpError(404, "Cotización CRM no encontrada", "CRM_NOT_FOUND");
+    if (!clienteId && crm.clienteId) {
+      // CrmCotizacion.clienteId no tiene FK: solo se hereda si el cliente sigue existiendo
+      const existe = await tx.cliente.findUnique({ where: { id: crm.clienteId }, select: { id: true } });
+      clienteId = existe?.id ?? null;
+    }
+  }
+
+  if (v.clienteId) {
+    const cliente = await tx.cliente.findUnique({ where: { id: v.clienteId }, select: { id: true } });
+    if (!cliente) throw httpError(404, "Cliente no encontrado", "CLIENTE_NOT_FOUND");
+  }
+
+  return { crmCotizacionId: v.crmCotizacionId ?? null, clienteId };
+}
+
+/* =========================
+   Actividades
+========================= */
+
+export type ActividadInput = Vinculo & {
+  tipo: CrmActividadTipo;
+  resumen: string;
+  detalle?: string | null;
+  fecha?: Date;
+  usuarioId?: string | null;
+};
+
+export async function registrarActividadTx(tx: Tx, input: ActividadInput) {
+  const vinculo = await resolverVinculoTx(tx, input);
+  return tx.crmActividad.create({
+    data: {
+      ...vinculo,
+      tipo: input.tipo,
+      resumen: input.resumen,
+      detalle: input.detalle ?? null,
+      fecha: input.fecha,
+      usuarioId: input.usuarioId ?? null,
+    },
+  });
+}
+
+/* =========================
+   Tareas
+   PENDIENTE → COMPLETADA | CANCELADA
+========================= */
+
+async function getTareaPendienteTx(tx: Tx, id: string) {
+  const tarea = await tx.crmTarea.findUnique({ where: { id } });
+  if (!tarea) throw httpError(404, "Tarea no encontrada", "TAREA_NOT_FOUND");
+  if (tarea.estado !== "PENDIENTE") {
+    throw httpError(409, `La tarea ya está ${tarea.estado}`, "TAREA_CERRADA");
+  }
+  return tarea;
+}
+
+export type TareaInput = Vinculo & {
+  titulo: string;
+  detalle?: string | null;
+  venceAt: Date;
+  vendedorId: string;
+  creadoPorId?: string | null;
+};
+
+export async function crearTareaTx(tx: Tx, input: TareaInput) {
+  const vinculo = await resolverVinculoTx(tx, input);
+  await assertVendedorTx(tx, input.vendedorId);
+
+  return tx.crmTarea.create({
+    data: {
+      ...vinculo,
+      titulo: input.titulo,
+      detalle: input.detalle ?? null,
+      venceAt: input.venceAt,
+      vendedorId: input.vendedorId,
+      creadoPorId: input.creadoPorId ?? null,
+    },
+  });
+}
+
+export type TareaUpdate = { titulo?: string; detalle?: string | null; venceAt?: Date; vendedorId?: string };
+
+export async function actualizarTareaTx(tx: Tx, id: string, input: TareaUpdate) {
+  const tarea = await getTareaPendienteTx(tx, id);
+  if (input.vendedorId) await assertVendedorTx(tx, input.vendedorId);
+
+  // nuevo vencimiento: si vuelve a vencer, se vuelve a avisar
+  const reprogramada = input.venceAt && input.venceAt.getTime() !== tarea.venceAt.getTime();
+
+  return tx.crmTarea.update({
+    where: { id },
+    data: { ...input, recordatorioAt: reprogramada ? null : undefined },
+  });
+}
+
+/** Completa la tarea; si viene "resultado" queda también como actividad NOTA en el historial. */
+export async function completarTareaTx(
+  tx: Tx,
+  id: string,
+  opts: { resultado?: string | null; usuarioId?: string | null },
+  now = new Date(),
+) {
+  const tarea = await getTareaPendienteTx(tx, id);
+
+  const resultado = opts.resultado?.trim();
+  if (resultado) {
+    await tx.crmActividad.create({
+      data: {
+        tipo: "NOTA",
+        crmCotizacionId: tarea.crmCotizacionId,
+        clienteId: tarea.clienteId,
+        usuarioId: opts.usuarioId ?? null,
+        resumen: `Tarea completada: ${tarea.titulo}`,
+        detalle: resultado,
+        fecha: now,
+      },
+    });
+  }
+
+  return tx.crmTarea.update({ where: { id }, data: { estado: "COMPLETADA", completadaAt: now } });
+}
+
+export async function cancelarTareaTx(tx: Tx, id: string) {
+  await getTareaPendienteTx(tx, id);
+  return tx.crmTarea.update({ where: { id }, data: { estado: "CANCELADA" } });
+}
+
+/* =========================
+   Mis seguimientos (vendedor)
+   - tareas pendientes: vencidas / hoy / próximos 7 días / después
+   - cotizaciones abiertas del vendedor sin ninguna tarea pendiente
+========================= */
+
+export const tareaInclude = {
+  vendedor: { select: { id: true, nombre: true } },
+  crmCotizacion: { select: { id: true, clienteNombreSnapshot: true, nombreObra: true, estado: true, total: true } },
+  cliente: { select: { id: true, nombre: true, telefono: true, email: true } },
+} satisfies Prisma.CrmTareaInclude;
+
+export async function misSeguimientos(vendedorId: string, now = new Date()) {
+  const finDeHoy = new Date(now);
+  finDeHoy.setHours(23, 59, 59, 999);
+  const en7Dias = new Date(finDeHoy.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+  const [tareas, sinTarea] = await Promise.all([
+    prisma.crmTarea.findMany({
+      where: { vendedorId, estado: "PENDIENTE" },
+      include: tareaInclude,
+      orderBy: { venceAt: "asc" },
+    }),
+    prisma.crmCotizacion.findMany({
+      where: {
+        vendedorId,
+        estado: { in: ["NUEVA", "EN_SEGUIMIENTO"] },
+        tareas: { none: { estado: "PENDIENTE" } },
+      },
+      select: {
+        id: true,
+        clienteNombreSnapshot: true,
+        nombreObra: true,
+        estado: true,
+        total: true,
+        createdAt: true,
+        actividades: { select: { fecha: true, tipo: true, resumen: true }, orderBy: { fecha: "desc" }, take: 1 },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    vencidas: tareas.filter((t) => t.venceAt < now),
+    hoy: tareas.filter((t) => t.venceAt >= now && t.venceAt <= finDeHoy),
+    proximas: tareas.filter((t) => t.venceAt > finDeHoy && t.venceAt <= en7Dias),
+    despues: tareas.filter((t) => t.venceAt > en7Dias),
+    cotizacionesSinTarea: sinTarea.map(({ actividades, ...c }) => ({ ...c, ultimaActividad: actividades[0] ?? null })),
+  };
+}
+
+/* =========================
+   Recordatorios: 1 notificación CRM_TAREA_VENCIDA por tarea vencida
+========================= */
+
+export async function notificarTareasVencidas(now = new Date()) {
+  const vencidas = await prisma.crmTarea.findMany({
+    where: { estado: "PENDIENTE", venceAt: { lt: now }, recordatorioAt: null },
+    include: tareaInclude,
+    orderBy: { venceAt: "asc" },
+  });
+
+  let notificadas = 0;
+
+  for (const t of vencidas) {
+    await prisma.$transaction(async (tx) => {
+      // condición en el where: si se completó o reprogramó entre medio, no se avisa
+      const marcada = await tx.crmTarea.updateMany({
+        where: { id: t.id, estado: "PENDIENTE", venceAt: t.venceAt, recordatorioAt: null },
+        data: { recordatorioAt: now },
+      });
+      if (marcada.count === 0) return;
+
+      const sobre = t.crmCotizacion?.clienteNombreSnapshot ?? t.cliente?.nombre;
+      await tx.ecommerce_notificacion.create({
+        data: {
+          id: randomUUID(),
+          tipo: "CRM_TAREA_VENCIDA",
+          referenciaTabla: "CrmTarea",
+          referenciaId: t.id,
+          titulo: `Tarea vencida: ${t.titulo}`,
+          detalle: `${t.vendedor.nombre}${sobre ? ` · ${sobre}` : ""}. Vencía ${t.venceAt.toISOString()}.`,
+          leido: false,
+        },
+      });
+      notificadas++;
+    });
+  }
+
+  return { revisadas: vencidas.length, notificadas };
+}
@@ -0,0 +1,11 @@
+import { sendMail } from "../../lib/mailer";
+import type { NotificationChannel } from "./types";
+
+/** Usa el mailer (MAIL_TRANSPORT=smtp en producción). */
+export const emailChannel: NotificationChannel = {
+  nombre: "email",
+  async send(destino, msg) {
+    const { id } = await sendMail({ to: destino, subject: msg.titulo, text: msg.texto });
+    return { ref: id };
+  },
+};
@@ -0,0 +1,18 @@
+import type { NotificationChannel } from "./types";
+import { emailChannel } from "./emailChannel";
+import { webhookChannel } from "./webhookChannel";
+import { outboxChannel } from "./outboxChannel";
+
+export type { NotificationChannel, NotificationMessage } from "./types";
+
+const channels: Record<string, NotificationChannel> = {
+  email: emailChannel,
+  webhook: webhookChannel,
+  outbox: outboxChannel,
+};
+
+export function getNotificationChannel(nombre: string): NotificationChannel {
+  const ch = channels[nombre];
+  if (!ch) throw new Error(`Canal de notificación desconocido: ${nombre}`);
+  return ch;
+}
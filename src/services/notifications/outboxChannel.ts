@@ -0,0 +1,19 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { NotificationChannel } from "./types";
+
+/** Deja cada notificación como JSON en una carpeta (dev / tests). El destino es la carpeta. */
+export const outboxChannel: NotificationChannel = {
+  nombre: "outbox",
+  async send(destino, msg) {
+    const id = randomUUID();
+    await mkdir(destino, { recursive: true });
+    await writeFile(
+      path.join(destino, `${new Date().toISOString().replace(/[:.]/g, "-")}_${msg.evento}_${id}.json`),
+      JSON.stringify({ id, ...msg, createdAt: new Date().toISOString() }, null, 2),
+      "utf8",
+    );
+    return { ref: id };
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Un canal recibe un destino (email, URL, carpeta...) y un mensaje ya armado.
+ * Si falla debe lanzar: el dispatcher registra el error y reintenta.
+ */
+
+export type NotificationMessage = {
+  evento: string;
+  titulo: string;
+  texto: string;
+  data: Record<string, unknown>;
+};
+
+export type NotificationChannel = {
+  nombre: string;
+  send(destino: string, msg: NotificationMessage): Promise<{ ref: string | null }>;
+};
@@ -0,0 +1,27 @@
+import { createHmac } from "crypto";
+import type { NotificationChannel } from "./types";
+
+/**
+ * POST JSON al destino. Con NOTIFY_WEBHOOK_SECRET se firma el body
+ * (header X-Covasa-Signature: sha256=<hmac hex>) para que el receptor lo valide.
+ */
+export const webhookChannel: NotificationChannel = {
+  nombre: "webhook",
+  async send(destino, msg) {
+    const body = JSON.stringify({ ...msg, sentAt: new Date().toISOString() });
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+    if (secret) headers["X-Covasa-Signature"] = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+    const r = await fetch(destino, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(Number(process.env.NOTIFY_WEBHOOK_TIMEOUT_MS) || 10_000),
+    });
+    if (!r.ok) throw new Error(`Webhook respondió ${r.status}`);
+
+    return { ref: r.headers.get("x-request-id") };
+  },
+};
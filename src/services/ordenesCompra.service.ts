@@ -0,0 +1,548 @@
+import { OrdenCompraEstado, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { httpError } from "../utils/http";
+import { registrarMovimientoTx } from "./stockMovimientos.service";
+import { evaluateStockCriticalTx, isFleteTipo } from "./stockCritical.service";
+import { convertirAClp, redondearMonto, tasasAl } from "./tiposCambio.service";
+
+type Tx = Prisma.TransactionClient;
+
+/* =========================
+   Ciclo de vida
+   BORRADOR → EMITIDA → RECIBIDA_PARCIAL → RECIBIDA → CERRADA
+   (CERRADA también "corta" una OC con saldo pendiente; CANCELADA solo sin recepciones)
+========================= */
+
+export const TRANSICIONES_OC: Record<OrdenCompraEstado, OrdenCompraEstado[]> = {
+  BORRADOR: ["EMITIDA", "CANCELADA"],
+  EMITIDA: ["RECIBIDA_PARCIAL", "RECIBIDA", "CERRADA", "CANCELADA"],
+  RECIBIDA_PARCIAL: ["RECIBIDA", "CERRADA"],
+  RECIBIDA: ["CERRADA"],
+  CERRADA: [],
+  CANCELADA: [],
+};
+
+/** Estados cuyo saldo pendiente cuenta como "en camino" para las sugerencias. */
+const ESTADOS_ABIERTOS: OrdenCompraEstado[] = ["BORRADOR", "EMITIDA", "RECIBIDA_PARCIAL"];
+
+const REFERENCIA_TABLA = "OrdenCompra";
+
+export function makeCodigoOrdenCompra() {
+  const t = Date.now().toString(36).toUpperCase();
+  const r = Math.random().toString(16).slice(2, 8).toUpperCase();
+  return `OC-${t}-${r}`;
+}
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+function assertTransicion(desde: OrdenCompraEstado, hacia: OrdenCompraEstado) {
+  if (!TRANSICIONES_OC[desde].includes(hacia)) {
+    throw httpError(409, `Transición inválida: ${desde} → ${hacia}`, "TRANSICION_INVALIDA", {
+      permitidas: TRANSICIONES_OC[desde],
+    });
+  }
+}
+
+async function getOrdenTx(tx: Tx, ordenId: string) {
+  const orden = await tx.ordenCompra.findUnique({ where: { id: ordenId }, include: { lineas: true } });
+  if (!orden) throw httpError(404, "Orden de compra no encontrada", "OC_NOT_FOUND");
+  return orden;
+}
+
+/* =========================
+   Precio de proveedor
+========================= */
+
+type PrecioRef = { proveedorId: string; precio: Prisma.Decimal; moneda: string; precioClp: number | null };
+
+/**
+ * Precio vigente más barato por producto, comparado en CLP con el tipo de cambio de hoy.
+ * Precios en moneda sin tipo de cambio cargado solo se usan si no hay otra opción.
+ */
+async function preciosMasBaratos(productoIds: string[], proveedorId?: string) {
+  const [precios, tasas] = await Promise.all([
+    prisma.precioProveedor.findMany({
+      where: { productoId: { in: productoIds }, vigente: true, proveedorId },
+      select: { productoId: true, proveedorId: true, precio: true, moneda: true },
+      orderBy: { precio: "asc" },
+    }),
+    tasasAl(),
+  ]);
+
+  const mejor = new Map<string, PrecioRef>();
+  for (const p of precios) {
+    const ref = { ...p, precioClp: convertirAClp(p.precio, p.moneda, tasas).precioClp };
+    const actual = mejor.get(p.productoId);
+    if (!actual || (ref.precioClp !== null && (actual.precioClp === null || ref.precioClp < actual.precioClp))) {
+      mejor.set(p.productoId, ref);
+    }
+  }
+  return mejor;
+}
+
+/* =========================
+   Sugerencias de reposición
+   objetivo = minimo + velocidad de Salida diaria × días de cobertura
+   sugerido = objetivo − stock − saldo en OCs abiertas (borrador / emitida / parcial)
+   - COMPRAS_VENTANA_DIAS (default 30): ventana para medir la velocidad de salida
+   - COMPRAS_COBERTURA_DIAS (default 15)
+========================= */
+
+export type SugerenciaOpts = {
+  ventanaDias?: number;
+  coberturaDias?: number;
+  proveedorId?: string;
+  soloCriticos?: boolean;
+};
+
+export type SugerenciaItem = {
+  productoId: string;
+  sku: string | null;
+  nombre: string;
+  stock: number;
+  minimo: number;
+  salidasVentana: number;
+  velocidadDiaria: number;
+  enCamino: number;
+  enBorrador: number;
+  objetivo: number;
+  sugerido: number;
+  alertaAbierta: boolean;
+  precioUnitario: Prisma.Decimal | null;
+  /** precioUnitario convertido a CLP (tipo de cambio de hoy) */
+  precioUnitarioClp: number | null;
+  subtotal: Prisma.Decimal | null;
+};
+
+export async function sugerirReposicion(opts: SugerenciaOpts = {}, now = new Date()) {
+  const ventanaDias = opts.ventanaDias ?? envInt("COMPRAS_VENTANA_DIAS", 30);
+  const coberturaDias = opts.coberturaDias ?? envInt("COMPRAS_COBERTURA_DIAS", 15);
+  const desde = new Date(now.getTime() - ventanaDias * 24 * 60 * 60 * 1000);
+
+  const inventarios = await prisma.inventario.findMany({
+    select: {
+      id: true,
+      stock: true,
+      minimo: true,
+      producto: { select: { id: true, sku: true, nombre: true, tipo: true } },
+      alerts: { where: { isActive: true }, select: { id: true }, take: 1 },
+    },
+  });
+
+  const [salidas, abiertas] = await Promise.all([
+    prisma.stockMovimiento.groupBy({
+      by: ["inventarioId"],
+      where: { tipo: "Salida", createdAt: { gte: desde } },
+      _sum: { cantidad: true },
+    }),
+    prisma.ordenCompraLinea.findMany({
+      where: { orden: { estado: { in: ESTADOS_ABIERTOS } } },
+      select: { productoId: true, cantidad: true, cantidadRecibida: true, orden: { select: { estado: true } } },
+    }),
+  ]);
+
+  const salidasPorInv = new Map(salidas.map((s) => [s.inventarioId, s._sum.cantidad ?? 0]));
+
+  // 1 producto puede estar en varias bodegas: se sugiere por producto
+  type AcumProducto = {
+    producto: { id: string; sku: string | null; nombre: string };
+    stock: number;
+    minimo: number;
+    salidas: number;
+    alertaAbierta: boolean;
+  };
+  const porProducto = new Map<string, AcumProducto>();
+  for (const inv of inventarios) {
+    if (isFleteTipo(inv.producto.tipo)) continue;
+    const acc = porProducto.get(inv.producto.id) ?? {
+      producto: { id: inv.producto.id, sku: inv.producto.sku, nombre: inv.producto.nombre },
+      stock: 0,
+      minimo: 0,
+      salidas: 0,
+      alertaAbierta: false,
+    };
+    acc.stock += inv.stock;
+    acc.minimo += inv.minimo;
+    acc.salidas += salidasPorInv.get(inv.id) ?? 0;
+    acc.alertaAbierta ||= inv.alerts.length > 0;
+    porProducto.set(inv.producto.id, acc);
+  }
+
+  const enCamino = new Map<string, number>();
+  const enBorrador = new Map<string, number>();
+  for (const l of abiertas) {
+    const pendiente = Math.max(0, l.cantidad - l.cantidadRecibida);
+    const m = l.orden.estado === "BORRADOR" ? enBorrador : enCamino;
+    m.set(l.productoId, (m.get(l.productoId) ?? 0) + pendiente);
+  }
+
+  const candidatos = [...porProducto.values()]
+    .filter((p) => !opts.soloCriticos || p.alertaAbierta || p.stock <= p.minimo)
+    .map((p) => {
+      const velocidadDiaria = p.salidas / ventanaDias;
+      const objetivo = p.minimo + Math.ceil(velocidadDiaria * coberturaDias);
+      const camino = enCamino.get(p.producto.id) ?? 0;
+      const borrador = enBorrador.get(p.producto.id) ?? 0;
+      return {
+        ...p,
+        velocidadDiaria: Math.round(velocidadDiaria * 100) / 100,
+        enCamino: camino,
+        enBorrador: borrador,
+        objetivo,
+        sugerido: Math.max(0, objetivo - p.stock - camino - borrador),
+      };
+    })
+    .filter((p) => p.sugerido > 0);
+
+  const precios = await preciosMasBaratos(candidatos.map((c) => c.producto.id), opts.proveedorId);
+
+  // agrupado por proveedor + moneda (una OC por grupo); sin precio vigente → grupo sin proveedor
+  type Grupo = { proveedorId: string | null; moneda: string | null; items: SugerenciaItem[]; total: Prisma.Decimal };
+  const grupos = new Map<string, Grupo>();
+  for (const c of candidatos) {
+    const precio = precios.get(c.producto.id) ?? null;
+    if (opts.proveedorId && !precio) continue;
+
+    const key = precio ? `${precio.proveedorId}:${precio.moneda}` : "sin-proveedor";
+    const g: Grupo = grupos.get(key) ?? {
+      proveedorId: precio?.proveedorId ?? null,
+      moneda: precio?.moneda ?? null,
+      items: [],
+      total: new Prisma.Decimal(0),
+    };
+    const subtotal = precio ? redondearMonto(precio.precio.mul(c.sugerido), precio.moneda) : null;
+
+    g.items.push({
+      productoId: c.producto.id,
+      sku: c.producto.sku,
+      nombre: c.producto.nombre,
+      stock: c.stock,
+      minimo: c.minimo,
+      salidasVentana: c.salidas,
+      velocidadDiaria: c.velocidadDiaria,
+      enCamino: c.enCamino,
+      enBorrador: c.enBorrador,
+      objetivo: c.objetivo,
+      sugerido: c.sugerido,
+      alertaAbierta: c.alertaAbierta,
+      precioUnitario: precio?.precio ?? null,
+      precioUnitarioClp: precio?.precioClp ?? null,
+      subtotal,
+    });
+    if (subtotal) g.total = g.total.add(subtotal);
+    grupos.set(key, g);
+  }
+
+  const proveedores = await prisma.proveedor.findMany({
+    where: { id: { in: [...grupos.values()].flatMap((g) => (g.proveedorId ? [g.proveedorId] : [])) } },
+    select: { id: true, nombre: true, email: true },
+  });
+  const provMap = new Map(proveedores.map((p) => [p.id, p]));
+
+  return {
+    parametros: { ventanaDias, coberturaDias, proveedorId: opts.proveedorId ?? null, soloCriticos: !!opts.soloCriticos },
+    grupos: [...grupos.values()]
+      .map((g) => ({ ...g, proveedor: g.proveedorId ? provMap.get(g.proveedorId) ?? null : null }))
+      .sort((a, b) => Number(!a.proveedorId) - Number(!b.proveedorId) || b.total.comparedTo(a.total)),
+  };
+}
+
+/* =========================
+   Crear / editar
+========================= */
+
+export type OrdenCompraLineaInput = {
+  productoId: string;
+  cantidad: number;
+  /** si no viene: precio vigente del proveedor para ese producto */
+  precioUnitario?: Prisma.Decimal.Value;
+  descripcion?: string;
+  inventarioId?: string | null;
+};
+
+export type CrearOrdenCompraInput = {
+  proveedorId: string;
+  lineas: OrdenCompraLineaInput[];
+  moneda?: string;
+  notas?: string | null;
+  creadoPorId?: string | null;
+  sugerida?: boolean;
+};
+
+/**
+ * Líneas sin precioUnitario toman el precio vigente del proveedor, en su moneda:
+ * sin moneda explícita la OC queda en la moneda de esos precios (CLP si todos vienen a mano),
+ * y un precio vigente en otra moneda que la de la OC se rechaza.
+ */
+async function calcularLineasTx(
+  tx: Tx,
+  proveedorId: string,
+  monedaOrden: string | undefined,
+  lineas: OrdenCompraLineaInput[],
+) {
+  const productoIds = [...new Set(lineas.map((l) => l.productoId))];
+
+  const [productos, precios] = await Promise.all([
+    tx.producto.findMany({ where: { id: { in: productoIds } }, select: { id: true, nombre: true, tipo: true } }),
+    tx.precioProveedor.findMany({
+      where: { proveedorId, productoId: { in: productoIds }, vigente: true },
+      select: { productoId: true, precio: true, moneda: true },
+    }),
+  ]);
+  const prodMap = new Map(productos.map((p) => [p.id, p]));
+  const precioMap = new Map(precios.map((p) => [p.productoId, p]));
+
+  const monedasUsadas = new Set(
+    lineas.flatMap((l) => {
+      const p = l.precioUnitario === undefined ? precioMap.get(l.productoId) : undefined;
+      return p ? [p.moneda] : [];
+    }),
+  );
+  if (!monedaOrden && monedasUsadas.size > 1) {
+    throw httpError(400, "Los precios vigentes del proveedor están en distintas monedas; indica moneda", "MONEDAS_MEZCLADAS", {
+      monedas: [...monedasUsadas],
+    });
+  }
+  const moneda = monedaOrden ?? [...monedasUsadas][0] ?? "CLP";
+
+  const calculadas = lineas.map((l, idx) => {
+    const producto = prodMap.get(l.productoId);
+    if (!producto) throw httpError(400, `Línea #${idx + 1}: producto no existe`, "PRODUCTO_NOT_FOUND");
+    if (isFleteTipo(producto.tipo)) throw httpError(400, `Línea #${idx + 1}: no se compra un flete`, "PRODUCTO_ES_FLETE");
+
+    const vigente = precioMap.get(l.productoId);
+    const precioUnitario = l.precioUnitario ?? vigente?.precio;
+    if (precioUnitario === undefined) {
+      throw httpError(400, `Línea #${idx + 1}: el proveedor no tiene precio vigente; envía precioUnitario`, "SIN_PRECIO");
+    }
+    if (l.precioUnitario === undefined && vigente && vigente.moneda !== moneda) {
+      throw httpError(
+        400,
+        `Línea #${idx + 1}: el precio vigente está en ${vigente.moneda} y la OC en ${moneda}; envía precioUnitario`,
+        "MONEDA_DISTINTA",
+      );
+    }
+
+    const unitario = redondearMonto(precioUnitario, moneda);
+    return {
+      productoId: l.productoId,
+      inventarioId: l.inventarioId ?? null,
+      descripcion: l.descripcion?.trim() || producto.nombre,
+      cantidad: l.cantidad,
+      precioUnitario: unitario,
+      subtotal: redondearMonto(unitario.mul(l.cantidad), moneda),
+    };
+  });
+
+  return { moneda, lineas: calculadas };
+}
+
+function sumarSubtotales(lineas: Array<{ subtotal: Prisma.Decimal }>, moneda: string) {
+  return redondearMonto(Prisma.Decimal.sum(0, ...lineas.map((l) => l.subtotal)), moneda);
+}
+
+export async function crearOrdenCompraTx(tx: Tx, input: CrearOrdenCompraInput) {
+  const proveedor = await tx.proveedor.findUnique({ where: { id: input.proveedorId }, select: { id: true } });
+  if (!proveedor) throw httpError(400, "Proveedor no existe", "PROVEEDOR_NOT_FOUND");
+
+  const { moneda, lineas } = await calcularLineasTx(tx, input.proveedorId, input.moneda, input.lineas);
+
+  return tx.ordenCompra.create({
+    data: {
+      codigo: makeCodigoOrdenCompra(),
+      proveedorId: input.proveedorId,
+      moneda,
+      notas: input.notas ?? null,
+      creadoPorId: input.creadoPorId ?? null,
+      sugerida: input.sugerida ?? false,
+      subtotalNeto: sumarSubtotales(lineas, moneda),
+      lineas: { create: lineas },
+    },
+    include: { lineas: true },
+  });
+}
+
+/** Solo en BORRADOR: notas y/o reemplazo completo de líneas. */
+export async function actualizarOrdenCompraTx(
+  tx: Tx,
+  ordenId: string,
+  input: { notas?: string | null; lineas?: OrdenCompraLineaInput[] },
+) {
+  const orden = await getOrdenTx(tx, ordenId);
+  if (orden.estado !== "BORRADOR") throw httpError(409, "Solo se edita una OC en BORRADOR", "OC_NO_EDITABLE");
+
+  let subtotalNeto: Prisma.Decimal | undefined;
+  if (input.lineas) {
+    const { lineas } = await calcularLineasTx(tx, orden.proveedorId, orden.moneda, input.lineas);
+    await tx.ordenCompraLinea.deleteMany({ where: { ordenId } });
+    await tx.ordenCompraLinea.createMany({ data: lineas.map((l) => ({ ...l, ordenId })) });
+    subtotalNeto = sumarSubtotales(lineas, orden.moneda);
+  }
+
+  return tx.ordenCompra.update({
+    where: { id: ordenId },
+    data: { notas: input.notas, subtotalNeto },
+    include: { lineas: true },
+  });
+}
+
+/* =========================
+   Emitir / cerrar / cancelar
+========================= */
+
+export async function emitirOrdenCompraTx(tx: Tx, ordenId: string) {
+  const orden = await getOrdenTx(tx, ordenId);
+  assertTransicion(orden.estado, "EMITIDA");
+  if (orden.lineas.length === 0) throw httpError(409, "La OC no tiene líneas", "OC_SIN_LINEAS");
+
+  return tx.ordenCompra.update({ where: { id: ordenId }, data: { estado: "EMITIDA", emitidaAt: new Date() } });
+}
+
+/** Cierra la OC aunque quede saldo sin recibir (el proveedor no lo va a mandar). */
+export async function cerrarOrdenCompraTx(tx: Tx, ordenId: string) {
+  const orden = await getOrdenTx(tx, ordenId);
+  assertTransicion(orden.estado, "CERRADA");
+
+  return tx.ordenCompra.update({ where: { id: ordenId }, data: { estado: "CERRADA", cerradaAt: new Date() } });
+}
+
+export async function cancelarOrdenCompraTx(tx: Tx, ordenId: string) {
+  const orden = await getOrdenTx(tx, ordenId);
+  assertTransicion(orden.estado, "CANCELADA");
+  if (orden.lineas.some((l) => l.cantidadRecibida > 0)) {
+    throw httpError(409, "La OC ya tiene recepciones; ciérrala en vez de cancelarla", "OC_CON_RECEPCIONES");
+  }
+
+  return tx.ordenCompra.update({ where: { id: ordenId }, data: { estado: "CANCELADA", cerradaAt: new Date() } });
+}
+
+/* =========================
+   Recepción (parcial o total)
+   - cada línea recibida genera un StockMovimiento Entrada (referencia OrdenCompra)
+   - re-evalúa stock crítico de las bodegas tocadas (puede resolver alertas)
+========================= */
+
+export type RecepcionInput = {
+  lineas: Array<{ lineaId: string; cantidad: number; inventarioId?: string | null }>;
+  nota?: string | null;
+  usuarioId?: string | null;
+};
+
+export async function recibirOrdenCompraTx(tx: Tx, ordenId: string, input: RecepcionInput) {
+  const orden = await getOrdenTx(tx, ordenId);
+  if (orden.estado !== "EMITIDA" && orden.estado !== "RECIBIDA_PARCIAL") {
+    throw httpError(409, `No se puede recibir una OC ${orden.estado}`, "OC_NO_RECIBIBLE");
+  }
+
+  const lineasMap = new Map(orden.lineas.map((l) => [l.id, l]));
+  const recibidoAhora = new Map<string, number>();
+  const inventariosTocados = new Set<string>();
+  const recepciones = [];
+
+  for (const [idx, r] of input.lineas.entries()) {
+    const linea = lineasMap.get(r.lineaId);
+    if (!linea) throw httpError(400, `Recepción #${idx + 1}: la línea no es de esta OC`, "LINEA_NOT_FOUND");
+
+    const yaRecibido = linea.cantidadRecibida + (recibidoAhora.get(linea.id) ?? 0);
+    const pendiente = linea.cantidad - yaRecibido;
+    if (r.cantidad > pendiente) {
+      throw httpError(409, `Recepción #${idx + 1}: pendiente ${pendiente}, recibido ${r.cantidad}`, "RECEPCION_EXCEDE", {
+        lineaId: linea.id,
+        pendiente,
+      });
+    }
+
+    const inventarioId = r.inventarioId ?? linea.inventarioId ?? (await inventarioDefaultTx(tx, linea.productoId));
+    const inv = await tx.inventario.findUnique({ where: { id: inventarioId }, select: { productoId: true } });
+    if (!inv || inv.productoId !== linea.productoId) {
+      throw httpError(400, `Recepción #${idx + 1}: el inventario no corresponde al producto`, "INVENTARIO_INVALIDO");
+    }
+
+    const { mov } = await registrarMovimientoTx(tx, {
+      inventarioId,
+      tipo: "Entrada",
+      cantidad: r.cantidad,
+      nota: input.nota?.trim() || `Recepción ${orden.codigo}`,
+      referenciaTabla: REFERENCIA_TABLA,
+      referenciaId: orden.id,
+    });
+
+    recepciones.push(
+      await tx.ordenCompraRecepcion.create({
+        data: {
+          ordenId,
+          lineaId: linea.id,
+          inventarioId,
+          cantidad: r.cantidad,
+          movimientoId: mov.id,
+          nota: input.nota ?? null,
+          usuarioId: input.usuarioId ?? null,
+        },
+      }),
+    );
+
+    recibidoAhora.set(linea.id, (recibidoAhora.get(linea.id) ?? 0) + r.cantidad);
+    inventariosTocados.add(inventarioId);
+  }
+
+  // condicional: dos recepciones simultáneas sobre la misma línea → una falla en vez de sobre-recibir
+  for (const [lineaId, cantidad] of recibidoAhora) {
+    const linea = lineasMap.get(lineaId)!;
+    const { count } = await tx.ordenCompraLinea.updateMany({
+      where: { id: lineaId, cantidadRecibida: linea.cantidadRecibida },
+      data: { cantidadRecibida: { increment: cantidad } },
+    });
+    if (count === 0) throw httpError(409, "La OC se recibió en paralelo; vuelve a intentarlo", "RECEPCION_CONCURRENTE");
+  }
+
+  const completa = orden.lineas.every((l) => l.cantidadRecibida + (recibidoAhora.get(l.id) ?? 0) >= l.cantidad);
+  const actualizada = await tx.ordenCompra.update({
+    where: { id: ordenId },
+    data: { estado: completa ? "RECIBIDA" : "RECIBIDA_PARCIAL" },
+    include: { lineas: true },
+  });
+
+  const stockCritical = [];
+  for (const inventarioId of inventariosTocados) {
+    stockCritical.push({ inventarioId, ...(await evaluateStockCriticalTx(tx, inventarioId)) });
+  }
+
+  return { orden: actualizada, recepciones, stockCritical };
+}
+
+async function inventarioDefaultTx(tx: Tx, productoId: string) {
+  const inv = await tx.inventario.findFirst({ where: { productoId }, orderBy: { createdAt: "asc" }, select: { id: true } });
+  if (!inv) throw httpError(409, "El producto no tiene inventario donde recibir; crea uno primero", "SIN_INVENTARIO");
+  return inv.id;
+}
+
+/** Crea una OC BORRADOR por grupo proveedor+moneda de las sugerencias (los sin proveedor se informan aparte). */
+export async function generarOrdenesSugeridas(opts: SugerenciaOpts, creadoPorId: string | null) {
+  const { parametros, grupos } = await sugerirReposicion(opts);
+
+  const ordenes = [];
+  for (const g of grupos) {
+    if (!g.proveedorId) continue;
+    ordenes.push(
+      await prisma.$transaction((tx) =>
+        crearOrdenCompraTx(tx, {
+          proveedorId: g.proveedorId!,
+          moneda: g.moneda ?? "CLP",
+          creadoPorId,
+          sugerida: true,
+          notas: `Sugerida: cobertura ${parametros.coberturaDias} días, ventana ${parametros.ventanaDias} días`,
+          lineas: g.items.map((i) => ({
+            productoId: i.productoId,
+            cantidad: i.sugerido,
+            precioUnitario: i.precioUnitario ?? undefined,
+          })),
+        }),
+      ),
+    );
+  }
+
+  return { parametros, ordenes, sinProveedor: grupos.find((g) => !g.proveedorId)?.items ?? [] };
+}
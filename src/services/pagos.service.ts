@@ -0,0 +1,304 @@
+import { randomUUID } from "crypto";
+import { EcommerceEstadoPago, Prisma } from "@prisma/client";
+import { httpError, isHttpError } from "../utils/http";
+import { encolarEventoTx } from "../lib/eventBus";
+import { cambiarEstadoPedidoTx, puedeTransicionar } from "./pedidos.service";
+
+type Tx = Prisma.TransactionClient;
+
+type PagoMonto = { estado: EcommerceEstadoPago; monto: number; montoReembolsado: number };
+
+const pagoMontoSelect = { estado: true, monto: true, montoReembolsado: true } satisfies Prisma.ecommerce_pagoSelect;
+
+/** Totales de pagos de un pedido (pagos parciales suman; lo reembolsado se descuenta de lo confirmado). */
+export function resumenPagos(pagos: PagoMonto[], totalPedido: number) {
+  const confirmados = pagos.filter((p) => p.estado === "CONFIRMADO");
+  const reembolsado = confirmados.reduce((acc, p) => acc + p.montoReembolsado, 0);
+  const confirmado = confirmados.reduce((acc, p) => acc + p.monto, 0) - reembolsado;
+  const pendiente = pagos.filter((p) => p.estado === "PENDIENTE").reduce((acc, p) => acc + p.monto, 0);
+
+  return {
+    total: totalPedido,
+    confirmado,
+    pendiente,
+    reembolsado,
+    saldo: Math.max(0, totalPedido - confirmado),
+    cubierto: confirmado >= totalPedido,
+  };
+}
+
+function mergePayload(prev: Prisma.JsonValue | null, extra: Record<string, unknown>): Prisma.InputJsonValue {
+  const base = prev && typeof prev === "object" && !Array.isArray(prev) ? (prev as Record<string, unknown>) : {};
+  return { ...base, ...extra } as Prisma.InputJsonValue;
+}
+
+async function getPagoDePedido(tx: Tx, pedidoId: string, pagoId: string) {
+  const pago = await tx.ecommerce_pago.findFirst({ where: { id: pagoId, pedidoId } });
+  if (!pago) throw httpError(404, "Pago no encontrado", "PAGO_NOT_FOUND");
+  return pago;
+}
+
+async function encolarEventoPagoTx(tx: Tx, pago: { id: string; pedidoId: string; estado: EcommerceEstadoPago; monto: number }) {
+  const pedido = await tx.ecommerce_pedido.findUniqueOrThrow({
+    where: { id: pago.pedidoId },
+    select: { codigo: true, ecommerceClienteId: true },
+  });
+  encolarEventoTx(
+    tx,
+    "pago.estado",
+    { pagoId: pago.id, pedidoId: pago.pedidoId, codigo: pedido.codigo, estado: pago.estado, monto: pago.monto },
+    { ecommerceClienteId: pedido.ecommerceClienteId },
+  );
+}
+
+/**
+ * Si los pagos CONFIRMADO cubren el total y el pedido sigue CREADO, lo pasa a PAGADO.
+ * Si la transición falla por stock (política "rechazar"), el pago queda confirmado igual:
+ * la plata ya entró; se deja una notificación para que ventas lo resuelva.
+ */
+async function marcarPagadoSiCorrespondeTx(tx: Tx, pedidoId: string) {
+  const pedido = await tx.ecommerce_pedido.findUniqueOrThrow({
+    where: { id: pedidoId },
+    include: { ecommerce_pago: { select: pagoMontoSelect } },
+  });
+
+  const resumen = resumenPagos(pedido.ecommerce_pago, pedido.total);
+  if (!resumen.cubierto || pedido.estado !== "CREADO") return { resumen, transicion: null };
+
+  try {
+    const transicion = await cambiarEstadoPedidoTx(tx, pedidoId, "PAGADO");
+    return { resumen, transicion };
+  } catch (e: unknown) {
+    // solo errores de negocio (lanzados antes de escribir); lo demás aborta la tx
+    if (!isHttpError(e)) throw e;
+
+    await tx.ecommerce_notificacion.create({
+      data: {
+        id: randomUUID(),
+        tipo: "PEDIDO_PAGADO_BLOQUEADO",
+        referenciaTabla: "ecommerce_pedido",
+        referenciaId: pedidoId,
+        titulo: `Pedido ${pedido.codigo} pagado pero no pudo pasar a PAGADO`,
+        detalle: e.message,
+        leido: false,
+      },
+    });
+
+    return { resumen, transicion: null, error: { message: e.message, code: e.code, ...e.extra } };
+  }
+}
+
+export type RegistrarPagoInput = {
+  metodo: "TRANSBANK" | "APPLE_PAY" | "TRANSFERENCIA" | "OTRO";
+  monto: number;
+  referencia?: string | null;
+  evidenciaUrl?: string | null;
+  gatewayPayloadJson?: Prisma.InputJsonValue;
+};
+
+export async function registrarPagoTx(tx: Tx, pedidoId: string, input: RegistrarPagoInput) {
+  const pedido = await tx.ecommerce_pedido.findUnique({
+    where: { id: pedidoId },
+    include: { ecommerce_pago: { select: pagoMontoSelect } },
+  });
+  if (!pedido) throw httpError(404, "Pedido no encontrado", "PEDIDO_NOT_FOUND");
+  if (pedido.estado === "CANCELADO") throw httpError(409, "El pedido está cancelado", "PEDIDO_CANCELADO");
+
+  const resumen = resumenPagos(pedido.ecommerce_pago, pedido.total);
+  if (input.monto > resumen.saldo) {
+    throw httpError(400, `El monto excede el saldo pendiente (${resumen.saldo})`, "MONTO_EXCEDE_SALDO", { resumen });
+  }
+
+  const now = new Date();
+  return tx.ecommerce_pago.create({
+    data: {
+      id: randomUUID(),
+      pedidoId,
+      metodo: input.metodo,
+      estado: "PENDIENTE",
+      monto: input.monto,
+      referencia: input.referencia ?? null,
+      evidenciaUrl: input.evidenciaUrl ?? null,
+      gatewayPayloadJson: input.gatewayPayloadJson,
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+}
+
+export async function confirmarPagoTx(tx: Tx, pedidoId: string, pagoId: string, extraPayload?: Record<string, unknown>) {
+  const pago = await getPagoDePedido(tx, pedidoId, pagoId);
+
+  // idempotente
+  if (pago.estado === "CONFIRMADO") return { pago, ...(await marcarPagadoSiCorrespondeTx(tx, pedidoId)) };
+  if (pago.estado !== "PENDIENTE") throw httpError(409, `El pago está ${pago.estado}`, "PAGO_NO_PENDIENTE");
+
+  const updated = await tx.ecommerce_pago.update({
+    where: { id: pagoId },
+    data: {
+      estado: "CONFIRMADO",
+      gatewayPayloadJson: mergePayload(pago.gatewayPayloadJson, {
+        ...extraPayload,
+        revision: { estado: "CONFIRMADO", at: new Date().toISOString() },
+      }),
+      updatedAt: new Date(),
+    },
+  });
+
+  await encolarEventoPagoTx(tx, updated);
+
+  return { pago: updated, ...(await marcarPagadoSiCorrespondeTx(tx, pedidoId)) };
+}
+
+export async function rechazarPagoTx(
+  tx: Tx,
+  pedidoId: string,
+  pagoId: string,
+  motivo?: string | null,
+  extraPayload?: Record<string, unknown>,
+) {
+  const pago = await getPagoDePedido(tx, pedidoId, pagoId);
+
+  // idempotente
+  if (pago.estado === "RECHAZADO") return { pago };
+  if (pago.estado !== "PENDIENTE") throw httpError(409, `El pago está ${pago.estado}`, "PAGO_NO_PENDIENTE");
+
+  const updated = await tx.ecommerce_pago.update({
+    where: { id: pagoId },
+    data: {
+      estado: "RECHAZADO",
+      gatewayPayloadJson: mergePayload(pago.gatewayPayloadJson, {
+        ...extraPayload,
+        revision: { estado: "RECHAZADO", motivo: motivo ?? null, at: new Date().toISOString() },
+      }),
+      updatedAt: new Date(),
+    },
+  });
+
+  await encolarEventoPagoTx(tx, updated);
+
+  return { pago: updated };
+}
+
+/* =========================
+   Reembolsos (pasarela)
+   - antes de llamar a la pasarela se reserva el monto (montoReembolsoEnCurso) con el pago bloqueado:
+     dos reembolsos en paralelo no pueden pasar el mismo saldo
+   - respuesta OK: la reserva pasa a montoReembolsado; error: se libera
+   - si lo confirmado neto queda bajo el total, el pedido pasa a CANCELADO (reingresa stock);
+     ya ENVIADO / ENTREGADO no se puede cancelar: queda una notificación para ventas
+========================= */
+
+async function getPagoBloqueadoTx(tx: Tx, pedidoId: string, pagoId: string) {
+  await tx.$queryRaw`SELECT id FROM "ecommerce_pago" WHERE id = ${pagoId} FOR UPDATE`;
+  return getPagoDePedido(tx, pedidoId, pagoId);
+}
+
+/** Reserva `monto` (o todo lo reembolsable) para un reembolso por pasarela; devuelve el pago y el monto reservado. */
+export async function reservarReembolsoTx(tx: Tx, pedidoId: string, pagoId: string, monto?: number) {
+  const pago = await getPagoBloqueadoTx(tx, pedidoId, pagoId);
+  if (pago.metodo !== "TRANSBANK" || !pago.referencia) {
+    throw httpError(400, "Solo pagos Transbank se reembolsan por pasarela", "PAGO_NO_REEMBOLSABLE");
+  }
+  if (pago.estado !== "CONFIRMADO") throw httpError(409, `El pago está ${pago.estado}`, "PAGO_NO_CONFIRMADO");
+
+  const disponible = pago.monto - pago.montoReembolsado - pago.montoReembolsoEnCurso;
+  const reservar = monto ?? disponible;
+  if (reservar <= 0 || reservar > disponible) {
+    throw httpError(400, `El monto excede lo reembolsable (${disponible})`, "MONTO_EXCEDE_PAGO", {
+      disponible,
+      enCurso: pago.montoReembolsoEnCurso,
+    });
+  }
+
+  const updated = await tx.ecommerce_pago.update({
+    where: { id: pagoId },
+    data: { montoReembolsoEnCurso: { increment: reservar }, updatedAt: new Date() },
+  });
+  return { pago: updated, monto: reservar };
+}
+
+/** La pasarela rechazó o falló: el monto reservado vuelve a quedar disponible. */
+export async function liberarReembolsoTx(tx: Tx, pedidoId: string, pagoId: string, monto: number) {
+  await getPagoBloqueadoTx(tx, pedidoId, pagoId);
+  return tx.ecommerce_pago.update({
+    where: { id: pagoId },
+    data: { montoReembolsoEnCurso: { decrement: monto }, updatedAt: new Date() },
+  });
+}
+
+/** La pasarela reembolsó: la reserva pasa a montoReembolsado. */
+export async function registrarReembolsoTx(
+  tx: Tx,
+  pedidoId: string,
+  pagoId: string,
+  monto: number,
+  extraPayload?: Record<string, unknown>,
+) {
+  const pago = await getPagoBloqueadoTx(tx, pedidoId, pagoId);
+  // el reembolso ya se hizo en la pasarela: no se re-valida contra el estado, solo que haya reserva
+  if (monto > pago.montoReembolsoEnCurso) {
+    throw httpError(409, "No hay reserva para este reembolso", "REEMBOLSO_SIN_RESERVA", {
+      enCurso: pago.montoReembolsoEnCurso,
+    });
+  }
+
+  const prev = pago.gatewayPayloadJson;
+  const reembolsos =
+    prev && typeof prev === "object" && !Array.isArray(prev) && Array.isArray(prev.reembolsos) ? prev.reembolsos : [];
+
+  const updated = await tx.ecommerce_pago.update({
+    where: { id: pagoId },
+    data: {
+      montoReembolsado: { increment: monto },
+      montoReembolsoEnCurso: { decrement: monto },
+      gatewayPayloadJson: mergePayload(prev, {
+        reembolsos: [...reembolsos, { ...extraPayload, monto, at: new Date().toISOString() }],
+      }),
+      updatedAt: new Date(),
+    },
+  });
+
+  await encolarEventoPagoTx(tx, updated);
+
+  return { pago: updated, ...(await revertirPagadoSiCorrespondeTx(tx, pedidoId)) };
+}
+
+async function revertirPagadoSiCorrespondeTx(tx: Tx, pedidoId: string) {
+  const pedido = await tx.ecommerce_pedido.findUniqueOrThrow({
+    where: { id: pedidoId },
+    include: { ecommerce_pago: { select: pagoMontoSelect } },
+  });
+
+  const resumen = resumenPagos(pedido.ecommerce_pago, pedido.total);
+  // CREADO: nunca se marcó pagado; CANCELADO: nada que revertir
+  if (resumen.cubierto || pedido.estado === "CREADO" || pedido.estado === "CANCELADO") {
+    return { resumen, transicion: null };
+  }
+
+  let error: string | null = null;
+  if (puedeTransicionar(pedido.estado, "CANCELADO")) {
+    try {
+      const transicion = await cambiarEstadoPedidoTx(tx, pedidoId, "CANCELADO");
+      return { resumen, transicion };
+    } catch (e: unknown) {
+      if (!isHttpError(e)) throw e;
+      error = e.message;
+    }
+  }
+
+  // el reembolso ya se hizo en la pasarela: se registra igual y se avisa
+  await tx.ecommerce_notificacion.create({
+    data: {
+      id: randomUUID(),
+      tipo: "PEDIDO_REEMBOLSADO",
+      referenciaTabla: "ecommerce_pedido",
+      referenciaId: pedidoId,
+      titulo: `Pedido ${pedido.codigo} reembolsado en estado ${pedido.estado}`,
+      detalle: error ?? `Pagado neto ${resumen.confirmado} de ${resumen.total}; revisar devolución de productos.`,
+      leido: false,
+    },
+  });
+
+  return { resumen, transicion: null };
+}
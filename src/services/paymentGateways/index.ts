@@ -0,0 +1,20 @@
+import type { PaymentGateway } from "./types";
+import { webpaySimulator } from "./webpaySimulator";
+
+export type { PaymentGateway } from "./types";
+
+/**
+ * Registro de adapters. Para conectar Transbank real basta con implementar
+ * PaymentGateway (ej: con el SDK oficial) y registrarlo aquí.
+ */
+const gateways: Record<string, PaymentGateway> = {
+  simulador: webpaySimulator,
+};
+
+/** PAYMENT_GATEWAY=simulador (default) */
+export function getPaymentGateway(): PaymentGateway {
+  const key = String(process.env.PAYMENT_GATEWAY || "simulador").trim().toLowerCase();
+  const gw = gateways[key];
+  if (!gw) throw new Error(`PAYMENT_GATEWAY desconocido: ${key}`);
+  return gw;
+}
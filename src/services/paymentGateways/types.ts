@@ -0,0 +1,40 @@
+/**
+ * Contrato mínimo de una pasarela estilo Webpay Plus:
+ * create (token + url de redirección) → el cliente paga en la pasarela → commit al volver.
+ * Los "raw" son la respuesta tal cual de la pasarela y se guardan en ecommerce_pago.gatewayPayloadJson.
+ */
+
+export type GatewayCreateInput = {
+  buyOrder: string;
+  sessionId: string;
+  amount: number;
+  returnUrl: string;
+};
+
+export type GatewayCreateResult = {
+  token: string;
+  url: string;
+  raw: Record<string, unknown>;
+};
+
+export type GatewayCommitResult = {
+  authorized: boolean;
+  amount: number;
+  buyOrder: string;
+  authorizationCode: string | null;
+  responseCode: number;
+  raw: Record<string, unknown>;
+};
+
+export type GatewayRefundResult = {
+  type: "REVERSED" | "NULLIFIED";
+  amount: number;
+  raw: Record<string, unknown>;
+};
+
+export interface PaymentGateway {
+  readonly nombre: string;
+  createTransaction(input: GatewayCreateInput): Promise<GatewayCreateResult>;
+  commitTransaction(token: string): Promise<GatewayCommitResult>;
+  refundTransaction(token: string, amount: number): Promise<GatewayRefundResult>;
+}
@@ -0,0 +1,157 @@
+import { randomBytes } from "crypto";
+import { httpError } from "../../utils/http";
+import type {
+  GatewayCommitResult,
+  GatewayCreateInput,
+  GatewayCreateResult,
+  GatewayRefundResult,
+  PaymentGateway,
+} from "./types";
+
+/**
+ * Simulador local de Webpay Plus (sin red).
+ * - Mismas formas de respuesta que el API REST de Transbank (token/url, commit, refund)
+ * - El "formulario de pago" lo sirve este mismo backend en /api/pagos/simulador/webpay
+ * - Estado en memoria: se pierde al reiniciar (es solo para desarrollo/pruebas)
+ */
+
+type SimStatus = "INITIALIZED" | "AUTHORIZED" | "FAILED" | "REVERSED" | "NULLIFIED";
+
+type SimTransaction = {
+  token: string;
+  buyOrder: string;
+  sessionId: string;
+  amount: number;
+  balance: number;
+  returnUrl: string;
+  status: SimStatus;
+  decision: "aprobar" | "rechazar" | null;
+  createdAt: Date;
+  committedAt: Date | null;
+};
+
+const transactions = new Map<string, SimTransaction>();
+
+function publicBaseUrl() {
+  return (process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, "");
+}
+
+function accountingDate(d: Date) {
+  return `${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function sameDay(a: Date, b: Date) {
+  return a.toDateString() === b.toDateString();
+}
+
+function getOrThrow(token: string) {
+  const t = transactions.get(token);
+  if (!t) throw httpError(404, "Transacción no encontrada en el simulador", "WEBPAY_SIM_NOT_FOUND");
+  return t;
+}
+
+/** Lo llama el formulario del simulador: equivale a que el cliente pague (o no) en Webpay. */
+export function simularDecision(token: string, decision: "aprobar" | "rechazar") {
+  const t = getOrThrow(token);
+  if (t.status !== "INITIALIZED") throw httpError(422, "Transacción ya procesada", "WEBPAY_SIM_INVALID_STATUS");
+  t.decision = decision;
+  return t;
+}
+
+export function getSimTransaction(token: string) {
+  return transactions.get(token) ?? null;
+}
+
+export const webpaySimulator: PaymentGateway = {
+  nombre: "webpay-simulador",
+
+  async createTransaction(input: GatewayCreateInput): Promise<GatewayCreateResult> {
+    // Webpay limita buy_order a 26 caracteres y session_id a 61
+    if (input.buyOrder.length > 26) throw httpError(422, "buy_order excede 26 caracteres", "WEBPAY_SIM_BUY_ORDER");
+    if (input.sessionId.length > 61) throw httpError(422, "session_id excede 61 caracteres", "WEBPAY_SIM_SESSION_ID");
+    if (!(input.amount > 0)) throw httpError(422, "amount inválido", "WEBPAY_SIM_AMOUNT");
+
+    const token = randomBytes(32).toString("hex");
+    transactions.set(token, {
+      token,
+      buyOrder: input.buyOrder,
+      sessionId: input.sessionId,
+      amount: input.amount,
+      balance: input.amount,
+      returnUrl: input.returnUrl,
+      status: "INITIALIZED",
+      decision: null,
+      createdAt: new Date(),
+      committedAt: null,
+    });
+
+    const url = `${publicBaseUrl()}/api/pagos/simulador/webpay`;
+    return { token, url, raw: { token, url } };
+  },
+
+  async commitTransaction(token: string): Promise<GatewayCommitResult> {
+    const t = getOrThrow(token);
+    if (t.status !== "INITIALIZED") throw httpError(422, "Invalid status for commit", "WEBPAY_SIM_INVALID_STATUS");
+
+    const now = new Date();
+    const authorized = t.decision === "aprobar";
+    t.status = authorized ? "AUTHORIZED" : "FAILED";
+    t.committedAt = now;
+
+    const raw = {
+      vci: authorized ? "TSY" : "TSN",
+      amount: t.amount,
+      status: t.status,
+      buy_order: t.buyOrder,
+      session_id: t.sessionId,
+      card_detail: { card_number: "6623" },
+      accounting_date: accountingDate(now),
+      transaction_date: now.toISOString(),
+      authorization_code: authorized ? "1213" : "000000",
+      payment_type_code: "VN",
+      response_code: authorized ? 0 : -1,
+      installments_number: 0,
+    };
+
+    return {
+      authorized,
+      amount: t.amount,
+      buyOrder: t.buyOrder,
+      authorizationCode: authorized ? raw.authorization_code : null,
+      responseCode: raw.response_code,
+      raw,
+    };
+  },
+
+  async refundTransaction(token: string, amount: number): Promise<GatewayRefundResult> {
+    const t = getOrThrow(token);
+    if (t.status !== "AUTHORIZED" && t.status !== "NULLIFIED") {
+      throw httpError(422, "Transacción no reembolsable", "WEBPAY_SIM_INVALID_STATUS");
+    }
+    if (!(amount > 0) || amount > t.balance) throw httpError(422, "Monto de reembolso inválido", "WEBPAY_SIM_AMOUNT");
+
+    const now = new Date();
+
+    // Igual que Webpay: mismo día y monto total = reversa; si no, anulación (parcial o total)
+    if (t.status === "AUTHORIZED" && amount === t.amount && t.committedAt && sameDay(t.committedAt, now)) {
+      t.status = "REVERSED";
+      t.balance = 0;
+      return { type: "REVERSED", amount, raw: { type: "REVERSED" } };
+    }
+
+    t.status = "NULLIFIED";
+    t.balance -= amount;
+    return {
+      type: "NULLIFIED",
+      amount,
+      raw: {
+        type: "NULLIFIED",
+        authorization_code: "123456",
+        authorization_date: now.toISOString(),
+        nullified_amount: amount,
+        balance: t.balance,
+        response_code: 0,
+      },
+    };
+  },
+};
@@ -0,0 +1,196 @@
+import { randomUUID } from "crypto";
+import { EcommerceEstadoPedido, Prisma } from "@prisma/client";
+import { httpError } from "../utils/http";
+import { registrarMovimientoTx } from "./stockMovimientos.service";
+import { evaluateStockCriticalTx } from "./stockCritical.service";
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Qué hacer si un pedido deja stock negativo al descontar:
+ * - "rechazar" (default): la transición falla con 409 STOCK_INSUFICIENTE
+ * - "marcar": se descuenta igual (stock puede quedar < 0), el pedido queda
+ *   con stockInsuficiente=true y se crea una notificación PEDIDO_SIN_STOCK
+ */
+export type PoliticaStockPedido = "rechazar" | "marcar";
+
+export function getPoliticaStockPedido(): PoliticaStockPedido {
+  const raw = String(process.env.PEDIDO_STOCK_POLICY ?? "").trim().toLowerCase();
+  return raw === "marcar" ? "marcar" : "rechazar";
+}
+
+/** Estados que consumen stock (el primero que se alcance descuenta, una sola vez). */
+const ESTADOS_DESCUENTAN: EcommerceEstadoPedido[] = ["PAGADO", "EN_PREPARACION"];
+
+const REFERENCIA_TABLA = "ecommerce_pedido";
+
+type PedidoStockRef = {
+  id: string;
+  codigo: string;
+  stockDescontadoAt: Date | null;
+};
+
+type Faltante = { productoId: string; requerido: number; disponible: number };
+
+async function descontarStockPedidoTx(tx: Tx, pedido: PedidoStockRef) {
+  const items = await tx.ecommerce_pedido_item.findMany({
+    where: { pedidoId: pedido.id },
+    select: { productoId: true, cantidad: true },
+  });
+
+  // 1 producto puede venir en varias líneas
+  const requerido = new Map<string, number>();
+  for (const it of items) requerido.set(it.productoId, (requerido.get(it.productoId) ?? 0) + it.cantidad);
+
+  // lock de los inventarios (orden fijo por id) antes de leer stock: la validación de faltantes
+  // y el reparto entre ubicaciones no pueden trabajar con un stock que otro pedido ya tomó
+  if (requerido.size > 0) {
+    await tx.$queryRaw`
+      SELECT id FROM "Inventario"
+      WHERE "productoId" IN (${Prisma.join([...requerido.keys()])})
+      ORDER BY id
+      FOR UPDATE
+    `;
+  }
+
+  const inventarios = await tx.inventario.findMany({
+    where: { productoId: { in: [...requerido.keys()] } },
+    select: { id: true, productoId: true, stock: true },
+    orderBy: { stock: "desc" },
+  });
+
+  const faltantes: Faltante[] = [];
+  const sinInventario: string[] = [];
+
+  for (const [productoId, cantidad] of requerido) {
+    const invs = inventarios.filter((i) => i.productoId === productoId);
+    if (invs.length === 0) {
+      sinInventario.push(productoId); // servicios / productos sin bodega: no se descuenta
+      continue;
+    }
+    const disponible = invs.reduce((acc, i) => acc + Math.max(0, i.stock), 0);
+    if (disponible < cantidad) faltantes.push({ productoId, requerido: cantidad, disponible });
+  }
+
+  const politica = getPoliticaStockPedido();
+  if (faltantes.length > 0 && politica === "rechazar") {
+    throw httpError(409, "Stock insuficiente para el pedido", "STOCK_INSUFICIENTE", { faltantes });
+  }
+
+  const tocados = new Set<string>();
+
+  for (const [productoId, cantidad] of requerido) {
+    const invs = inventarios.filter((i) => i.productoId === productoId);
+    if (invs.length === 0) continue;
+
+    // reparte entre ubicaciones (mayor stock primero); el remanente cae en la primera
+    let pendiente = cantidad;
+    for (const inv of invs) {
+      if (pendiente <= 0) break;
+      const tomar = Math.min(pendiente, Math.max(0, inv.stock));
+      if (tomar <= 0) continue;
+
+      await registrarMovimientoTx(tx, {
+        inventarioId: inv.id,
+        tipo: "Salida",
+        cantidad: tomar,
+        nota: `Pedido ${pedido.codigo}`,
+        referenciaTabla: REFERENCIA_TABLA,
+        referenciaId: pedido.id,
+      });
+      tocados.add(inv.id);
+      pendiente -= tomar;
+    }
+
+    if (pendiente > 0) {
+      await registrarMovimientoTx(tx, {
+        inventarioId: invs[0].id,
+        tipo: "Salida",
+        cantidad: pendiente,
+        nota: `Pedido ${pedido.codigo} (sin stock suficiente)`,
+        referenciaTabla: REFERENCIA_TABLA,
+        referenciaId: pedido.id,
+        permitirNegativo: true,
+      });
+      tocados.add(invs[0].id);
+    }
+  }
+
+  const stockInsuficiente = faltantes.length > 0;
+
+  await tx.ecommerce_pedido.update({
+    where: { id: pedido.id },
+    data: { stockDescontadoAt: new Date(), stockInsuficiente },
+  });
+
+  if (stockInsuficiente) {
+    await tx.ecommerce_notificacion.create({
+      data: {
+        id: randomUUID(),
+        tipo: "PEDIDO_SIN_STOCK",
+        referenciaTabla: REFERENCIA_TABLA,
+        referenciaId: pedido.id,
+        titulo: `Pedido ${pedido.codigo} con stock insuficiente`,
+        detalle: faltantes.map((f) => `${f.productoId}: requerido ${f.requerido}, disponible ${f.disponible}`).join("; "),
+        leido: false,
+      },
+    });
+  }
+
+  return { accion: "descontado" as const, inventarios: [...tocados], faltantes, sinInventario };
+}
+
+async function reponerStockPedidoTx(tx: Tx, pedido: PedidoStockRef) {
+  const salidas = await tx.stockMovimiento.findMany({
+    where: { referenciaTabla: REFERENCIA_TABLA, referenciaId: pedido.id, tipo: "Salida" },
+    select: { inventarioId: true, cantidad: true },
+  });
+
+  const tocados = new Set<string>();
+  for (const s of salidas) {
+    await registrarMovimientoTx(tx, {
+      inventarioId: s.inventarioId,
+      tipo: "Entrada",
+      cantidad: s.cantidad,
+      nota: `Reposición por cancelación de pedido ${pedido.codigo}`,
+      referenciaTabla: REFERENCIA_TABLA,
+      referenciaId: pedido.id,
+    });
+    tocados.add(s.inventarioId);
+  }
+
+  await tx.ecommerce_pedido.update({
+    where: { id: pedido.id },
+    data: { stockDescontadoAt: null, stockInsuficiente: false },
+  });
+
+  return { accion: "repuesto" as const, inventarios: [...tocados] };
+}
+
+/**
+ * Efecto de stock de una transición de pedido (se llama dentro de la tx del cambio de estado).
+ * - → PAGADO / EN_PREPARACION: Salida por cada línea (una sola vez por pedido)
+ * - → CANCELADO: Entrada que revierte las Salidas del pedido
+ * Después re-evalúa stock crítico de cada inventario tocado.
+ */
+export async function aplicarStockTransicionTx(tx: Tx, pedido: PedidoStockRef, nuevoEstado: EcommerceEstadoPedido) {
+  let result:
+    | Awaited<ReturnType<typeof descontarStockPedidoTx>>
+    | Awaited<ReturnType<typeof reponerStockPedidoTx>>
+    | null = null;
+
+  if (ESTADOS_DESCUENTAN.includes(nuevoEstado) && !pedido.stockDescontadoAt) {
+    result = await descontarStockPedidoTx(tx, pedido);
+  } else if (nuevoEstado === "CANCELADO" && pedido.stockDescontadoAt) {
+    result = await reponerStockPedidoTx(tx, pedido);
+  }
+
+  if (!result) return null;
+
+  const stockCritical = [];
+  for (const inventarioId of result.inventarios) {
+    stockCritical.push({ inventarioId, ...(await evaluateStockCriticalTx(tx, inventarioId)) });
+  }
+
+  return { ...result, stockCritical };
+}
@@ -0,0 +1,241 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { EcommerceEstadoPedido, Prisma } from "@prisma/client";
+import { httpError } from "../utils/http";
+import { encolarEventoTx } from "../lib/eventBus";
+import { aplicarStockTransicionTx } from "./pedidoStock.service";
+
+type Tx = Prisma.TransactionClient;
+
+/* =========================
+   Ciclo de vida
+   CREADO → PAGADO → EN_PREPARACION → ENVIADO → ENTREGADO
+   (CANCELADO desde cualquier estado previo a ENVIADO)
+========================= */
+
+export const TRANSICIONES_PEDIDO: Record<EcommerceEstadoPedido, EcommerceEstadoPedido[]> = {
+  CREADO: ["PAGADO", "CANCELADO"],
+  PAGADO: ["EN_PREPARACION", "CANCELADO"],
+  EN_PREPARACION: ["ENVIADO", "CANCELADO"],
+  ENVIADO: ["ENTREGADO"],
+  ENTREGADO: [],
+  CANCELADO: [],
+};
+
+export function puedeTransicionar(desde: EcommerceEstadoPedido, hacia: EcommerceEstadoPedido) {
+  return TRANSICIONES_PEDIDO[desde].includes(hacia);
+}
+
+/* =========================
+   Cálculo de líneas
+========================= */
+
+export const IVA_PCT_DEFAULT = 19;
+
+export type PedidoItemInput = {
+  productoId: string;
+  descripcion: string;
+  cantidad: number;
+  precioUnitarioNeto: number;
+  ivaPct?: number;
+};
+
+export type PedidoItemCalc = {
+  productoId: string;
+  descripcionSnapshot: string;
+  cantidad: number;
+  precioUnitarioNetoSnapshot: number;
+  subtotalNetoSnapshot: number;
+  ivaPctSnapshot: number;
+  ivaMontoSnapshot: number;
+  totalSnapshot: number;
+};
+
+function roundInt(n: number) {
+  return Math.trunc(Math.round(n));
+}
+
+export function calcularItem(it: PedidoItemInput): PedidoItemCalc {
+  const ivaPct = it.ivaPct ?? IVA_PCT_DEFAULT;
+  const subtotalNetoSnapshot = roundInt(it.precioUnitarioNeto * it.cantidad);
+  const ivaMontoSnapshot = roundInt((subtotalNetoSnapshot * ivaPct) / 100);
+
+  return {
+    productoId: it.productoId,
+    descripcionSnapshot: it.descripcion,
+    cantidad: it.cantidad,
+    precioUnitarioNetoSnapshot: it.precioUnitarioNeto,
+    subtotalNetoSnapshot,
+    ivaPctSnapshot: ivaPct,
+    ivaMontoSnapshot,
+    totalSnapshot: subtotalNetoSnapshot + ivaMontoSnapshot,
+  };
+}
+
+export function totalizar(items: Array<Pick<PedidoItemCalc, "subtotalNetoSnapshot" | "ivaMontoSnapshot">>) {
+  const subtotalNeto = items.reduce((acc, it) => acc + it.subtotalNetoSnapshot, 0);
+  const iva = items.reduce((acc, it) => acc + it.ivaMontoSnapshot, 0);
+  return { subtotalNeto, iva, total: subtotalNeto + iva };
+}
+
+/** Precio neto de venta: usa el precio con descuento si está cargado. */
+export function precioVentaNeto(p: { precioGeneral: number; precioConDescto: number }) {
+  return p.precioConDescto > 0 ? p.precioConDescto : p.precioGeneral;
+}
+
+export function makeCodigoPedido() {
+  const t = Date.now().toString(36).toUpperCase();
+  const r = Math.random().toString(16).slice(2, 8).toUpperCase();
+  return `PED-${t}-${r}`;
+}
+
+/* =========================
+   Crear pedido
+========================= */
+
+const optionalTrimmed = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform((v) => (v ? v : null));
+
+/** Datos de despacho (se copian a despacho* del pedido y a ecommerce_direccion). */
+export const despachoSchema = z.object({
+  nombreContacto: z.string().trim().min(1, "nombreContacto es obligatorio"),
+  telefono: z.string().trim().min(1, "telefono es obligatorio"),
+  email: z.string().trim().email("email inválido"),
+  direccion: z.string().trim().min(1, "direccion es obligatoria"),
+  numero: optionalTrimmed,
+  depto: optionalTrimmed,
+  comuna: z.string().trim().min(1, "comuna es obligatoria"),
+  ciudad: optionalTrimmed,
+  region: z.string().trim().min(1, "region es obligatoria"),
+  codigoPostal: optionalTrimmed,
+  notas: optionalTrimmed,
+});
+
+export type DespachoInput = {
+  nombreContacto: string;
+  telefono: string;
+  email: string;
+  direccion: string;
+  numero?: string | null;
+  depto?: string | null;
+  comuna: string;
+  ciudad?: string | null;
+  region: string;
+  codigoPostal?: string | null;
+  notas?: string | null;
+};
+
+export type CrearPedidoInput = {
+  ecommerceClienteId?: string | null;
+  clienteId?: string | null;
+  crmCotizacionId?: string | null;
+  despacho?: DespachoInput | null;
+  items: PedidoItemCalc[];
+};
+
+function direccionLinea(d: DespachoInput) {
+  return [d.direccion, d.numero, d.depto].filter((x) => x && String(x).trim()).join(" ");
+}
+
+export async function crearPedidoTx(tx: Tx, input: CrearPedidoInput) {
+  if (input.items.length === 0) throw httpError(400, "El pedido debe tener al menos 1 item", "PEDIDO_SIN_ITEMS");
+
+  const { subtotalNeto, iva, total } = totalizar(input.items);
+  const now = new Date();
+  const d = input.despacho ?? null;
+
+  return tx.ecommerce_pedido.create({
+    data: {
+      id: randomUUID(),
+      codigo: makeCodigoPedido(),
+      ecommerceClienteId: input.ecommerceClienteId ?? null,
+      clienteId: input.clienteId ?? null,
+      crmCotizacionId: input.crmCotizacionId ?? null,
+
+      despachoNombre: d?.nombreContacto ?? null,
+      despachoTelefono: d?.telefono ?? null,
+      despachoEmail: d?.email ?? null,
+      despachoDireccion: d ? direccionLinea(d) : null,
+      despachoComuna: d?.comuna ?? null,
+      despachoCiudad: d?.ciudad ?? null,
+      despachoRegion: d?.region ?? null,
+      despachoNotas: d?.notas ?? null,
+
+      subtotalNeto,
+      iva,
+      total,
+      estado: EcommerceEstadoPedido.CREADO,
+      createdAt: now,
+      updatedAt: now,
+
+      ecommerce_pedido_item: {
+        create: input.items.map((it) => ({ id: randomUUID(), ...it, createdAt: now })),
+      },
+
+      ecommerce_direccion: d
+        ? {
+            create: {
+              id: randomUUID(),
+              ecommerceClienteId: input.ecommerceClienteId ?? null,
+              nombreContacto: d.nombreContacto,
+              telefono: d.telefono,
+              email: d.email,
+              direccion: d.direccion,
+              numero: d.numero ?? null,
+              depto: d.depto ?? null,
+              comuna: d.comuna,
+              ciudad: d.ciudad ?? null,
+              region: d.region,
+              codigoPostal: d.codigoPostal ?? null,
+              notas: d.notas ?? null,
+              updatedAt: now,
+            },
+          }
+        : undefined,
+    },
+    include: { ecommerce_pedido_item: true, ecommerce_direccion: true },
+  });
+}
+
+/* =========================
+   Cambiar estado
+========================= */
+
+export async function cambiarEstadoPedidoTx(tx: Tx, pedidoId: string, nuevoEstado: EcommerceEstadoPedido) {
+  // lock de la fila: dos transiciones en paralelo (pago confirmado + staff, doble cancelación)
+  // verían el mismo estado/stockDescontadoAt y descontarían o repondrían stock dos veces
+  await tx.$queryRaw`SELECT id FROM "ecommerce_pedido" WHERE id = ${pedidoId} FOR UPDATE`;
+
+  const pedido = await tx.ecommerce_pedido.findUnique({ where: { id: pedidoId } });
+  if (!pedido) throw httpError(404, "Pedido no encontrado", "PEDIDO_NOT_FOUND");
+
+  const anterior = pedido.estado;
+  if (anterior === nuevoEstado) return { pedido, anterior, cambiado: false, stock: null };
+
+  if (!puedeTransicionar(anterior, nuevoEstado)) {
+    throw httpError(409, `Transición inválida: ${anterior} → ${nuevoEstado}`, "TRANSICION_INVALIDA", {
+      permitidas: TRANSICIONES_PEDIDO[anterior],
+    });
+  }
+
+  // stock primero: si la política rechaza, el estado no alcanza a cambiar
+  const stock = await aplicarStockTransicionTx(tx, pedido, nuevoEstado);
+
+  const actualizado = await tx.ecommerce_pedido.update({
+    where: { id: pedidoId },
+    data: { estado: nuevoEstado, updatedAt: new Date() },
+  });
+
+  encolarEventoTx(
+    tx,
+    "pedido.estado",
+    { pedidoId, codigo: actualizado.codigo, estado: nuevoEstado, anterior },
+    { ecommerceClienteId: actualizado.ecommerceClienteId },
+  );
+
+  return { pedido: actualizado, anterior, cambiado: true, stock };
+}
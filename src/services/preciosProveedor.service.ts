@@ -0,0 +1,485 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { normalizeSku, type FilaExcel } from "../utils/excel";
+import { MONEDA_REGEX, convertirAClp, parseDecimal, redondearMonto, soloFecha, tasasAl } from "./tiposCambio.service";
+
+type Tx = Prisma.TransactionClient;
+
+/* =========================
+   Historial de precios de proveedor
+   - PrecioProveedor guarda el precio actual; PrecioProveedorHistorial un tramo por cada precio
+   - tramo abierto (vigenteHasta = null) = precio actual
+========================= */
+
+export type GuardarPrecioInput = {
+  productoId: string;
+  proveedorId: string;
+  precio: Prisma.Decimal.Value;
+  moneda?: string;
+  vigente?: boolean;
+  usuarioId?: string | null;
+};
+
+/**
+ * Upsert de PrecioProveedor dejando rastro en el historial.
+ * Si cambia precio o moneda se cierra el tramo abierto y se abre uno nuevo; "vigente" no genera tramo.
+ */
+export async function guardarPrecioProveedorTx(tx: Tx, input: GuardarPrecioInput, now = new Date()) {
+  const { productoId, proveedorId } = input;
+  const key = { productoId_proveedorId: { productoId, proveedorId } };
+
+  const actual = await tx.precioProveedor.findUnique({ where: key });
+  const moneda = input.moneda ?? actual?.moneda ?? "CLP";
+  const precio = redondearMonto(input.precio, moneda);
+  const cambio = !actual || !actual.precio.equals(precio) || actual.moneda !== moneda;
+
+  const item = await tx.precioProveedor.upsert({
+    where: key,
+    create: { productoId, proveedorId, precio, moneda, vigente: input.vigente ?? true },
+    update: { precio, moneda, vigente: input.vigente },
+  });
+
+  if (cambio) {
+    const cerrados = await tx.precioProveedorHistorial.updateMany({
+      where: { productoId, proveedorId, vigenteHasta: null },
+      data: { vigenteHasta: now },
+    });
+
+    // precio cargado antes de existir el historial: se registra desde su última actualización
+    if (actual && cerrados.count === 0) {
+      await tx.precioProveedorHistorial.create({
+        data: {
+          productoId,
+          proveedorId,
+          precio: actual.precio,
+          moneda: actual.moneda,
+          vigenteDesde: actual.updatedAt,
+          vigenteHasta: now,
+        },
+      });
+    }
+
+    await tx.precioProveedorHistorial.create({
+      data: { productoId, proveedorId, precio, moneda, vigenteDesde: now, usuarioId: input.usuarioId ?? null },
+    });
+  }
+
+  return { item, cambio, anterior: actual ? { precio: actual.precio, moneda: actual.moneda } : null };
+}
+
+/** Al borrar un PrecioProveedor el tramo abierto queda cerrado (el historial se conserva). */
+export async function cerrarPrecioProveedorTx(tx: Tx, productoId: string, proveedorId: string, now = new Date()) {
+  await tx.precioProveedorHistorial.updateMany({
+    where: { productoId, proveedorId, vigenteHasta: null },
+    data: { vigenteHasta: now },
+  });
+}
+
+type PrecioMoneda = { precio: Prisma.Decimal; moneda: string };
+
+function variacionPct(desde: PrecioMoneda, hasta: PrecioMoneda) {
+  if (desde.moneda !== hasta.moneda || desde.precio.lte(0)) return null;
+  return hasta.precio.minus(desde.precio).div(desde.precio).mul(100).toDecimalPlaces(1).toNumber();
+}
+
+/** Tramos que se solapan con [from, to] (sin fechas = todo). */
+function whereTramos(from?: Date, to?: Date): Prisma.PrecioProveedorHistorialWhereInput {
+  return {
+    vigenteDesde: to ? { lte: to } : undefined,
+    OR: from ? [{ vigenteHasta: null }, { vigenteHasta: { gt: from } }] : undefined,
+  };
+}
+
+/* =========================
+   Historial de un producto (agrupado por proveedor)
+========================= */
+
+export async function historialPrecioProducto(
+  productoId: string,
+  filtro: { proveedorId?: string; from?: Date; to?: Date },
+) {
+  const [tramos, actuales] = await Promise.all([
+    prisma.precioProveedorHistorial.findMany({
+      where: { productoId, proveedorId: filtro.proveedorId, ...whereTramos(filtro.from, filtro.to) },
+      include: { usuario: { select: { id: true, nombre: true } } },
+      orderBy: { vigenteDesde: "asc" },
+    }),
+    prisma.precioProveedor.findMany({
+      where: { productoId, proveedorId: filtro.proveedorId },
+      include: { proveedor: { select: { id: true, nombre: true } } },
+    }),
+  ]);
+
+  const proveedorIds = [...new Set([...tramos.map((t) => t.proveedorId), ...actuales.map((a) => a.proveedorId)])];
+  const proveedores = await prisma.proveedor.findMany({
+    where: { id: { in: proveedorIds } },
+    select: { id: true, nombre: true },
+  });
+
+  return proveedores
+    .map((proveedor) => {
+      const propios = tramos.filter((t) => t.proveedorId === proveedor.id);
+      const actual = actuales.find((a) => a.proveedorId === proveedor.id) ?? null;
+      return {
+        proveedor,
+        actual: actual
+          ? { id: actual.id, precio: actual.precio, moneda: actual.moneda, vigente: actual.vigente }
+          : null,
+        historial: propios.map((t, i) => ({
+          id: t.id,
+          precio: t.precio,
+          moneda: t.moneda,
+          vigenteDesde: t.vigenteDesde,
+          vigenteHasta: t.vigenteHasta,
+          usuario: t.usuario,
+          variacionPct: i > 0 ? variacionPct(propios[i - 1], t) : null,
+        })),
+      };
+    })
+    .sort((a, b) => a.proveedor.nombre.localeCompare(b.proveedor.nombre));
+}
+
+/* =========================
+   Reporte de variación por proveedor en un periodo
+   - precio inicial = el vigente al inicio (o el primero dentro del periodo)
+   - precio final = el vigente al cierre
+   - precios sin historial cuentan como estables desde su última actualización
+========================= */
+
+export type FiltroVariacion = { from: Date; to: Date; proveedorId?: string; productoId?: string };
+
+type Tramo = { productoId: string; proveedorId: string; precio: Prisma.Decimal; moneda: string; vigenteDesde: Date };
+
+export async function variacionPreciosProveedor(filtro: FiltroVariacion) {
+  const { from, to, proveedorId, productoId } = filtro;
+
+  const [tramos, sinHistorial] = await Promise.all([
+    prisma.precioProveedorHistorial.findMany({
+      where: { proveedorId, productoId, ...whereTramos(from, to) },
+      select: { productoId: true, proveedorId: true, precio: true, moneda: true, vigenteDesde: true },
+      orderBy: { vigenteDesde: "asc" },
+    }),
+    prisma.precioProveedor.findMany({
+      where: { proveedorId, productoId, updatedAt: { lte: to } },
+      select: { productoId: true, proveedorId: true, precio: true, moneda: true, updatedAt: true },
+    }),
+  ]);
+
+  const porPar = new Map<string, Tramo[]>();
+  for (const t of tramos) {
+    const k = `${t.proveedorId}:${t.productoId}`;
+    porPar.set(k, [...(porPar.get(k) ?? []), t]);
+  }
+  for (const p of sinHistorial) {
+    const k = `${p.proveedorId}:${p.productoId}`;
+    if (!porPar.has(k)) porPar.set(k, [{ ...p, vigenteDesde: p.updatedAt }]);
+  }
+
+  const productoIds = [...new Set([...porPar.values()].map((ts) => ts[0].productoId))];
+  const proveedorIds = [...new Set([...porPar.values()].map((ts) => ts[0].proveedorId))];
+  const [productos, proveedores] = await Promise.all([
+    prisma.producto.findMany({ where: { id: { in: productoIds } }, select: { id: true, sku: true, nombre: true } }),
+    prisma.proveedor.findMany({ where: { id: { in: proveedorIds } }, select: { id: true, nombre: true } }),
+  ]);
+  const productoById = new Map(productos.map((p) => [p.id, p]));
+
+  type Detalle = {
+    producto: { id: string; sku: string | null; nombre: string } | undefined;
+    precioInicial: Prisma.Decimal;
+    precioFinal: Prisma.Decimal;
+    moneda: string;
+    cambios: number;
+    variacionPct: number | null;
+  };
+  const detallePorProveedor = new Map<string, Detalle[]>();
+
+  for (const ts of porPar.values()) {
+    const inicio = ts[0];
+    const fin = ts[ts.length - 1];
+    const detalle: Detalle = {
+      producto: productoById.get(inicio.productoId),
+      precioInicial: inicio.precio,
+      precioFinal: fin.precio,
+      moneda: fin.moneda,
+      cambios: ts.filter((t) => t.vigenteDesde > from).length,
+      variacionPct: variacionPct(inicio, fin),
+    };
+    detallePorProveedor.set(inicio.proveedorId, [...(detallePorProveedor.get(inicio.proveedorId) ?? []), detalle]);
+  }
+
+  const r = (v: number) => Math.round(v * 10) / 10;
+
+  const data = proveedores.map((proveedor) => {
+    const detalle = (detallePorProveedor.get(proveedor.id) ?? []).sort(
+      (a, b) => (b.variacionPct ?? 0) - (a.variacionPct ?? 0),
+    );
+    const comparables = detalle.filter((d) => d.variacionPct !== null).map((d) => d.variacionPct!);
+    const promedio = comparables.length ? r(comparables.reduce((acc, v) => acc + v, 0) / comparables.length) : null;
+    return {
+      proveedor,
+      productos: detalle.length,
+      subieron: comparables.filter((v) => v > 0).length,
+      bajaron: comparables.filter((v) => v < 0).length,
+      variacionPromedioPct: promedio,
+      detalle,
+    };
+  });
+
+  data.sort((a, b) => (b.variacionPromedioPct ?? 0) - (a.variacionPromedioPct ?? 0));
+  return { from, to, data };
+}
+
+/* =========================
+   Ranking de proveedores por producto
+   - sin fecha: precios vigentes actuales
+   - con fecha: el precio que regía ese día según el historial
+   - se ordena por el precio convertido a CLP con el tipo de cambio de esa fecha
+========================= */
+
+type PrecioPar = { productoId: string; proveedorId: string; precio: Prisma.Decimal; moneda: string };
+
+async function preciosAl(fecha: Date, productoIds?: string[]): Promise<PrecioPar[]> {
+  const productoId = productoIds ? { in: productoIds } : undefined;
+  const select = { productoId: true, proveedorId: true, precio: true, moneda: true } as const;
+
+  const [tramos, conHistorial, actuales] = await Promise.all([
+    prisma.precioProveedorHistorial.findMany({
+      where: { productoId, vigenteDesde: { lte: fecha }, OR: [{ vigenteHasta: null }, { vigenteHasta: { gt: fecha } }] },
+      select,
+    }),
+    prisma.precioProveedorHistorial.findMany({
+      where: { productoId },
+      distinct: ["productoId", "proveedorId"],
+      select: { productoId: true, proveedorId: true },
+    }),
+    prisma.precioProveedor.findMany({ where: { productoId, updatedAt: { lte: fecha } }, select }),
+  ]);
+
+  // precios cargados antes de existir el historial: se asume que regían desde su última actualización
+  const pares = new Set(conHistorial.map((p) => `${p.proveedorId}:${p.productoId}`));
+  return [...tramos, ...actuales.filter((p) => !pares.has(`${p.proveedorId}:${p.productoId}`))];
+}
+
+export async function rankingProveedores(filtro: { productoIds?: string[]; fecha?: Date }) {
+  const al = filtro.fecha ?? new Date();
+  const productoId = filtro.productoIds ? { in: filtro.productoIds } : undefined;
+
+  const [precios, tasas] = await Promise.all([
+    filtro.fecha
+      ? preciosAl(filtro.fecha, filtro.productoIds)
+      : prisma.precioProveedor.findMany({
+          where: { productoId, vigente: true },
+          select: { productoId: true, proveedorId: true, precio: true, moneda: true },
+        }),
+    tasasAl(al),
+  ]);
+
+  const [productos, proveedores] = await Promise.all([
+    prisma.producto.findMany({
+      where: { id: { in: [...new Set(precios.map((p) => p.productoId))] } },
+      select: { id: true, sku: true, nombre: true },
+    }),
+    prisma.proveedor.findMany({
+      where: { id: { in: [...new Set(precios.map((p) => p.proveedorId))] } },
+      select: { id: true, nombre: true },
+    }),
+  ]);
+  const proveedorById = new Map(proveedores.map((p) => [p.id, p]));
+
+  const data = productos
+    .map((producto) => {
+      const opciones = precios
+        .filter((p) => p.productoId === producto.id)
+        .map((p) => ({
+          proveedor: proveedorById.get(p.proveedorId),
+          precio: p.precio,
+          moneda: p.moneda,
+          ...convertirAClp(p.precio, p.moneda, tasas),
+        }))
+        // sin tipo de cambio al final
+        .sort((a, b) => (a.precioClp ?? Infinity) - (b.precioClp ?? Infinity));
+
+      return {
+        producto,
+        mejor: opciones[0]?.precioClp != null ? opciones[0] : null,
+        proveedores: opciones,
+      };
+    })
+    .sort((a, b) => a.producto.nombre.localeCompare(b.producto.nombre));
+
+  return { fecha: soloFecha(al), tiposCambio: [...tasas.values()], data };
+}
+
+/* =========================
+   Importación de lista de precios (Excel)
+   - columnas: sku y/o nombre, precio, moneda (opcional), vigente (opcional: si/no)
+   - match por SKU (tal cual o normalizado SKU-xxx); si no hay SKU o no calza, por nombre exacto
+   - 1 transacción por fila; la corrida queda en ImportLote + ImportFila
+========================= */
+
+export const IMPORT_TIPO_PRECIOS_PROVEEDOR = "precios_proveedor";
+
+export type ImportPreciosOpts = {
+  proveedorId: string;
+  archivoNombre?: string | null;
+  monedaDefault?: string;
+  /** marca vigente=false los precios del proveedor que no vienen en el archivo */
+  desactivarNoListados?: boolean;
+  usuarioId?: string | null;
+};
+
+function parseVigente(raw: unknown): boolean | null {
+  if (typeof raw === "boolean") return raw;
+  const s = String(raw ?? "").trim().toLowerCase();
+  if (!s) return true;
+  if (["1", "si", "sí", "true", "x"].includes(s)) return true;
+  if (["0", "no", "false"].includes(s)) return false;
+  return null;
+}
+
+export async function importarPreciosProveedor(filas: FilaExcel[], opts: ImportPreciosOpts) {
+  const { proveedorId } = opts;
+  const monedaDefault = opts.monedaDefault ?? "CLP";
+
+  const lote = await prisma.importLote.create({
+    data: {
+      tipo: IMPORT_TIPO_PRECIOS_PROVEEDOR,
+      archivoNombre: opts.archivoNombre ?? null,
+      estado: "Procesando",
+      totalFilas: filas.length,
+      proveedorId,
+    },
+  });
+
+  const productos = await prisma.producto.findMany({ select: { id: true, sku: true, nombre: true } });
+  const porSku = new Map<string, string>();
+  const porNombre = new Map<string, string[]>();
+  for (const p of productos) {
+    if (p.sku) porSku.set(p.sku.toLowerCase(), p.id);
+    const k = p.nombre.trim().toLowerCase();
+    porNombre.set(k, [...(porNombre.get(k) ?? []), p.id]);
+  }
+
+  const buscarProducto = (sku: string, nombre: string): { productoId: string } | { error: string } => {
+    if (sku) {
+      const id = porSku.get(sku.toLowerCase()) ?? porSku.get((normalizeSku(sku) ?? "").toLowerCase());
+      if (id) return { productoId: id };
+      if (!nombre) return { error: `SKU ${sku} no existe` };
+    }
+    const ids = porNombre.get(nombre.toLowerCase()) ?? [];
+    if (ids.length > 1) return { error: `Nombre ambiguo (${ids.length} productos), usa SKU` };
+    if (!ids.length) return { error: "Producto no encontrado (sku / nombre)" };
+    return { productoId: ids[0] };
+  };
+
+  const resultados: Array<{ nroFila: number; ok: boolean; error?: string; raw: FilaExcel }> = [];
+  const vistos = new Map<string, number>(); // productoId -> fila donde apareció
+  let creados = 0;
+  let actualizados = 0;
+  let sinCambio = 0;
+
+  for (let i = 0; i < filas.length; i++) {
+    const row = filas[i];
+    const nroFila = i + 2;
+    const fallo = (error: string) => resultados.push({ nroFila, ok: false, error, raw: row });
+
+    const sku = String(row.sku ?? "").trim();
+    const nombre = String(row.nombre ?? row.producto ?? "").trim();
+    if (!sku && !nombre) {
+      fallo("sku o nombre es obligatorio");
+      continue;
+    }
+
+    // se redondea según moneda al guardar
+    const precio = parseDecimal(row.precio);
+    if (precio === null) {
+      fallo("precio inválido");
+      continue;
+    }
+
+    const moneda = String(row.moneda ?? "").trim().toUpperCase() || monedaDefault;
+    if (!MONEDA_REGEX.test(moneda)) {
+      fallo("moneda inválida (ej: CLP, USD, EUR, UF)");
+      continue;
+    }
+
+    const vigente = parseVigente(row.vigente);
+    if (vigente === null) {
+      fallo("vigente inválido (usa si / no)");
+      continue;
+    }
+
+    const match = buscarProducto(sku, nombre);
+    if ("error" in match) {
+      fallo(match.error);
+      continue;
+    }
+
+    const filaPrevia = vistos.get(match.productoId);
+    if (filaPrevia) {
+      fallo(`Producto repetido en el archivo (fila ${filaPrevia})`);
+      continue;
+    }
+    vistos.set(match.productoId, nroFila);
+
+    try {
+      const r = await prisma.$transaction((tx) =>
+        guardarPrecioProveedorTx(tx, {
+          productoId: match.productoId,
+          proveedorId,
+          precio,
+          moneda,
+          vigente,
+          usuarioId: opts.usuarioId,
+        }),
+      );
+      if (!r.anterior) creados++;
+      else if (r.cambio) actualizados++;
+      else sinCambio++;
+      resultados.push({ nroFila, ok: true, raw: row });
+    } catch (e: unknown) {
+      fallo(e instanceof Error ? e.message : "Error desconocido");
+    }
+  }
+
+  const filasOk = resultados.filter((r) => r.ok).length;
+  const filasError = resultados.length - filasOk;
+
+  // sin filas OK no se desactiva nada (archivo equivocado o mal formado)
+  let desactivados = 0;
+  if (opts.desactivarNoListados && filasOk > 0) {
+    const r = await prisma.precioProveedor.updateMany({
+      where: { proveedorId, vigente: true, productoId: { notIn: [...vistos.keys()] } },
+      data: { vigente: false },
+    });
+    desactivados = r.count;
+  }
+
+  await prisma.$transaction([
+    prisma.importFila.createMany({
+      data: resultados.map((r) => ({
+        loteId: lote.id,
+        nroFila: r.nroFila,
+        ok: r.ok,
+        error: r.error ?? null,
+        raw: r.raw as Prisma.InputJsonObject,
+      })),
+    }),
+    prisma.importLote.update({
+      where: { id: lote.id },
+      data: { estado: filasError ? "Procesado con errores" : "Procesado", filasOk, filasError },
+    }),
+  ]);
+
+  return {
+    loteId: lote.id,
+    total: filas.length,
+    filasOk,
+    filasError,
+    creados,
+    actualizados,
+    sinCambio,
+    desactivados,
+    errores: resultados.filter((r) => !r.ok).map((r) => ({ row: r.nroFila, error: r.error! })),
+  };
+}
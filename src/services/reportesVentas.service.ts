@@ -0,0 +1,251 @@
+import { CrmEstadoCotizacion, OrigenCliente, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+/* =========================
+   Reportes de ventas (embudo cotización → CRM → cierre)
+   - cierres: se cuentan por fecha de cierre (cerradaAt; las cerradas antes de existir el campo usan updatedAt)
+   - embudo: por fecha de creación
+========================= */
+
+export type FiltroVentas = {
+  from?: Date;
+  to?: Date;
+  vendedorId?: string;
+  origenCliente?: OrigenCliente;
+};
+
+function rango(f: FiltroVentas) {
+  return f.from || f.to ? { gte: f.from, lte: f.to } : undefined;
+}
+
+function pct(n: number, base: number) {
+  return base > 0 ? Math.round((n / base) * 1000) / 10 : null;
+}
+
+function mesDe(d: Date) {
+  return d.toISOString().slice(0, 7); // YYYY-MM (UTC)
+}
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+/* =========================
+   Embudo
+   recibidas (ecommerce) → tomadas en CRM → trabajadas (salió de NUEVA) → cerradas → ganadas
+   - con vendedorId u origenCliente la etapa "recibidas" no aplica (la cotización ecommerce no tiene vendedor)
+========================= */
+
+export async function embudoVentas(f: FiltroVentas) {
+  const soloCrm = Boolean(f.vendedorId || f.origenCliente);
+  const whereCrm: Prisma.CrmCotizacionWhereInput = {
+    createdAt: rango(f),
+    vendedorId: f.vendedorId,
+    origenCliente: f.origenCliente,
+  };
+
+  const [recibidas, porEstadoEcommerce, porEstadoCrm] = await Promise.all([
+    soloCrm ? null : prisma.ecommerce_cotizacion.count({ where: { createdAt: rango(f) } }),
+    soloCrm
+      ? []
+      : prisma.ecommerce_cotizacion.groupBy({
+          by: ["estado"],
+          where: { createdAt: rango(f) },
+          _count: { _all: true },
+        }),
+    prisma.crmCotizacion.groupBy({ by: ["estado"], where: whereCrm, _count: { _all: true } }),
+  ]);
+
+  const crm = (e: CrmEstadoCotizacion) => porEstadoCrm.find((r) => r.estado === e)?._count._all ?? 0;
+  const tomadas = porEstadoCrm.reduce((acc, r) => acc + r._count._all, 0);
+  const cerradas = crm("GANADA") + crm("PERDIDA");
+  const trabajadas = tomadas - crm("NUEVA");
+
+  const conteos: Array<[string, number | null]> = [
+    ["RECIBIDAS", recibidas],
+    ["TOMADAS_CRM", tomadas],
+    ["TRABAJADAS", trabajadas],
+    ["CERRADAS", cerradas],
+    ["GANADAS", crm("GANADA")],
+  ];
+
+  const etapas = conteos
+    .filter(([, n]) => n !== null)
+    .map(([etapa, n], i, arr) => ({
+      etapa,
+      cantidad: n as number,
+      // conversión desde la etapa anterior y desde el inicio del embudo
+      conversionPct: i === 0 ? null : pct(n as number, arr[i - 1][1] as number),
+      conversionTotalPct: i === 0 ? null : pct(n as number, arr[0][1] as number),
+    }));
+
+  return {
+    etapas,
+    winRatePct: pct(crm("GANADA"), cerradas),
+    porEstadoEcommerce: porEstadoEcommerce.map((r) => ({ estado: r.estado, cantidad: r._count._all })),
+    porEstadoCrm: porEstadoCrm.map((r) => ({ estado: r.estado, cantidad: r._count._all })),
+  };
+}
+
+/* =========================
+   Cierres agrupados (vendedor / mes / origen)
+   - ganadas, perdidas, win rate, monto ganado (total c/IVA) y días promedio de cotización a cierre
+========================= */
+
+export type AgruparCierres = "vendedor" | "mes" | "origen";
+
+type Acum = { ganadas: number; perdidas: number; montoGanado: number; diasCierre: number[] };
+
+function resumenAcum(a: Acum) {
+  const cerradas = a.ganadas + a.perdidas;
+  const r = (v: number) => Math.round(v * 10) / 10;
+  const dias = a.diasCierre;
+  return {
+    cerradas,
+    ganadas: a.ganadas,
+    perdidas: a.perdidas,
+    winRatePct: pct(a.ganadas, cerradas),
+    montoGanado: a.montoGanado,
+    ticketPromedioGanado: a.ganadas ? Math.round(a.montoGanado / a.ganadas) : null,
+    promedioDiasCierre: dias.length ? r(dias.reduce((acc, v) => acc + v, 0) / dias.length) : null,
+  };
+}
+
+export async function cierresVentas(f: FiltroVentas, agrupar: AgruparCierres) {
+  const periodo = rango(f);
+
+  const rows = await prisma.crmCotizacion.findMany({
+    where: {
+      estado: { in: ["GANADA", "PERDIDA"] },
+      vendedorId: f.vendedorId,
+      origenCliente: f.origenCliente,
+      OR: periodo
+        ? [{ cerradaAt: periodo }, { cerradaAt: null, updatedAt: periodo }]
+        : undefined,
+    },
+    select: {
+      estado: true,
+      total: true,
+      createdAt: true,
+      cerradaAt: true,
+      updatedAt: true,
+      origenCliente: true,
+      vendedor: { select: { id: true, nombre: true } },
+      ecommerce_cotizacion: { select: { createdAt: true } },
+    },
+  });
+
+  const nuevo = (): Acum => ({ ganadas: 0, perdidas: 0, montoGanado: 0, diasCierre: [] });
+  const total = nuevo();
+  const grupos = new Map<string, { grupo: Record<string, unknown>; acc: Acum }>();
+
+  for (const c of rows) {
+    const cierre = c.cerradaAt ?? c.updatedAt;
+    // desde que el cliente cotizó (si vino del ecommerce), no desde que se tomó en CRM
+    const creada = c.ecommerce_cotizacion?.createdAt ?? c.createdAt;
+
+    let key: string;
+    let grupo: Record<string, unknown>;
+    if (agrupar === "vendedor") {
+      key = c.vendedor?.id ?? "sin-vendedor";
+      grupo = { vendedor: c.vendedor ?? null };
+    } else if (agrupar === "mes") {
+      key = mesDe(cierre);
+      grupo = { mes: key };
+    } else {
+      key = c.origenCliente ?? "sin-origen";
+      grupo = { origenCliente: c.origenCliente ?? null };
+    }
+
+    const g = grupos.get(key) ?? { grupo, acc: nuevo() };
+    for (const acc of [g.acc, total]) {
+      if (c.estado === "GANADA") {
+        acc.ganadas++;
+        acc.montoGanado += c.total;
+      } else {
+        acc.perdidas++;
+      }
+      acc.diasCierre.push((cierre.getTime() - creada.getTime()) / DIA_MS);
+    }
+    grupos.set(key, g);
+  }
+
+  const entradas = [...grupos.entries()];
+  if (agrupar === "mes") entradas.sort(([a], [b]) => a.localeCompare(b));
+  else entradas.sort(([, a], [, b]) => b.acc.montoGanado - a.acc.montoGanado);
+  const data = entradas.map(([, g]) => ({ ...g.grupo, ...resumenAcum(g.acc) }));
+
+  return { agrupar, total: resumenAcum(total), data };
+}
+
+/* =========================
+   Productos: más cotizados vs más ganados (ecommerce_cotizacion_item)
+   - cotizados: ítems de cotizaciones creadas en el periodo
+   - ganados: ítems de cotizaciones cuya CrmCotizacion quedó GANADA en el periodo
+========================= */
+
+export async function productosVentas(f: FiltroVentas, top = 10) {
+  const periodo = rango(f);
+  const crmFiltro: Prisma.CrmCotizacionWhereInput = { vendedorId: f.vendedorId, origenCliente: f.origenCliente };
+  const filtraCrm = Boolean(f.vendedorId || f.origenCliente);
+
+  const whereCotizados: Prisma.ecommerce_cotizacion_itemWhereInput = {
+    ecommerce_cotizacion: { createdAt: periodo, CrmCotizacion: filtraCrm ? crmFiltro : undefined },
+  };
+  const whereGanados: Prisma.ecommerce_cotizacion_itemWhereInput = {
+    ecommerce_cotizacion: {
+      CrmCotizacion: {
+        ...crmFiltro,
+        estado: "GANADA",
+        OR: periodo ? [{ cerradaAt: periodo }, { cerradaAt: null, updatedAt: periodo }] : undefined,
+      },
+    },
+  };
+
+  const agrupar = (where: Prisma.ecommerce_cotizacion_itemWhereInput) =>
+    prisma.ecommerce_cotizacion_item.groupBy({
+      by: ["productoId"],
+      where,
+      _sum: { cantidad: true, subtotalNetoSnapshot: true },
+      _count: { cotizacionId: true },
+    });
+
+  const [cotizados, ganados] = await Promise.all([agrupar(whereCotizados), agrupar(whereGanados)]);
+
+  const ganadosMap = new Map(ganados.map((g) => [g.productoId, g]));
+  const cotizadosMap = new Map(cotizados.map((c) => [c.productoId, c]));
+
+  const topCotizados = [...cotizados]
+    .sort((a, b) => (b._sum.cantidad ?? 0) - (a._sum.cantidad ?? 0))
+    .slice(0, top);
+  const topGanados = [...ganados]
+    .sort((a, b) => (b._sum.subtotalNetoSnapshot ?? 0) - (a._sum.subtotalNetoSnapshot ?? 0))
+    .slice(0, top);
+
+  const productos = await prisma.producto.findMany({
+    where: { id: { in: [...new Set([...topCotizados, ...topGanados].map((p) => p.productoId))] } },
+    select: { id: true, sku: true, nombre: true },
+  });
+  const productoById = new Map(productos.map((p) => [p.id, p]));
+
+  const fila = (productoId: string) => {
+    const c = cotizadosMap.get(productoId);
+    const g = ganadosMap.get(productoId);
+    const cantidadCotizada = c?._sum.cantidad ?? 0;
+    const cantidadGanada = g?._sum.cantidad ?? 0;
+    return {
+      producto: productoById.get(productoId) ?? { id: productoId, sku: null, nombre: "(eliminado)" },
+      cotizaciones: c?._count.cotizacionId ?? 0,
+      cantidadCotizada,
+      montoCotizadoNeto: c?._sum.subtotalNetoSnapshot ?? 0,
+      cotizacionesGanadas: g?._count.cotizacionId ?? 0,
+      cantidadGanada,
+      montoGanadoNeto: g?._sum.subtotalNetoSnapshot ?? 0,
+      // sobre lo cotizado del mismo periodo (puede superar 100 si se ganan cotizaciones de periodos anteriores)
+      conversionCantidadPct: pct(cantidadGanada, cantidadCotizada),
+    };
+  };
+
+  return {
+    masCotizados: topCotizados.map((p) => fila(p.productoId)),
+    masGanados: topGanados.map((p) => fila(p.productoId)),
+  };
+}
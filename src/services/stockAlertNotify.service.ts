@@ -0,0 +1,142 @@
+import path from "path";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { getNotificationChannel, type NotificationMessage } from "./notifications";
+
+type Tx = Prisma.TransactionClient;
+
+export type Destinatario = { canal: string; destino: string };
+
+type ReglaDestinos = { notifyEmails: string[]; notifyWebhookUrl: string | null } | null;
+
+function envList(name: string) {
+  return String(process.env[name] ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function envInt(name: string, def: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : def;
+}
+
+/**
+ * A quién avisar: lo configurado en la regla del inventario o, si no tiene, los defaults globales
+ * (STOCK_ALERT_EMAILS separado por comas, STOCK_ALERT_WEBHOOK_URL). NOTIFY_OUTBOX_DIR agrega el canal outbox.
+ */
+export function destinatariosStockAlert(rule: ReglaDestinos): Destinatario[] {
+  const emails = rule?.notifyEmails?.length ? rule.notifyEmails : envList("STOCK_ALERT_EMAILS");
+  const webhook = rule?.notifyWebhookUrl || process.env.STOCK_ALERT_WEBHOOK_URL || null;
+  const outbox = process.env.NOTIFY_OUTBOX_DIR;
+
+  return [
+    ...[...new Set(emails.map((e) => e.toLowerCase()))].map((destino) => ({ canal: "email", destino })),
+    ...(webhook ? [{ canal: "webhook", destino: webhook }] : []),
+    ...(outbox ? [{ canal: "outbox", destino: path.resolve(outbox) }] : []),
+  ];
+}
+
+/** Valor para StockAlert.channel: "system" (panel) + los canales externos usados. */
+export function canalesStockAlert(destinos: Destinatario[]) {
+  return ["system", ...new Set(destinos.map((d) => d.canal))].join(",");
+}
+
+/** Deja las entregas PENDIENTE dentro de la tx de la alerta; salen recién cuando la tx hizo commit. */
+export async function encolarEntregasStockAlertTx(
+  tx: Tx,
+  alertId: string,
+  destinos: Destinatario[],
+  msg: NotificationMessage,
+) {
+  if (destinos.length === 0) return 0;
+
+  const { count } = await tx.stockAlertDelivery.createMany({
+    data: destinos.map((d) => ({
+      alertId,
+      evento: msg.evento,
+      canal: d.canal,
+      destino: d.destino,
+      payload: msg as unknown as Prisma.InputJsonValue,
+    })),
+  });
+  return count;
+}
+
+/* =========================
+   Dispatcher
+   - PENDIENTE → ENVIANDO (claim condicional) → ENVIADO | PENDIENTE con backoff | FALLIDO
+   - NOTIFY_MAX_INTENTOS (default 5); backoff 1, 2, 4, 8... min
+========================= */
+
+const LOCK_MS = 10 * 60 * 1000;
+
+function backoffMs(intentos: number) {
+  return Math.min(60, 2 ** Math.max(0, intentos - 1)) * 60 * 1000;
+}
+
+export async function despacharEntregasPendientes(now = new Date(), limit = 50) {
+  const maxIntentos = envInt("NOTIFY_MAX_INTENTOS", 5);
+
+  // entregas que quedaron ENVIANDO por un proceso que murió a mitad de camino
+  await prisma.stockAlertDelivery.updateMany({
+    where: { estado: "ENVIANDO", updatedAt: { lt: new Date(now.getTime() - LOCK_MS) } },
+    data: { estado: "PENDIENTE" },
+  });
+
+  const pendientes = await prisma.stockAlertDelivery.findMany({
+    where: { estado: "PENDIENTE", proximoIntentoAt: { lte: now } },
+    orderBy: { proximoIntentoAt: "asc" },
+    take: limit,
+  });
+
+  let enviadas = 0;
+  let fallidas = 0;
+
+  for (const d of pendientes) {
+    const claim = await prisma.stockAlertDelivery.updateMany({
+      where: { id: d.id, estado: "PENDIENTE" },
+      data: { estado: "ENVIANDO" },
+    });
+    if (claim.count === 0) continue; // otro proceso la tomó
+
+    const intentos = d.intentos + 1;
+
+    try {
+      const channel = getNotificationChannel(d.canal);
+      await channel.send(d.destino, d.payload as unknown as NotificationMessage);
+
+      await prisma.stockAlertDelivery.update({
+        where: { id: d.id },
+        data: { estado: "ENVIADO", intentos, enviadoAt: new Date(), ultimoError: null },
+      });
+      enviadas++;
+    } catch (e: unknown) {
+      const agotado = intentos >= maxIntentos;
+      await prisma.stockAlertDelivery.update({
+        where: { id: d.id },
+        data: {
+          estado: agotado ? "FALLIDO" : "PENDIENTE",
+          intentos,
+          ultimoError: e instanceof Error ? e.message : String(e),
+          proximoIntentoAt: new Date(Date.now() + backoffMs(intentos)),
+        },
+      });
+      fallidas++;
+    }
+  }
+
+  return { revisadas: pendientes.length, enviadas, fallidas };
+}
+
+let running: Promise<unknown> | null = null;
+
+/** Para llamar justo después del commit: no bloquea la respuesta y no corre dos veces en paralelo. */
+export function despacharEnSegundoPlano() {
+  if (running) return;
+  running = despacharEntregasPendientes()
+    .catch((e) => console.error("[notify] error despachando:", e))
+    .finally(() => {
+      running = null;
+    });
+}
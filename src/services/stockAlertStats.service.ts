@@ -0,0 +1,156 @@
+import { Prisma, StockAlertStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+
+export type FiltroStockAlerts = {
+  productoId?: string;
+  ubicacion?: string;
+  status?: StockAlertStatus;
+  from?: Date;
+  to?: Date;
+};
+
+/** Filtros comunes de historial y métricas (fechas sobre openedAt). */
+export function whereStockAlerts(f: FiltroStockAlerts): Prisma.StockAlertWhereInput {
+  return {
+    status: f.status,
+    openedAt: f.from || f.to ? { ...(f.from ? { gte: f.from } : {}), ...(f.to ? { lte: f.to } : {}) } : undefined,
+    inventario: {
+      productoId: f.productoId,
+      ubicacion: f.ubicacion ? { equals: f.ubicacion, mode: "insensitive" } : undefined,
+    },
+  };
+}
+
+/** Mismos filtros que whereStockAlerts, para las consultas agregadas (alias: a = StockAlert, i = Inventario). */
+function sqlFiltroStockAlerts(f: FiltroStockAlerts) {
+  const conds: Prisma.Sql[] = [Prisma.sql`TRUE`];
+  if (f.status) conds.push(Prisma.sql`a.status::text = ${f.status}`);
+  if (f.from) conds.push(Prisma.sql`a."openedAt" >= ${f.from}`);
+  if (f.to) conds.push(Prisma.sql`a."openedAt" <= ${f.to}`);
+  if (f.productoId) conds.push(Prisma.sql`i."productoId" = ${f.productoId}`);
+  if (f.ubicacion) conds.push(Prisma.sql`LOWER(i.ubicacion) = LOWER(${f.ubicacion})`);
+  return Prisma.join(conds, " AND ");
+}
+
+type Tiempos = { n: number; promedio: number | null; mediana: number | null; p90: number | null; max: number | null };
+
+/** n, promedio, mediana, p90 y máximo en minutos (null si no hay datos). */
+function resumen(t: Tiempos) {
+  const r = (v: number | null) => (v === null ? null : Math.round(v * 10) / 10);
+  return { n: t.n, promedioMin: r(t.promedio), medianaMin: r(t.mediana), p90Min: r(t.p90), maxMin: r(t.max) };
+}
+
+/**
+ * Métricas para ajustar Inventario.minimo:
+ * - tiempo a ACK y a resolución
+ * - alertas por producto y mes
+ * - productos que más veces (y más tiempo) pasan en crítico
+ * Todo se agrega en SQL: el historial de alertas crece sin límite y no se trae a memoria.
+ */
+export async function metricasStockAlerts(filtro: FiltroStockAlerts, top = 10, now = new Date()) {
+  const where = sqlFiltroStockAlerts(filtro);
+  const filtradas = Prisma.sql`
+    SELECT a."inventarioId", a."openedAt", a."ackAt", a."resolvedAt", a."stockAtAlert", i."productoId", i.minimo
+    FROM "StockAlert" a
+    JOIN "Inventario" i ON i.id = a."inventarioId"
+    WHERE ${where}
+  `;
+
+  // percentile_disc = percentil por rango más cercano (el valor de una alerta real, no interpolado)
+  const [[fila], porMes, frecuentes] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: number; abiertas: number; ack: Tiempos; resolucion: Tiempos }>>`
+      WITH f AS (
+        SELECT "resolvedAt",
+          EXTRACT(EPOCH FROM ("ackAt" - "openedAt")) / 60 AS "minAck",
+          EXTRACT(EPOCH FROM ("resolvedAt" - "openedAt")) / 60 AS "minResolucion"
+        FROM (${filtradas}) x
+      )
+      SELECT
+        COUNT(*)::int AS total,
+        (COUNT(*) FILTER (WHERE "resolvedAt" IS NULL))::int AS abiertas,
+        json_build_object(
+          'n', COUNT("minAck"),
+          'promedio', AVG("minAck")::float8,
+          'mediana', (percentile_disc(0.5) WITHIN GROUP (ORDER BY "minAck"))::float8,
+          'p90', (percentile_disc(0.9) WITHIN GROUP (ORDER BY "minAck"))::float8,
+          'max', MAX("minAck")::float8
+        ) AS ack,
+        json_build_object(
+          'n', COUNT("minResolucion"),
+          'promedio', AVG("minResolucion")::float8,
+          'mediana', (percentile_disc(0.5) WITHIN GROUP (ORDER BY "minResolucion"))::float8,
+          'p90', (percentile_disc(0.9) WITHIN GROUP (ORDER BY "minResolucion"))::float8,
+          'max', MAX("minResolucion")::float8
+        ) AS resolucion
+      FROM f
+    `,
+    // openedAt se guarda en UTC: el mes sale tal cual (YYYY-MM)
+    prisma.$queryRaw<Array<{ mes: string; productoId: string; nombre: string; alertas: number }>>`
+      SELECT to_char(f."openedAt", 'YYYY-MM') AS mes, f."productoId", p.nombre, COUNT(*)::int AS alertas
+      FROM (${filtradas}) f
+      JOIN "Producto" p ON p.id = f."productoId"
+      GROUP BY 1, 2, 3
+      ORDER BY mes ASC, alertas DESC
+    `,
+    prisma.$queryRaw<
+      Array<{
+        productoId: string;
+        alertas: number;
+        abiertas: number;
+        minutosCritico: number;
+        stockMinimoVisto: number;
+        minimoActual: number;
+      }>
+    >`
+      WITH f AS (${filtradas}),
+      minimos AS (
+        SELECT "productoId", SUM(minimo)::int AS "minimoActual"
+        FROM (SELECT DISTINCT "inventarioId", "productoId", minimo FROM f) d
+        GROUP BY "productoId"
+      )
+      SELECT f."productoId",
+        COUNT(*)::int AS alertas,
+        (COUNT(*) FILTER (WHERE f."resolvedAt" IS NULL))::int AS abiertas,
+        (SUM(EXTRACT(EPOCH FROM (COALESCE(f."resolvedAt", ${now}::timestamp) - f."openedAt"))) / 60)::float8
+          AS "minutosCritico",
+        MIN(f."stockAtAlert")::int AS "stockMinimoVisto",
+        m."minimoActual"
+      FROM f
+      JOIN minimos m ON m."productoId" = f."productoId"
+      GROUP BY f."productoId", m."minimoActual"
+      ORDER BY alertas DESC, "minutosCritico" DESC
+      LIMIT ${top}
+    `,
+  ]);
+
+  const productos = await prisma.producto.findMany({
+    where: { id: { in: frecuentes.map((f) => f.productoId) } },
+    select: { id: true, sku: true, nombre: true },
+  });
+  const productoById = new Map(productos.map((p) => [p.id, p]));
+
+  const masFrecuentes = frecuentes.flatMap((f) => {
+    const producto = productoById.get(f.productoId);
+    if (!producto) return [];
+    return [
+      {
+        producto,
+        alertas: f.alertas,
+        abiertas: f.abiertas,
+        horasEnCritico: Math.round((f.minutosCritico / 60) * 10) / 10,
+        minimoActual: f.minimoActual,
+        stockMinimoVisto: f.stockMinimoVisto,
+      },
+    ];
+  });
+
+  // agregado sin GROUP BY: siempre vuelve 1 fila
+  return {
+    total: fila.total,
+    abiertas: fila.abiertas,
+    tiempoAck: resumen(fila.ack),
+    tiempoResolucion: resumen(fila.resolucion),
+    porProductoMes: porMes,
+    masFrecuentes,
+  };
+}
@@ -1,50 +1,275 @@
-import { PrismaClient, Prisma } from '@prisma/client'
+import { randomUUID } from "crypto";
+import { Prisma, ProductoTipo } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { encolarEventoTx, transaccionConEventos } from "../lib/eventBus";
+import {
+  canalesStockAlert,
+  destinatariosStockAlert,
+  encolarEntregasStockAlertTx,
+} from "./stockAlertNotify.service";
 
-type Tx = Prisma.TransactionClient
+type Tx = Prisma.TransactionClient;
+
+export const DEFAULT_COOLDOWN_MINUTES = 360;
+
+// Regla robusta: considera flete si el string del enum contiene "flet"
+export function isFleteTipo(tipo: ProductoTipo | string | null | undefined) {
+  return String(tipo ?? "").toLowerCase().includes("flet");
+}
+
+/** Cierra una alerta activa: libera activeLock para que el inventario pueda abrir otra más adelante. */
+export function cerrarAlertaData(now = new Date()) {
+  return { status: "RESOLVED" as const, isActive: false, activeLock: null, resolvedAt: now };
+}
+
+/* =========================
+   Evaluación (1 inventario)
+   - crítico sin alerta activa → crea alerta + entregas + notificación de panel
+   - crítico con alerta activa → recordatorio si pasó el cooldown
+   - no crítico con alerta activa → la resuelve
+========================= */
 
-// Evalúa stock crítico para 1 inventario y:
-// - crea alerta OPEN si stock <= threshold y no existe OPEN
-// - resuelve alerta OPEN si stock > threshold
 export async function evaluateStockCriticalTx(tx: Tx, inventarioId: string) {
   const inv = await tx.inventario.findUnique({
     where: { id: inventarioId },
-    select: { id: true, stock: true, minimo: true },
-  })
-  if (!inv) return
+    include: {
+      producto: {
+        select: {
+          id: true,
+          nombre: true,
+          sku: true,
+          tipo: true,
+        },
+      },
+    },
+  });
+
+  if (!inv) return { action: "noop", reason: "inventario_not_found" };
+
+  // si por alguna razón es flete, no hacemos nada
+  if (isFleteTipo(inv.producto?.tipo)) return { action: "noop", reason: "producto_es_flete" };
+
+  const rule = await tx.stockCriticalRule.findUnique({
+    where: { inventarioId },
+  });
+
+  // Si hay regla y está deshabilitada -> no notificar
+  if (rule && rule.enabled === false) return { action: "noop", reason: "rule_disabled" };
+
+  const threshold = rule?.thresholdOverride ?? inv.minimo ?? 0;
+  const cooldownMinutes = rule?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
 
-  const threshold = inv.minimo ?? 0
-  const isCritical = inv.stock <= threshold
+  const isCritical = inv.stock <= threshold;
 
-  const active = await tx.stockAlert.findFirst({
-    where: { inventarioId, status: 'OPEN' },
-    orderBy: { openedAt: 'desc' },
-  })
+  // canales externos (email/webhook/outbox): se encolan acá y salen después del commit
+  const destinos = destinatariosStockAlert(rule);
+  const mensaje = (evento: "STOCK_CRITICO" | "STOCK_CRITICO_RECORDATORIO", titulo: string) => ({
+    evento,
+    titulo,
+    texto: `${inv.producto.nombre}${inv.producto.sku ? ` (SKU ${inv.producto.sku})` : ""}: stock ${inv.stock}, mínimo ${threshold}.${inv.ubicacion ? ` Ubicación: ${inv.ubicacion}.` : ""}`,
+    data: {
+      inventarioId,
+      productoId: inv.productoId,
+      productoNombre: inv.producto.nombre,
+      sku: inv.producto.sku,
+      stock: inv.stock,
+      threshold,
+    },
+  });
 
+  // payload de los eventos SSE (se publican después del commit)
+  const eventoAlerta = (alertId: string) => ({
+    alertId,
+    inventarioId,
+    productoId: inv.productoId,
+    productoNombre: inv.producto.nombre,
+    stock: inv.stock,
+    threshold,
+  });
+
+  const activeAlert = await tx.stockAlert.findFirst({
+    where: { inventarioId, isActive: true },
+    orderBy: { openedAt: "desc" },
+  });
+
+  const now = new Date();
+
+  // Si está crítico:
   if (isCritical) {
-    if (active) return
-    await tx.stockAlert.create({
+    // Crear nueva alerta activa si no existe
+    if (!activeAlert) {
+      const alert = await tx.stockAlert.create({
+        data: {
+          inventarioId,
+          threshold,
+          stockAtAlert: inv.stock,
+          status: "OPEN",
+          isActive: true,
+          activeLock: inventarioId,
+          lastSentAt: now,
+          channel: canalesStockAlert(destinos),
+          meta: {
+            productoId: inv.productoId, // ✅ existe en inv
+            productoNombre: inv.producto.nombre,
+            sku: inv.producto.sku,
+          },
+        },
+      });
+
+      if (rule) {
+        await tx.stockCriticalRule.update({
+          where: { inventarioId },
+          data: { lastNotifiedAt: now },
+        });
+      }
+
+      const entregas = await encolarEntregasStockAlertTx(
+        tx,
+        alert.id,
+        destinos,
+        mensaje("STOCK_CRITICO", `Stock crítico: ${inv.producto.nombre}`),
+      );
+
+      // Notificación para panel ecommerce
+      await tx.ecommerce_notificacion.create({
+        data: {
+          id: randomUUID(),
+          tipo: "STOCK_CRITICO",
+          referenciaTabla: "Inventario",
+          referenciaId: inventarioId,
+          titulo: `Stock crítico: ${inv.producto.nombre}`,
+          detalle: `Stock ${inv.stock} (mínimo ${threshold}).`,
+          leido: false,
+        },
+      });
+
+      encolarEventoTx(tx, "stockAlert.created", eventoAlerta(alert.id));
+
+      return { action: "created", alertId: alert.id, entregas };
+    }
+
+    // Ya hay alerta activa: re-notificar solo si pasó cooldown
+    const last = rule?.lastNotifiedAt ?? activeAlert.lastSentAt ?? activeAlert.openedAt;
+
+    const cooldownMs = cooldownMinutes * 60 * 1000;
+    const canResend = !last || last.getTime() < now.getTime() - cooldownMs;
+
+    if (!canResend) return { action: "noop", reason: "cooldown" };
+
+    await tx.stockAlert.update({
+      where: { id: activeAlert.id },
       data: {
-        inventarioId,
-        threshold,
+        lastSentAt: now,
         stockAtAlert: inv.stock,
-        status: 'OPEN',
-        openedAt: new Date(),
+        threshold,
+        channel: canalesStockAlert(destinos),
+        // mantenemos isActive=true
+      },
+    });
+
+    const entregas = await encolarEntregasStockAlertTx(
+      tx,
+      activeAlert.id,
+      destinos,
+      mensaje("STOCK_CRITICO_RECORDATORIO", `Stock crítico (recordatorio): ${inv.producto.nombre}`),
+    );
+
+    if (rule) {
+      await tx.stockCriticalRule.update({
+        where: { inventarioId },
+        data: { lastNotifiedAt: now },
+      });
+    }
+
+    await tx.ecommerce_notificacion.create({
+      data: {
+        id: randomUUID(),
+        tipo: "STOCK_CRITICO",
+        referenciaTabla: "Inventario",
+        referenciaId: inventarioId,
+        titulo: `Stock crítico (recordatorio): ${inv.producto.nombre}`,
+        detalle: `Stock ${inv.stock} (mínimo ${threshold}).`,
+        leido: false,
       },
-    })
-    return
+    });
+
+    encolarEventoTx(tx, "stockAlert.resent", eventoAlerta(activeAlert.id));
+
+    return { action: "resent", alertId: activeAlert.id, entregas };
   }
 
-  // no crítico
-  if (!active) return
-  await tx.stockAlert.update({
-    where: { id: active.id },
-    data: { status: 'RESOLVED', resolvedAt: new Date() },
-  })
+  // Si NO está crítico, y hay alerta activa -> resolver
+  if (!isCritical && activeAlert) {
+    await tx.stockAlert.update({
+      where: { id: activeAlert.id },
+      data: cerrarAlertaData(now),
+    });
+
+    encolarEventoTx(tx, "stockAlert.resolved", eventoAlerta(activeAlert.id));
+
+    return { action: "resolved", alertId: activeAlert.id };
+  }
+
+  return { action: "noop" };
 }
 
-// Helper por si quieres evaluar varios inventarios (ej import excel)
-export async function evaluateManyStockCriticalTx(tx: Tx, inventarioIds: string[]) {
-  for (const id of inventarioIds) {
-    await evaluateStockCriticalTx(tx, id)
+/* =========================
+   Barrido completo (job + POST /stock-alerts/sweep)
+   - antes, solo se evaluaba al tocar una fila: los recordatorios por cooldown nunca salían solos
+   1) cierra alertas colgadas: RESOLVED que siguen activas, o activas con la regla deshabilitada
+   2) re-evalúa cada inventario (cada uno en su propia tx): crea / recuerda / resuelve
+========================= */
+
+export async function barrerStockCritico(now = new Date(), batchSize = 200) {
+  const cerradas = { resueltasActivas: 0, reglaDeshabilitada: 0 };
+
+  // resolve manual antiguo dejaba isActive=true: bloqueaba abrir una alerta nueva
+  const colgadas = await prisma.stockAlert.updateMany({
+    where: { isActive: true, status: "RESOLVED" },
+    data: { isActive: false, activeLock: null },
+  });
+  cerradas.resueltasActivas = colgadas.count;
+
+  const deshabilitadas = await prisma.stockAlert.findMany({
+    where: { isActive: true, inventario: { criticalRule: { enabled: false } } },
+    select: { id: true, inventarioId: true },
+  });
+  for (const a of deshabilitadas) {
+    await transaccionConEventos(async (tx) => {
+      await tx.stockAlert.update({ where: { id: a.id }, data: cerrarAlertaData(now) });
+      encolarEventoTx(tx, "stockAlert.resolved", { alertId: a.id, inventarioId: a.inventarioId, motivo: "rule_disabled" });
+    });
+    cerradas.reglaDeshabilitada++;
   }
+
+  const acciones = { created: 0, resent: 0, resolved: 0, noop: 0 };
+  const errores: Array<{ inventarioId: string; error: string }> = [];
+  let revisados = 0;
+  let cursor: string | undefined;
+
+  // por lotes ordenados por id: no carga todo el inventario en memoria
+  for (;;) {
+    const lote = await prisma.inventario.findMany({
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (lote.length === 0) break;
+
+    for (const { id } of lote) {
+      try {
+        const r = await transaccionConEventos((tx) => evaluateStockCriticalTx(tx, id));
+        const action = r.action as keyof typeof acciones;
+        acciones[action in acciones ? action : "noop"]++;
+      } catch (e: unknown) {
+        errores.push({ inventarioId: id, error: e instanceof Error ? e.message : String(e) });
+      }
+      revisados++;
+    }
+
+    cursor = lote[lote.length - 1].id;
+  }
+
+  return { at: now.toISOString(), revisados, ...acciones, cerradas, errores };
 }
@@ -0,0 +1,84 @@
+import { Prisma, TipoMovimientoStock } from "@prisma/client";
+
+type Tx = Prisma.TransactionClient;
+
+type MovimientoError = Error & { code?: string };
+
+export type RegistrarMovimientoInput = {
+  inventarioId: string;
+  tipo: TipoMovimientoStock;
+  /**
+   * Entrada/Salida: cantidad a sumar/restar.
+   * Ajuste: stock final (valor absoluto), igual que siempre en este API.
+   */
+  cantidad: number;
+  nota?: string | null;
+  /** Trazabilidad cuando el movimiento nace de otro documento (pedido, OC, etc) */
+  referenciaTabla?: string | null;
+  referenciaId?: string | null;
+  /** Solo para flujos que deciden "marcar" en vez de rechazar (ej: pedidos sin stock) */
+  permitirNegativo?: boolean;
+};
+
+function movimientoError(message: string, code: string): MovimientoError {
+  const err: MovimientoError = new Error(message);
+  err.code = code;
+  return err;
+}
+
+// Regla robusta: considera flete si el string del enum contiene "flet"
+function isFleteTipo(tipo: string | null | undefined) {
+  return String(tipo ?? "").toLowerCase().includes("flet");
+}
+
+export function calcularNuevoStock(stockActual: number, tipo: TipoMovimientoStock, cantidad: number) {
+  if (tipo === "Entrada") return stockActual + cantidad;
+  if (tipo === "Salida") return stockActual - cantidad;
+  return cantidad; // Ajuste
+}
+
+/**
+ * Registra 1 movimiento y deja Inventario.stock consistente con el ledger.
+ * - Guarda stockAnterior/stockResultante en la fila (saldo corrido)
+ * - Lanza STOCK_NEGATIVO si la salida deja stock < 0 (salvo permitirNegativo)
+ * - NO evalúa stock crítico: eso lo hace quien llama, dentro de la misma tx
+ */
+export async function registrarMovimientoTx(tx: Tx, input: RegistrarMovimientoInput) {
+  // lock de la fila antes de leer el stock: movimientos concurrentes se serializan y el saldo corrido cuadra
+  await tx.$queryRaw`SELECT id FROM "Inventario" WHERE id = ${input.inventarioId} FOR UPDATE`;
+
+  const inv = await tx.inventario.findUnique({
+    where: { id: input.inventarioId },
+    include: { producto: { select: { tipo: true } } },
+  });
+
+  if (!inv) throw movimientoError("Inventario no encontrado", "INV_NOT_FOUND");
+  if (isFleteTipo(inv.producto?.tipo)) {
+    throw movimientoError("No se puede manejar stock para un flete", "PRODUCTO_ES_FLETE");
+  }
+
+  const stockAnterior = inv.stock;
+  const stockResultante = calcularNuevoStock(stockAnterior, input.tipo, input.cantidad);
+
+  if (stockResultante < 0 && !input.permitirNegativo) throw movimientoError("Stock insuficiente", "STOCK_NEGATIVO");
+
+  const mov = await tx.stockMovimiento.create({
+    data: {
+      inventarioId: input.inventarioId,
+      tipo: input.tipo,
+      cantidad: input.cantidad,
+      nota: input.nota ?? null,
+      referenciaTabla: input.referenciaTabla ?? null,
+      referenciaId: input.referenciaId ?? null,
+      stockAnterior,
+      stockResultante,
+    },
+  });
+
+  const inventario = await tx.inventario.update({
+    where: { id: input.inventarioId },
+    data: { stock: stockResultante },
+  });
+
+  return { mov, inventario };
+}
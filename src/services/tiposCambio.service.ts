@@ -0,0 +1,196 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import type { FilaExcel } from "../utils/excel";
+
+/* =========================
+   Tipos de cambio → CLP
+   - TipoCambio.valorClp = pesos por 1 unidad de la moneda
+   - a una fecha se usa el último valor con fecha <= esa fecha
+========================= */
+
+export const MONEDA_BASE = "CLP";
+export const MONEDAS_CONVERTIBLES = ["USD", "EUR", "UF"] as const;
+export type MonedaConvertible = (typeof MONEDAS_CONVERTIBLES)[number];
+
+/** CLP, USD, EUR, UF (PrecioProveedor.moneda / OrdenCompra.moneda) */
+export const MONEDA_REGEX = /^[A-Z]{2,3}$/;
+
+/**
+ * CLP sin decimales; el resto con hasta 4 (UF).
+ * Precios de proveedor, OC y tipos de cambio son Decimal(14, 4) en BD: se opera con Prisma.Decimal, nunca con float.
+ */
+export function redondearMonto(monto: Prisma.Decimal.Value, moneda: string) {
+  return new Prisma.Decimal(monto).toDecimalPlaces(moneda === MONEDA_BASE ? 0 : 4, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * 12500 | "12.500" | "$ 12.500,50" | "12.99" -> decimal (null si no es un número ≥ 0).
+ * El texto se parsea directo a Decimal para no pasar por float.
+ */
+export function parseDecimal(raw: unknown): Prisma.Decimal | null {
+  if (typeof raw === "number") return Number.isFinite(raw) && raw >= 0 ? new Prisma.Decimal(raw) : null;
+
+  let s = String(raw ?? "").replace(/[$\s]/g, "");
+  if (!s) return null;
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(s)) s = s.replace(/\./g, ""); // separador de miles
+  s = s.replace(",", ".");
+  return /^\d+(\.\d+)?$/.test(s) ? new Prisma.Decimal(s) : null;
+}
+
+export type TasaClp = { moneda: string; valorClp: Prisma.Decimal; fecha: Date };
+
+/** TipoCambio.fecha es @db.Date: se compara contra el día (UTC) */
+export function soloFecha(d: Date) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/** Último valor conocido de cada moneda a la fecha (las que no tienen valor no aparecen). */
+export async function tasasAl(fecha = new Date()) {
+  const dia = soloFecha(fecha);
+  const rows = await Promise.all(
+    MONEDAS_CONVERTIBLES.map((moneda) =>
+      prisma.tipoCambio.findFirst({
+        where: { moneda, fecha: { lte: dia } },
+        orderBy: { fecha: "desc" },
+        select: { moneda: true, valorClp: true, fecha: true },
+      }),
+    ),
+  );
+
+  const tasas = new Map<string, TasaClp>();
+  for (const r of rows) if (r) tasas.set(r.moneda, r);
+  return tasas;
+}
+
+/** precio en CLP (pesos enteros); null si no hay tipo de cambio para esa moneda */
+export function convertirAClp(precio: Prisma.Decimal.Value, moneda: string, tasas: Map<string, TasaClp>) {
+  if (moneda === MONEDA_BASE) return { precioClp: redondearMonto(precio, MONEDA_BASE).toNumber(), tipoCambio: null };
+  const tasa = tasas.get(moneda);
+  if (!tasa) return { precioClp: null, tipoCambio: null };
+  return { precioClp: redondearMonto(tasa.valorClp.mul(precio), MONEDA_BASE).toNumber(), tipoCambio: tasa };
+}
+
+export type TipoCambioInput = {
+  moneda: MonedaConvertible;
+  fecha: Date;
+  valorClp: Prisma.Decimal.Value;
+  fuente?: string | null;
+};
+
+export async function guardarTipoCambio(input: TipoCambioInput) {
+  const fecha = soloFecha(input.fecha);
+  const valorClp = redondearMonto(input.valorClp, input.moneda);
+  return prisma.tipoCambio.upsert({
+    where: { moneda_fecha: { moneda: input.moneda, fecha } },
+    create: { moneda: input.moneda, fecha, valorClp, fuente: input.fuente ?? "manual" },
+    update: { valorClp, fuente: input.fuente ?? "manual" },
+  });
+}
+
+/* =========================
+   Importación Excel
+   - formato largo: fecha | moneda | valor
+   - o formato ancho: fecha | usd | eur | uf (una fila por día)
+========================= */
+
+export const IMPORT_TIPO_TIPOS_CAMBIO = "tipos_cambio";
+
+/** Date | serial Excel | "2026-01-31" | "31-01-2026" | "31/01/2026" */
+function parseFecha(raw: unknown): Date | null {
+  if (raw instanceof Date) return Number.isNaN(raw.getTime()) ? null : raw;
+  if (typeof raw === "number" && raw > 0) return new Date(Math.round((raw - 25569) * 86400000));
+
+  const s = String(raw ?? "").trim();
+  const dmy = s.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (dmy) return new Date(Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])));
+  if (/^\d{4}-\d{2}-\d{2}/.test(s)) {
+    const d = new Date(s.slice(0, 10));
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+/** 950.5 | "950,50" | "39.123,45" -> decimal (null si no es un valor > 0) */
+function parseValor(raw: unknown): Prisma.Decimal | null {
+  const valor = parseDecimal(raw);
+  return valor && valor.gt(0) ? valor : null;
+}
+
+function esMonedaConvertible(m: string): m is MonedaConvertible {
+  return (MONEDAS_CONVERTIBLES as readonly string[]).includes(m);
+}
+
+export async function importarTiposCambio(filas: FilaExcel[], archivoNombre?: string | null) {
+  const resultados: Array<{ nroFila: number; ok: boolean; error?: string; raw: FilaExcel }> = [];
+  let guardados = 0;
+
+  for (let i = 0; i < filas.length; i++) {
+    const row = filas[i];
+    const nroFila = i + 2;
+
+    const fecha = parseFecha(row.fecha);
+    if (!fecha) {
+      resultados.push({ nroFila, ok: false, error: "fecha inválida", raw: row });
+      continue;
+    }
+
+    const valores: Array<{ moneda: string; raw: unknown }> = row.moneda
+      ? [{ moneda: String(row.moneda).trim().toUpperCase(), raw: row.valor ?? row.valorclp }]
+      : MONEDAS_CONVERTIBLES.filter((m) => String(row[m.toLowerCase()] ?? "").trim() !== "").map((m) => ({
+          moneda: m,
+          raw: row[m.toLowerCase()],
+        }));
+
+    if (!valores.length) {
+      const error = "Sin valores (usa moneda + valor, o columnas usd / eur / uf)";
+      resultados.push({ nroFila, ok: false, error, raw: row });
+      continue;
+    }
+
+    const errores: string[] = [];
+    for (const v of valores) {
+      const valorClp = parseValor(v.raw);
+      if (!esMonedaConvertible(v.moneda)) {
+        errores.push(`moneda ${v.moneda} no soportada (${MONEDAS_CONVERTIBLES.join(", ")})`);
+      } else if (valorClp === null) {
+        errores.push(`valor ${v.moneda} inválido`);
+      } else {
+        await guardarTipoCambio({ moneda: v.moneda, fecha, valorClp, fuente: "excel" });
+        guardados++;
+      }
+    }
+
+    resultados.push({ nroFila, ok: errores.length === 0, error: errores.join("; ") || undefined, raw: row });
+  }
+
+  const filasOk = resultados.filter((r) => r.ok).length;
+  const filasError = resultados.length - filasOk;
+
+  const lote = await prisma.importLote.create({
+    data: {
+      tipo: IMPORT_TIPO_TIPOS_CAMBIO,
+      archivoNombre: archivoNombre ?? null,
+      estado: filasError ? "Procesado con errores" : "Procesado",
+      totalFilas: filas.length,
+      filasOk,
+      filasError,
+      filas: {
+        create: resultados.map((r) => ({
+          nroFila: r.nroFila,
+          ok: r.ok,
+          error: r.error ?? null,
+          raw: r.raw as Prisma.InputJsonObject,
+        })),
+      },
+    },
+  });
+
+  return {
+    loteId: lote.id,
+    total: filas.length,
+    filasOk,
+    filasError,
+    guardados,
+    errores: resultados.filter((r) => !r.ok).map((r) => ({ row: r.nroFila, error: r.error! })),
+  };
+}
@@ -0,0 +1,44 @@
+import XLSX from "xlsx";
+
+export type FilaExcel = Record<string, any>;
+
+/** "Precio Unitario " -> "preciounitario" */
+export function normalizeHeaderKey(k: string) {
+  return k.trim().replace(/\s+/g, "").toLowerCase();
+}
+
+/** "123" / "sku 123" -> "SKU-123" (mismo formato que crea la importación de inventario) */
+export function normalizeSku(raw: unknown) {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+
+  if (/^SKU-\d+$/i.test(s)) return s.toUpperCase();
+  if (/^\d+$/.test(s)) return `SKU-${s}`;
+  const m = s.match(/^SKU\D*(\d+)$/i);
+  if (m?.[1]) return `SKU-${m[1]}`.toUpperCase();
+  return s.toUpperCase();
+}
+
+/**
+ * Lee la primera hoja del Excel con headers normalizados (normalizeHeaderKey).
+ * La fila 1 son los headers: rows[i] corresponde a la fila i + 2 del Excel.
+ */
+export function leerPrimeraHoja(buffer: Buffer): { rows: FilaExcel[] } | { error: string } {
+  const wb = XLSX.read(buffer, { type: "buffer" });
+  const sheetName = wb.SheetNames[0];
+  if (!sheetName) return { error: "El Excel no tiene hojas." };
+
+  const ws = wb.Sheets[sheetName];
+  if (!ws) return { error: "No se pudo leer la hoja del Excel." };
+
+  const rawRows = XLSX.utils.sheet_to_json<FilaExcel>(ws, { defval: "" });
+  if (!rawRows.length) return { error: "El Excel está vacío (sin filas)." };
+
+  const rows = rawRows.map((r) => {
+    const out: FilaExcel = {};
+    for (const [k, v] of Object.entries(r)) out[normalizeHeaderKey(k)] = v;
+    return out;
+  });
+
+  return { rows };
+}
@@ -1,5 +1,6 @@
 import type { Response } from "express";
 import { Prisma } from "@prisma/client";
+import { ZodError } from "zod";
 
 export function ok(res: Response, data: any, status = 200) {
   return res.status(status).json(data);
@@ -26,3 +27,38 @@ export function handlePrismaError(res: Response, err: unknown) {
   console.error(err);
   return fail(res, 500, "Error interno del servidor.");
 }
+
+export type HttpError = Error & { status?: number; code?: string; extra?: Record<string, unknown> };
+
+/** Error de negocio con status HTTP (lo lanzan services y lo traduce handleError). */
+export function httpError(status: number, message: string, code?: string, extra?: Record<string, unknown>): HttpError {
+  const err: HttpError = new Error(message);
+  err.status = status;
+  err.code = code;
+  err.extra = extra;
+  return err;
+}
+
+export function isHttpError(err: unknown): err is HttpError {
+  return err instanceof Error && typeof (err as HttpError).status === "number";
+}
+
+/**
+ * Respuesta estándar para el catch de los controllers:
+ * - ZodError -> 400 con issues
+ * - httpError(...) -> su status/mensaje
+ * - Prisma conocidos -> handlePrismaError
+ */
+export function handleError(res: Response, err: unknown, context: string) {
+  if (err instanceof ZodError) {
+    return fail(res, 400, "Validation error", { issues: err.issues });
+  }
+  if (isHttpError(err)) {
+    return fail(res, err.status!, err.message, { code: err.code, ...err.extra });
+  }
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    return handlePrismaError(res, err);
+  }
+  console.error(`${context}:`, err);
+  return fail(res, 500, err instanceof Error && err.message ? err.message : context);
+}